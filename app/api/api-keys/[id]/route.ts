@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { revokeApiKey, toApiKey } from '@/lib/supabase/api-keys'
+import { APIError } from '@/lib/supabase/types'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+// Revoke a key. Revoked keys stay listed so their last use remains visible.
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Please log in to manage API keys', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const apiKey = await revokeApiKey(params.id, user.id, supabase)
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { code: 'API_KEY_NOT_FOUND', message: 'The API key does not exist or was already revoked', retryable: false } as APIError,
+        { status: 404 }
+      )
+    }
+
+    console.log(`[API KEYS] Revoked API key ${apiKey.id} (${apiKey.key_prefix}) for user ${user.id}`)
+
+    return NextResponse.json({ apiKey: toApiKey(apiKey) })
+
+  } catch (error) {
+    console.error('API key revoke error:', error)
+
+    return NextResponse.json(
+      { code: 'INTERNAL_SERVER_ERROR', message: 'Failed to revoke the API key. Please try again.', retryable: true } as APIError,
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { countActiveApiKeys, createApiKey, getUserApiKeys, toApiKey } from '@/lib/supabase/api-keys'
+import { checkUserLimits } from '@/lib/supabase/users'
+import { generateApiKey, MAX_ACTIVE_API_KEYS } from '@/lib/services/api-keys'
+import { ApiKeyCreateSchema, validate } from '@/lib/validation'
+import { APIError, CreatedApiKey } from '@/lib/supabase/types'
+
+export async function GET() {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Please log in to manage API keys', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const apiKeys = await getUserApiKeys(user.id, supabase)
+
+    return NextResponse.json({ apiKeys: apiKeys.map(toApiKey) })
+
+  } catch (error) {
+    console.error('API keys list error:', error)
+
+    return NextResponse.json(
+      { code: 'INTERNAL_SERVER_ERROR', message: 'Failed to load API keys. Please try again.', retryable: true } as APIError,
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Please log in to manage API keys', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { code: 'INVALID_PAYLOAD', message: 'Invalid JSON payload', retryable: false } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const input = validate(ApiKeyCreateSchema, body, 'Invalid API key')
+    if (!input.success) {
+      return NextResponse.json(input.error, { status: 400 })
+    }
+
+    const limits = await checkUserLimits(user.id, supabase)
+    if (!limits.features.apiAccess) {
+      return NextResponse.json(
+        { code: 'API_ACCESS_NOT_AVAILABLE', message: 'API keys require a plan with API access', retryable: false } as APIError,
+        { status: 403 }
+      )
+    }
+
+    if (await countActiveApiKeys(user.id, supabase) >= MAX_ACTIVE_API_KEYS) {
+      return NextResponse.json(
+        { code: 'API_KEY_LIMIT_REACHED', message: `You can have at most ${MAX_ACTIVE_API_KEYS} active API keys. Revoke one first.`, retryable: false } as APIError,
+        { status: 409 }
+      )
+    }
+
+    const { key, prefix, hash } = generateApiKey()
+    const apiKey = await createApiKey({
+      user_id: user.id,
+      name: input.data.name,
+      key_prefix: prefix,
+      key_hash: hash,
+      scopes: input.data.scopes
+    })
+
+    console.log(`[API KEYS] Created API key ${apiKey.id} (${prefix}) for user ${user.id}`)
+
+    const created: CreatedApiKey = { ...toApiKey(apiKey), key }
+    return NextResponse.json({ apiKey: created }, { status: 201 })
+
+  } catch (error) {
+    console.error('API key create error:', error)
+
+    return NextResponse.json(
+      { code: 'INTERNAL_SERVER_ERROR', message: 'Failed to create the API key. Please try again.', retryable: true } as APIError,
+      { status: 500 }
+    )
+  }
+}
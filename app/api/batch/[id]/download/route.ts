@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getBatch, getBatchConversions } from '@/lib/supabase/batches'
+import { parseConversionDetails, trackEvent } from '@/lib/supabase/conversions'
+import { generateMergedWorkbook, WorkbookSource, XLSX_CONTENT_TYPE } from '@/lib/services/excel-generator'
+import { APIError } from '@/lib/supabase/types'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+// One workbook with the results of every completed conversion in the batch. Conversions that are
+// still running or failed are left out, so a partial batch can be downloaded as well.
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id } = params
+
+    if (!id) {
+      return NextResponse.json(
+        { code: 'MISSING_BATCH_ID', message: 'Batch ID is required', retryable: false } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Please log in to download files', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const batch = await getBatch(id, supabase)
+
+    if (!batch) {
+      return NextResponse.json(
+        { code: 'BATCH_NOT_FOUND', message: 'The requested batch does not exist', retryable: false } as APIError,
+        { status: 404 }
+      )
+    }
+
+    // Check if user owns this batch
+    if (batch.user_id !== user.id) {
+      return NextResponse.json(
+        { code: 'ACCESS_DENIED', message: 'You do not have permission to download this batch', retryable: false } as APIError,
+        { status: 403 }
+      )
+    }
+
+    const conversions = await getBatchConversions(batch.id, supabase)
+
+    const sources: WorkbookSource[] = []
+    conversions.forEach(conversion => {
+      if (conversion.status !== 'completed') return
+      const details = parseConversionDetails(conversion)
+      if (details) {
+        sources.push({ fileName: conversion.original_filename, details })
+      }
+    })
+
+    if (sources.length === 0) {
+      return NextResponse.json(
+        {
+          code: 'BATCH_NOT_READY',
+          message: 'None of the files in this batch have finished converting yet',
+          retryable: true
+        } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const fileBuffer = await generateMergedWorkbook(sources)
+    const fileName = `batch-${batch.id.slice(0, 8)}.xlsx`
+
+    await trackEvent(
+      user.id,
+      'download',
+      undefined,
+      {
+        file_name: fileName,
+        file_size: fileBuffer.length,
+        batch_id: batch.id,
+        conversions_included: sources.length
+      }
+    )
+
+    return new NextResponse(new Uint8Array(fileBuffer), {
+      status: 200,
+      headers: {
+        'Content-Type': XLSX_CONTENT_TYPE,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Content-Length': fileBuffer.length.toString(),
+        'Cache-Control': 'private, no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      }
+    })
+
+  } catch (error) {
+    console.error('Batch download API error:', error)
+
+    return NextResponse.json(
+      {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'An unexpected error occurred during download. Please try again.',
+        retryable: true
+      } as APIError,
+      { status: 500 }
+    )
+  }
+}
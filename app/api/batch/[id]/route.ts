@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getBatch, getBatchConversions } from '@/lib/supabase/batches'
+import { estimateConversionProgress } from '@/lib/services/conversion-progress'
+import { summarizeBatch } from '@/lib/services/batches'
+import { APIError } from '@/lib/supabase/types'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id } = params
+
+    if (!id) {
+      return NextResponse.json(
+        { code: 'MISSING_BATCH_ID', message: 'Batch ID is required', retryable: false } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Please log in to view this batch', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const batch = await getBatch(id, supabase)
+
+    if (!batch) {
+      return NextResponse.json(
+        { code: 'BATCH_NOT_FOUND', message: 'The requested batch does not exist', retryable: false } as APIError,
+        { status: 404 }
+      )
+    }
+
+    // Check if user owns this batch
+    if (batch.user_id !== user.id) {
+      return NextResponse.json(
+        { code: 'ACCESS_DENIED', message: 'You do not have permission to access this batch', retryable: false } as APIError,
+        { status: 403 }
+      )
+    }
+
+    const conversions = await getBatchConversions(batch.id, supabase)
+
+    const response = NextResponse.json({
+      id: batch.id,
+      documentType: batch.document_type,
+      createdAt: batch.created_at,
+      ...summarizeBatch(conversions),
+      conversions: conversions.map(conversion => ({
+        id: conversion.id,
+        originalFilename: conversion.original_filename,
+        status: conversion.status,
+        fileSize: conversion.file_size,
+        errorMessage: conversion.error_message,
+        totalRows: conversion.total_rows,
+        createdAt: conversion.created_at,
+        updatedAt: conversion.updated_at,
+        ...estimateConversionProgress(conversion)
+      }))
+    }, { status: 200 })
+    response.headers.set('Cache-Control', 'no-cache, no-store, must-revalidate')
+
+    return response
+
+  } catch (error) {
+    console.error('Batch API error:', error)
+
+    return NextResponse.json(
+      {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to retrieve the batch. Please try again.',
+        retryable: true
+      } as APIError,
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { getConversion } from '@/lib/supabase/conversions'
+import { getConversion, getQualityWarnings, parseConversionDetails, parseConversionInvoices } from '@/lib/supabase/conversions'
+import { reconcileSummaries } from '@/lib/services/data-quality'
 import { APIError, CompanySummary, TransactionData } from '@/lib/supabase/types'
 
 interface RouteParams {
@@ -53,12 +54,15 @@ export async function GET(
       )
     }
 
+    const details = parseConversionDetails(conversion)
+
     // Format detailed response
     const response = {
       id: conversion.id,
       originalFilename: conversion.original_filename,
       convertedFilename: conversion.converted_filename,
       status: conversion.status,
+      documentType: conversion.document_type || 'spt',
       fileSize: conversion.file_size,
       errorMessage: conversion.error_message,
       downloadUrl: conversion.download_url,
@@ -69,8 +73,12 @@ export async function GET(
       updatedAt: conversion.updated_at,
       summaries: conversion.summaries as unknown as CompanySummary[] | null,
       transactionData: conversion.transaction_data as unknown as TransactionData[] | null,
+      invoices: parseConversionInvoices(conversion),
       // Additional calculated fields
       hasDetailedData: !!(conversion.summaries && conversion.transaction_data),
+      hasOriginalFile: !!conversion.original_file_path,
+      qualityWarnings: getQualityWarnings(conversion),
+      reconciliation: details ? reconcileSummaries(details) : null,
       totalCompanies: conversion.summaries ? (conversion.summaries as unknown as CompanySummary[]).length : 0,
       totalTax: conversion.summaries ? 
         (conversion.summaries as unknown as CompanySummary[]).reduce((sum, company: any) => 
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getConversion } from '@/lib/supabase/conversions'
+import { getTransactionEdit } from '@/lib/supabase/transaction-edits'
+import { applyTransactionChanges } from '@/lib/services/transaction-edits'
+import { APIError } from '@/lib/supabase/types'
+
+interface RouteParams {
+  params: {
+    id: string
+    editId: string
+  }
+}
+
+// Put a field back to its value before the given edit. The revert is itself recorded as an edit.
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id, editId } = params
+
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Please log in to edit conversions', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const conversion = await getConversion(id)
+
+    if (!conversion) {
+      return NextResponse.json(
+        { code: 'CONVERSION_NOT_FOUND', message: 'The requested conversion does not exist', retryable: false } as APIError,
+        { status: 404 }
+      )
+    }
+
+    // Check if user owns this conversion
+    if (conversion.user_id !== user.id) {
+      return NextResponse.json(
+        { code: 'ACCESS_DENIED', message: 'You do not have permission to edit this conversion', retryable: false } as APIError,
+        { status: 403 }
+      )
+    }
+
+    const edit = await getTransactionEdit(editId, supabase)
+
+    if (!edit || edit.conversionId !== id) {
+      return NextResponse.json(
+        { code: 'EDIT_NOT_FOUND', message: 'The requested edit does not exist', retryable: false } as APIError,
+        { status: 404 }
+      )
+    }
+
+    // Only revert a field that still holds the edited value; otherwise a later edit would be lost
+    const transactions = Array.isArray(conversion.transaction_data) ? conversion.transaction_data : []
+    const current = (transactions[edit.row] as Record<string, unknown> | undefined)?.[edit.field]
+    if (String(current ?? '') !== String(edit.newValue ?? '')) {
+      return NextResponse.json(
+        {
+          code: 'EDIT_CONFLICT',
+          message: 'This field has been changed again since this edit. Revert the later edit first.',
+          retryable: false
+        } as APIError,
+        { status: 409 }
+      )
+    }
+
+    const result = await applyTransactionChanges({
+      supabase,
+      conversion,
+      user,
+      // Restore the old value exactly, even one that would not pass validation as a new edit, including an
+      // empty (null) cell
+      changes: [{ row: edit.row, field: edit.field, value: edit.oldValue }],
+      revertsEditId: edit.id
+    })
+
+    if (!result.success) {
+      return NextResponse.json(result.error, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, ...result.data }, { status: 200 })
+
+  } catch (error) {
+    console.error('Edit revert API error:', error)
+
+    return NextResponse.json(
+      {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to revert the edit. Please try again.',
+        retryable: true
+      } as APIError,
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getTransactionEdits } from '@/lib/supabase/transaction-edits'
+import { APIError } from '@/lib/supabase/types'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+export const dynamic = 'force-dynamic'
+
+// Edit history of a conversion's transactions, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Please log in to view edit history', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    // RLS only returns edits of the user's own conversions
+    const edits = await getTransactionEdits(params.id, supabase)
+
+    return NextResponse.json({ edits }, { status: 200 })
+
+  } catch (error) {
+    console.error('Edit history API error:', error)
+
+    return NextResponse.json(
+      {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to load the edit history. Please try again.',
+        retryable: true
+      } as APIError,
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getConversion, trackEvent } from '@/lib/supabase/conversions'
+import { buildConversionExport, getContentDisposition } from '@/lib/services/export'
+import { ExportQuerySchema, validate } from '@/lib/validation'
+import { APIError, ExportOptions } from '@/lib/supabase/types'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id } = params
+    const { searchParams } = request.nextUrl
+
+    if (!id) {
+      return NextResponse.json(
+        { code: 'MISSING_CONVERSION_ID', message: 'Conversion ID is required', retryable: false } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const query = validate(ExportQuerySchema, {
+      format: searchParams.get('format') || undefined,
+      delimiter: searchParams.get('delimiter') || undefined,
+      decimal: searchParams.get('decimal') || undefined,
+      sheet: searchParams.get('sheet') || undefined
+    }, 'Invalid export options')
+    if (!query.success) {
+      return NextResponse.json(query.error, { status: 400 })
+    }
+
+    const { format } = query.data
+    const csvOptions: ExportOptions = {
+      delimiter: query.data.delimiter,
+      decimalFormat: query.data.decimal,
+      sheet: query.data.sheet
+    }
+
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Please log in to export conversions', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const conversion = await getConversion(id)
+
+    if (!conversion) {
+      return NextResponse.json(
+        { code: 'CONVERSION_NOT_FOUND', message: 'The requested conversion does not exist', retryable: false } as APIError,
+        { status: 404 }
+      )
+    }
+
+    // Check if user owns this conversion
+    if (conversion.user_id !== user.id) {
+      return NextResponse.json(
+        { code: 'ACCESS_DENIED', message: 'You do not have permission to export this conversion', retryable: false } as APIError,
+        { status: 403 }
+      )
+    }
+
+    const exported = await buildConversionExport(conversion, format, csvOptions)
+
+    if (!exported) {
+      return NextResponse.json(
+        { code: 'EXPORT_NOT_AVAILABLE', message: 'No extracted data is available for this conversion', retryable: false } as APIError,
+        { status: 404 }
+      )
+    }
+
+    const { body, contentType, fileName } = exported
+
+    try {
+      await trackEvent(user.id, 'download', conversion.id, {
+        file_name: fileName,
+        export_format: format
+      })
+    } catch (trackError) {
+      console.error('Failed to track export event:', trackError)
+    }
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': getContentDisposition('attachment', fileName),
+        'Cache-Control': 'private, no-cache, no-store, must-revalidate'
+      }
+    })
+
+  } catch (error) {
+    console.error('Export API error:', error)
+
+    return NextResponse.json(
+      {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to export conversion. Please try again.',
+        retryable: true
+      } as APIError,
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getConversion } from '@/lib/supabase/conversions'
+import { downloadOriginalFile } from '@/lib/supabase/storage'
+import { getContentDisposition } from '@/lib/services/export'
+import { APIError } from '@/lib/supabase/types'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+// Serve the stored original PDF inline so the detail page can render it next to the extracted rows
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id } = params
+
+    if (!id) {
+      return NextResponse.json(
+        { code: 'MISSING_CONVERSION_ID', message: 'Conversion ID is required', retryable: false } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Please log in to view the original document', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const conversion = await getConversion(id)
+
+    if (!conversion) {
+      return NextResponse.json(
+        { code: 'CONVERSION_NOT_FOUND', message: 'The requested conversion does not exist', retryable: false } as APIError,
+        { status: 404 }
+      )
+    }
+
+    // Check if user owns this conversion
+    if (conversion.user_id !== user.id) {
+      return NextResponse.json(
+        { code: 'ACCESS_DENIED', message: 'You do not have permission to access this conversion', retryable: false } as APIError,
+        { status: 403 }
+      )
+    }
+
+    // Conversions created before originals were stored have nothing to show
+    if (!conversion.original_file_path) {
+      return NextResponse.json(
+        { code: 'ORIGINAL_FILE_NOT_FOUND', message: 'The original file is no longer available', retryable: false } as APIError,
+        { status: 410 }
+      )
+    }
+
+    let fileBuffer: Buffer
+    try {
+      fileBuffer = await downloadOriginalFile(conversion.original_file_path, supabase)
+    } catch (storageError) {
+      console.error('Original file download error:', storageError)
+      return NextResponse.json(
+        { code: 'ORIGINAL_FILE_NOT_FOUND', message: 'The original file could not be retrieved', retryable: true } as APIError,
+        { status: 500 }
+      )
+    }
+
+    return new NextResponse(new Uint8Array(fileBuffer), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': getContentDisposition('inline', conversion.original_filename),
+        'Cache-Control': 'private, max-age=300'
+      }
+    })
+
+  } catch (error) {
+    console.error('Original file API error:', error)
+
+    return NextResponse.json(
+      {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to load the original document. Please try again.',
+        retryable: true
+      } as APIError,
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,202 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getConversion, trackEvent } from '@/lib/supabase/conversions'
+import { checkUserLimits } from '@/lib/supabase/users'
+import { InsufficientCreditsError, reserveConversionCredits } from '@/lib/supabase/credits'
+import { downloadOriginalFile } from '@/lib/supabase/storage'
+import { getProcessingBackend } from '@/lib/services/processing'
+import { enqueueConversion } from '@/lib/services/job-queue'
+import { transitionConversion } from '@/lib/services/conversion-status'
+import { APIError, ConversionResponse, DocumentType } from '@/lib/supabase/types'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id } = params
+
+    if (!id) {
+      return NextResponse.json(
+        { code: 'MISSING_CONVERSION_ID', message: 'Conversion ID is required', retryable: false } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Please log in to retry conversions', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const conversion = await getConversion(id)
+
+    if (!conversion) {
+      return NextResponse.json(
+        { code: 'CONVERSION_NOT_FOUND', message: 'The requested conversion does not exist', retryable: false } as APIError,
+        { status: 404 }
+      )
+    }
+
+    // Check if user owns this conversion
+    if (conversion.user_id !== user.id) {
+      return NextResponse.json(
+        { code: 'ACCESS_DENIED', message: 'You do not have permission to retry this conversion', retryable: false } as APIError,
+        { status: 403 }
+      )
+    }
+
+    // Only allow retry for failed conversions
+    if (conversion.status !== 'failed') {
+      return NextResponse.json(
+        { code: 'INVALID_STATUS', message: 'Can only retry failed conversions', retryable: false } as APIError,
+        { status: 400 }
+      )
+    }
+
+    // Conversions created before originals were stored cannot be reprocessed
+    if (!conversion.original_file_path) {
+      return NextResponse.json(
+        { code: 'ORIGINAL_FILE_NOT_FOUND', message: 'The original file is no longer available. Please upload it again.', retryable: false } as APIError,
+        { status: 410 }
+      )
+    }
+
+    const documentType = (conversion.document_type || 'spt') as DocumentType
+    const backend = getProcessingBackend(documentType)
+
+    if (!backend) {
+      return NextResponse.json(
+        { code: 'PROCESSING_UNAVAILABLE', message: `Processing for ${documentType} documents is not configured`, retryable: false } as APIError,
+        { status: 503 }
+      )
+    }
+
+    // Check if user has credits before allowing retry
+    const limitsCheck = await checkUserLimits(user.id)
+    if (!limitsCheck.hasCredits) {
+      return NextResponse.json(
+        { code: 'INSUFFICIENT_CREDITS', message: 'Insufficient credits to retry conversion', retryable: false } as APIError,
+        { status: 403 }
+      )
+    }
+
+    let fileBuffer: Buffer
+    try {
+      fileBuffer = await downloadOriginalFile(conversion.original_file_path)
+    } catch (storageError) {
+      console.error('Original file download error:', storageError)
+      return NextResponse.json(
+        { code: 'ORIGINAL_FILE_NOT_FOUND', message: 'The original file could not be retrieved. Please upload it again.', retryable: true } as APIError,
+        { status: 500 }
+      )
+    }
+
+    // Reset conversion state before re-dispatching; fails if another retry already picked it up
+    const reset = await transitionConversion(conversion.id, 'pending', {
+      error_message: null,
+      error_code: null,
+      download_url: null,
+      completed_at: null,
+      progress_stage: null,
+      progress_percent: null,
+      progress_message: null,
+      progress_updated_at: null
+    }, supabase)
+
+    if (!reset) {
+      return NextResponse.json(
+        { code: 'INVALID_STATUS', message: 'Can only retry failed conversions', retryable: false } as APIError,
+        { status: 409 }
+      )
+    }
+
+    // Charge 1 credit for the retry, same as a new conversion
+    try {
+      await reserveConversionCredits(user.id, [conversion.id], 'conversion_retry')
+    } catch (creditError) {
+      if (!(creditError instanceof InsufficientCreditsError)) throw creditError
+
+      // The balance dropped since it was checked; put the conversion back as it was
+      await transitionConversion(conversion.id, 'failed', {
+        error_message: conversion.error_message,
+        error_code: conversion.error_code,
+        completed_at: conversion.completed_at
+      }, supabase)
+
+      return NextResponse.json(
+        { code: 'INSUFFICIENT_CREDITS', message: 'Insufficient credits to retry conversion', retryable: false } as APIError,
+        { status: 403 }
+      )
+    }
+
+    await trackEvent(
+      user.id,
+      'conversion_start',
+      conversion.id,
+      {
+        file_name: conversion.original_filename,
+        file_size: conversion.file_size,
+        document_type: documentType,
+        retry: true
+      }
+    )
+
+    // Queue the retry and make the first attempt now; transient failures are retried by the job worker
+    const outcome = await enqueueConversion({
+      conversionId: conversion.id,
+      userId: user.id,
+      documentType,
+      fileBuffer
+    })
+
+    // The job queue has already failed the conversion and refunded the retry credit
+    if (outcome.status === 'dead') {
+      return NextResponse.json(
+        { code: 'PROCESSING_FAILED', message: `Retry failed: ${outcome.error}`, retryable: false } as APIError,
+        { status: 422 }
+      )
+    }
+
+    console.log(`[CREDIT SYSTEM] Conversion ${conversion.id} re-dispatched for retry`)
+
+    const completed = outcome.status === 'succeeded' && outcome.result.status === 'completed'
+    const response: ConversionResponse = {
+      success: true,
+      conversionId: conversion.id,
+      status: completed ? 'completed' : outcome.status === 'retrying' ? 'pending' : 'processing',
+      message: completed
+        ? 'Conversion completed.'
+        : outcome.status === 'retrying'
+          ? 'The processing service is temporarily unavailable. Your retry is queued.'
+          : 'Conversion restarted successfully.',
+      estimatedTime: completed ? 0 : Math.ceil(fileBuffer.length / (1024 * 1024)) * 30000
+    }
+
+    return NextResponse.json(response, { status: 200 })
+
+  } catch (error) {
+    console.error('Retry API error:', error)
+
+    return NextResponse.json(
+      {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to retry conversion. Please try again.',
+        retryable: true
+      } as APIError,
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getConversion } from '@/lib/supabase/conversions'
+import { applyTransactionChanges } from '@/lib/services/transaction-edits'
+import { TransactionPatchSchema, validate } from '@/lib/validation'
+import { APIError } from '@/lib/supabase/types'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+// Correct extracted transaction fields, e.g. a misread rupiah amount. Summaries are recomputed
+// from the edited transactions and every changed field is recorded in the edit history.
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id } = params
+
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Please log in to edit conversions', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { code: 'INVALID_PAYLOAD', message: 'Invalid JSON payload', retryable: false } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const validation = validate(TransactionPatchSchema, body, 'Invalid changes')
+    if (!validation.success) {
+      return NextResponse.json(validation.error, { status: 400 })
+    }
+
+    const conversion = await getConversion(id)
+
+    if (!conversion) {
+      return NextResponse.json(
+        { code: 'CONVERSION_NOT_FOUND', message: 'The requested conversion does not exist', retryable: false } as APIError,
+        { status: 404 }
+      )
+    }
+
+    // Check if user owns this conversion
+    if (conversion.user_id !== user.id) {
+      return NextResponse.json(
+        { code: 'ACCESS_DENIED', message: 'You do not have permission to edit this conversion', retryable: false } as APIError,
+        { status: 403 }
+      )
+    }
+
+    const result = await applyTransactionChanges({
+      supabase,
+      conversion,
+      user,
+      changes: validation.data.changes
+    })
+
+    if (!result.success) {
+      return NextResponse.json(result.error, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, ...result.data }, { status: 200 })
+
+  } catch (error) {
+    console.error('Transaction edit API error:', error)
+
+    return NextResponse.json(
+      {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to save your changes. Please try again.',
+        retryable: true
+      } as APIError,
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, SupabaseServerClient } from '@/lib/supabase/server'
+import { getUserProfile, checkUserLimits } from '@/lib/supabase/users'
+import { getProcessingBackend } from '@/lib/services/processing'
+import { getBatchFileLimit } from '@/lib/services/batches'
+import { createBatchUpload } from '@/lib/services/batch-upload'
+import { checkRateLimit, withRateLimitHeaders } from '@/lib/services/rate-limit'
+import { ConvertFormSchema, FieldViolation, validate } from '@/lib/validation'
+import { APIError } from '@/lib/supabase/types'
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
+const ALLOWED_TYPES = ['application/pdf']
+
+// Everything after authentication and the rate limit check
+async function convertBatchUpload(request: NextRequest, supabase: SupabaseServerClient, userId: string) {
+  const userProfile = await getUserProfile(userId)
+  if (!userProfile) {
+    return NextResponse.json(
+      { code: 'USER_PROFILE_NOT_FOUND', message: 'Please complete your profile setup', retryable: false } as APIError,
+      { status: 400 }
+    )
+  }
+
+  // Parse form data
+  const formData = await request.formData()
+  const files = formData.getAll('files').filter((entry): entry is File => entry instanceof File)
+
+  const form = validate(ConvertFormSchema, {
+    documentType: formData.get('documentType') || undefined,
+    options: formData.get('options') || undefined
+  })
+  if (!form.success) {
+    return NextResponse.json(form.error, { status: 400 })
+  }
+  const { documentType } = form.data
+
+  if (files.length === 0) {
+    return NextResponse.json(
+      { code: 'NO_FILE_PROVIDED', message: 'Please select at least one PDF file to convert', retryable: false } as APIError,
+      { status: 400 }
+    )
+  }
+
+  const backend = getProcessingBackend(documentType)
+
+  if (!backend) {
+    return NextResponse.json(
+      { code: 'PROCESSING_UNAVAILABLE', message: `Processing for ${documentType} documents is not configured`, retryable: false } as APIError,
+      { status: 503 }
+    )
+  }
+
+  const limitsCheck = await checkUserLimits(userId)
+
+  const maxFiles = getBatchFileLimit(limitsCheck.subscriptionTier)
+  if (files.length > maxFiles) {
+    return NextResponse.json(
+      {
+        code: 'BATCH_TOO_LARGE',
+        message: `Your plan allows up to ${maxFiles} file${maxFiles === 1 ? '' : 's'} per upload`,
+        details: { maxFiles },
+        retryable: false
+      } as APIError,
+      { status: 400 }
+    )
+  }
+
+  // Reject the whole batch if any file is unusable, reporting every problem at once
+  const maxFileSizeBytes = Math.min(MAX_FILE_SIZE, limitsCheck.maxFileSize * 1024 * 1024)
+  const violations: FieldViolation[] = []
+  files.forEach((file, index) => {
+    if (!ALLOWED_TYPES.includes(file.type)) {
+      violations.push({ field: `files.${index}`, message: `${file.name}: only PDF files are supported`, code: 'INVALID_FILE_TYPE' })
+    } else if (file.size > maxFileSizeBytes) {
+      violations.push({ field: `files.${index}`, message: `${file.name}: file size exceeds ${maxFileSizeBytes / 1024 / 1024}MB`, code: 'FILE_TOO_LARGE' })
+    }
+  })
+
+  if (violations.length > 0) {
+    return NextResponse.json(
+      {
+        code: 'VALIDATION_FAILED',
+        message: `Some files cannot be converted: ${violations.map(v => v.message).join('; ')}`,
+        details: { violations },
+        retryable: false
+      } as APIError,
+      { status: 400 }
+    )
+  }
+
+  const result = await createBatchUpload({
+    supabase,
+    userId,
+    subscriptionTier: userProfile.subscription_tier,
+    creditsRemaining: limitsCheck.creditsRemaining,
+    documentType,
+    files: await Promise.all(files.map(async file => ({
+      fileName: file.name,
+      contentType: file.type,
+      buffer: Buffer.from(await file.arrayBuffer())
+    })))
+  })
+
+  if (!result.success) {
+    return NextResponse.json(result.error, { status: result.status })
+  }
+
+  return NextResponse.json(result.data, { status: 200 })
+}
+
+// Upload several PDFs as one batch. Every file is checked before anything is created, so one bad
+// file rejects the whole upload.
+export async function POST(request: NextRequest) {
+  let rateLimitHeaders: Record<string, string> = {}
+
+  try {
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Please log in to convert files', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const rateLimit = await checkRateLimit('convert', { userId: user.id })
+    if (!rateLimit.success) {
+      return NextResponse.json(rateLimit.error, { status: rateLimit.status, headers: rateLimit.headers })
+    }
+    rateLimitHeaders = rateLimit.headers
+
+    return withRateLimitHeaders(await convertBatchUpload(request, supabase, user.id), rateLimitHeaders)
+
+  } catch (error) {
+    console.error('Batch conversion API error:', error)
+
+    return withRateLimitHeaders(NextResponse.json(
+      {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'An unexpected error occurred. Please try again.',
+        retryable: true,
+        debug: process.env.NODE_ENV === 'development' ? {
+          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+          errorName: error instanceof Error ? error.name : 'UnknownError'
+        } : undefined
+      } as APIError,
+      { status: 500 }
+    ), rateLimitHeaders)
+  }
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
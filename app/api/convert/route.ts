@@ -1,265 +1,210 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@/lib/supabase/server'
-import { createConversion, trackEvent } from '@/lib/supabase/conversions'
-import { getUserProfile, checkUserLimits, updateUserCredits } from '@/lib/supabase/users'
-import { ConversionRequest, ConversionResponse, APIError, DocumentType } from '@/lib/supabase/types'
+import { createClient, SupabaseServerClient } from '@/lib/supabase/server'
+import { getUserProfile, checkUserLimits } from '@/lib/supabase/users'
+import { getProcessingBackend } from '@/lib/services/processing'
+import { createConversionUpload, MAX_FILE_SIZE } from '@/lib/services/conversion-upload'
+import { ARCHIVE_LIMITS, getBatchFileLimit, isArchiveFile } from '@/lib/services/batches'
+import { ArchiveError, extractPdfsFromZip } from '@/lib/services/archive'
+import { createBatchUpload } from '@/lib/services/batch-upload'
+import { checkRateLimit, withRateLimitHeaders } from '@/lib/services/rate-limit'
+import { ConvertFormSchema, validate } from '@/lib/validation'
+import { ConversionRequest, APIError, DocumentType } from '@/lib/supabase/types'
 
-const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
 const ALLOWED_TYPES = ['application/pdf']
-const N8N_WEBHOOK_URL = process.env.N8N_WEBHOOK_URL
-const N8N_WEBHOOK_INDOMARET_URL = process.env.N8N_WEBHOOK_INDOMARET_URL
-const N8N_WEBHOOK_SECRET = process.env.N8N_WEBHOOK_SECRET
 
-export async function POST(request: NextRequest) {
-  try {
-    // Create Supabase client with server context (cookies)
-    const supabase = createClient()
-    
-    // Check authentication
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
-    
-    if (authError || !user) {
-      return NextResponse.json(
-        { code: 'UNAUTHORIZED', message: 'Please log in to convert files', retryable: false } as APIError,
-        { status: 401 }
-      )
-    }
-
-    // Get user profile and check limits
-    const userProfile = await getUserProfile(user.id)
-    if (!userProfile) {
-      return NextResponse.json(
-        { code: 'USER_PROFILE_NOT_FOUND', message: 'Please complete your profile setup', retryable: false } as APIError,
-        { status: 400 }
-      )
-    }
+interface ArchiveUploadContext {
+  supabase: SupabaseServerClient
+  userId: string
+  subscriptionTier: string
+  documentType: DocumentType
+}
 
-    // Parse form data
-    const formData = await request.formData()
-    const file = formData.get('file') as File
-    const documentType = (formData.get('documentType') as DocumentType) || 'spt'
-    const options = formData.get('options') ? JSON.parse(formData.get('options') as string) : {}
+// Unpack a ZIP upload and convert every PDF inside it as one batch
+async function convertArchive(file: File, context: ArchiveUploadContext) {
+  if (file.size > ARCHIVE_LIMITS.maxArchiveSize) {
+    return NextResponse.json(
+      { code: 'FILE_TOO_LARGE', message: `ZIP files must be less than ${ARCHIVE_LIMITS.maxArchiveSize / 1024 / 1024}MB`, retryable: false } as APIError,
+      { status: 400 }
+    )
+  }
 
-    if (!file) {
-      return NextResponse.json(
-        { code: 'NO_FILE_PROVIDED', message: 'Please select a PDF file to convert', retryable: false } as APIError,
-        { status: 400 }
-      )
-    }
+  const limitsCheck = await checkUserLimits(context.userId)
+  if (!limitsCheck.features.batchProcessing) {
+    return NextResponse.json(
+      { code: 'BATCH_NOT_AVAILABLE', message: 'Uploading ZIP files requires a plan with batch processing', retryable: false } as APIError,
+      { status: 403 }
+    )
+  }
 
-    // Validate file and document type
-    if (!ALLOWED_TYPES.includes(file.type)) {
-      return NextResponse.json(
-        { code: 'INVALID_FILE_TYPE', message: 'Only PDF files are supported', retryable: false } as APIError,
-        { status: 400 }
-      )
-    }
+  const maxFileSize = Math.min(MAX_FILE_SIZE, limitsCheck.maxFileSize * 1024 * 1024)
 
-    if (!['spt', 'indomaret'].includes(documentType)) {
+  let contents
+  try {
+    contents = await extractPdfsFromZip(Buffer.from(await file.arrayBuffer()), maxFileSize)
+  } catch (archiveError) {
+    if (archiveError instanceof ArchiveError) {
       return NextResponse.json(
-        { code: 'INVALID_DOCUMENT_TYPE', message: 'Invalid document type. Must be either "spt" or "indomaret"', retryable: false } as APIError,
+        { code: archiveError.code, message: archiveError.message, retryable: false } as APIError,
         { status: 400 }
       )
     }
+    throw archiveError
+  }
 
-    if (file.size > MAX_FILE_SIZE) {
-      return NextResponse.json(
-        { code: 'FILE_TOO_LARGE', message: `File size must be less than ${MAX_FILE_SIZE / 1024 / 1024}MB`, retryable: false } as APIError,
-        { status: 400 }
-      )
-    }
+  if (contents.files.length === 0) {
+    return NextResponse.json(
+      {
+        code: 'NO_PDF_IN_ARCHIVE',
+        message: 'The ZIP file does not contain any PDF files that can be converted',
+        details: { rejected: contents.rejected },
+        retryable: false
+      } as APIError,
+      { status: 400 }
+    )
+  }
 
-    // Check user limits
-    const limitsCheck = await checkUserLimits(user.id)
-    if (!limitsCheck.hasCredits) {
-      return NextResponse.json(
-        { 
-          code: 'INSUFFICIENT_CREDITS', 
-          message: 'You have insufficient credits for this conversion',
-          retryable: false
-        } as APIError,
-        { status: 403 }
-      )
-    }
+  // A ZIP becomes a batch, so it gets the same per-plan file limit as /api/convert/batch
+  const maxFiles = getBatchFileLimit(context.subscriptionTier)
+  if (contents.files.length > maxFiles) {
+    return NextResponse.json(
+      {
+        code: 'BATCH_TOO_LARGE',
+        message: `Your plan allows up to ${maxFiles} file${maxFiles === 1 ? '' : 's'} per upload. The ZIP file contains ${contents.files.length} PDF files.`,
+        details: { maxFiles, files: contents.files.length },
+        retryable: false
+      } as APIError,
+      { status: 400 }
+    )
+  }
 
-    // Check file size against user's plan limit
-    const maxFileSizeBytes = limitsCheck.maxFileSize * 1024 * 1024
-    if (file.size > maxFileSizeBytes) {
-      return NextResponse.json(
-        { 
-          code: 'FILE_TOO_LARGE', 
-          message: `File size exceeds the ${limitsCheck.maxFileSize}MB limit for your plan`,
-          retryable: false
-        } as APIError,
-        { status: 400 }
-      )
-    }
+  const result = await createBatchUpload({
+    supabase: context.supabase,
+    userId: context.userId,
+    subscriptionTier: context.subscriptionTier,
+    creditsRemaining: limitsCheck.creditsRemaining,
+    documentType: context.documentType,
+    files: contents.files.map(pdf => ({
+      fileName: pdf.fileName,
+      contentType: 'application/pdf',
+      buffer: pdf.buffer
+    }))
+  })
 
-    // Convert file to buffer for processing
-    const fileBuffer = Buffer.from(await file.arrayBuffer())
-    
-    // Create conversion record
-    const conversionData = {
-      user_id: user.id,
-      original_filename: file.name,
-      file_size: file.size,
-      document_type: documentType,
-      status: 'pending' as const
-    }
+  if (!result.success) {
+    return NextResponse.json(result.error, { status: result.status })
+  }
 
-    const conversion = await createConversion(conversionData)
-    if (!conversion) {
-      return NextResponse.json(
-        { code: 'CONVERSION_CREATE_FAILED', message: 'Please try again', retryable: true } as APIError,
-        { status: 500 }
-      )
-    }
+  const skipped = contents.rejected.length
+  return NextResponse.json({
+    ...result.data,
+    rejected: contents.rejected,
+    message: skipped > 0
+      ? `${result.data.message} ${skipped} file${skipped === 1 ? ' was' : 's were'} skipped.`
+      : result.data.message
+  }, { status: 200 })
+}
 
-    // Track conversion start event
-    await trackEvent(
-      user.id,
-      'conversion_start',
-      conversion.id,
-      {
-        file_name: file.name,
-        file_size: file.size,
-        document_type: documentType,
-        subscription_tier: userProfile.subscription_tier
-      }
+// Everything after authentication and the rate limit check
+async function convertUpload(request: NextRequest, supabase: SupabaseServerClient, userId: string) {
+  // Get user profile and check limits
+  const userProfile = await getUserProfile(userId)
+  if (!userProfile) {
+    return NextResponse.json(
+      { code: 'USER_PROFILE_NOT_FOUND', message: 'Please complete your profile setup', retryable: false } as APIError,
+      { status: 400 }
     )
+  }
+
+  // Parse form data
+  const formData = await request.formData()
+  const file = formData.get('file')
 
-    // Deduct 1 credit for conversion
-    await updateUserCredits(user.id, -1, 'conversion_started')
+  const form = validate(ConvertFormSchema, {
+    documentType: formData.get('documentType') || undefined,
+    options: formData.get('options') || undefined
+  })
+  if (!form.success) {
+    return NextResponse.json(form.error, { status: 400 })
+  }
+  const { documentType } = form.data
 
-    // Determine webhook URL based on document type
-    const webhookUrl = documentType === 'indomaret' ? N8N_WEBHOOK_INDOMARET_URL : N8N_WEBHOOK_URL
+  if (!(file instanceof File)) {
+    return NextResponse.json(
+      { code: 'NO_FILE_PROVIDED', message: 'Please select a PDF file to convert', retryable: false } as APIError,
+      { status: 400 }
+    )
+  }
 
-    // Send to n8n webhook for processing
-    if (webhookUrl) {
-      try {
-        console.log(`Sending file to ${documentType} webhook: ${file.name} (${file.size} bytes)`)
-        
-        const webhookPayload = {
-          conversionId: conversion.id,
-          userId: user.id,
-          fileName: file.name,
-          fileSize: file.size,
-          documentType: documentType,
-          fileData: fileBuffer.toString('base64'),
-          callbackUrl: `${process.env.NEXT_PUBLIC_APP_URL}/api/webhooks/n8n`,
-          secret: N8N_WEBHOOK_SECRET
-        }
+  // Pick the processing backend registered for this document type
+  const backend = getProcessingBackend(documentType)
 
-        // Debug the webhook secret
-        console.log('Webhook URL:', webhookUrl)
-        console.log('Document Type:', documentType)
-        console.log('Auth header will be:', N8N_WEBHOOK_SECRET ? '[REDACTED]' : 'NOT_SET')
-        
-        const webhookResponse = await fetch(webhookUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `${N8N_WEBHOOK_SECRET}` // Try with Bearer
-          },
-          body: JSON.stringify(webhookPayload)
-        })
+  if (!backend) {
+    return NextResponse.json(
+      { code: 'PROCESSING_UNAVAILABLE', message: `Processing for ${documentType} documents is not configured`, retryable: false } as APIError,
+      { status: 503 }
+    )
+  }
 
-        if (!webhookResponse.ok) {
-          const errorText = await webhookResponse.text()
-          console.error('Webhook response error:', webhookResponse.status, errorText)
-          throw new Error(`Webhook failed: ${webhookResponse.status} ${webhookResponse.statusText}`)
-        }
+  if (isArchiveFile(file)) {
+    return convertArchive(file, {
+      supabase,
+      userId,
+      subscriptionTier: userProfile.subscription_tier,
+      documentType
+    })
+  }
 
-        // Handle webhook response - it might not be JSON
-        let webhookResult;
-        const responseText = await webhookResponse.text()
-        console.log('Webhook raw response:', responseText)
-        
-        try {
-          webhookResult = JSON.parse(responseText)
-          console.log('Webhook parsed response:', webhookResult)
-        } catch (parseError) {
-          console.log('Webhook response is not JSON, treating as success')
-          webhookResult = { success: true, message: responseText }
-        }
+  // Validate file
+  if (!ALLOWED_TYPES.includes(file.type)) {
+    return NextResponse.json(
+      { code: 'INVALID_FILE_TYPE', message: 'Only PDF or ZIP files are supported', retryable: false } as APIError,
+      { status: 400 }
+    )
+  }
 
-        // Update conversion status to processing
-        await supabase
-          .from('conversions')
-          .update({ 
-            status: 'processing',
-            started_at: new Date().toISOString()
-          })
-          .eq('id', conversion.id)
+  const result = await createConversionUpload({
+    supabase,
+    userId,
+    subscriptionTier: userProfile.subscription_tier,
+    documentType,
+    file: {
+      fileName: file.name,
+      contentType: file.type,
+      buffer: Buffer.from(await file.arrayBuffer())
+    }
+  })
 
-      } catch (webhookError) {
-        console.error('Webhook error:', webhookError)
-        
-        // Update conversion status to failed
-        await supabase
-          .from('conversions')
-          .update({ 
-            status: 'failed',
-            error_message: `Failed to start processing: ${webhookError instanceof Error ? webhookError.message : 'Unknown error'}`,
-            completed_at: new Date().toISOString()
-          })
-          .eq('id', conversion.id)
+  if (!result.success) {
+    return NextResponse.json(result.error, { status: result.status })
+  }
 
-        // Refund 1 credit due to processing failure
-        await updateUserCredits(user.id, +1, 'conversion_failed_refund')
+  return NextResponse.json(result.data, { status: 200 })
+}
 
-        return NextResponse.json(
-          { 
-            code: 'PROCESSING_FAILED', 
-            message: 'Failed to start conversion. Please try again.',
-            retryable: true,
-            debug: process.env.NODE_ENV === 'development' ? {
-              webhookUrl: webhookUrl,
-              documentType: documentType,
-              error: webhookError instanceof Error ? webhookError.message : 'Unknown error'
-            } : undefined
-          } as APIError,
-          { status: 500 }
-        )
-      }
-    } else {
-      console.log(`N8N webhook URL for ${documentType} not configured, using fallback processing...`)
-      
-      // Fallback: simulate processing for development
-      await supabase
-        .from('conversions')
-        .update({ 
-          status: 'processing',
-          started_at: new Date().toISOString()
-        })
-        .eq('id', conversion.id)
+export async function POST(request: NextRequest) {
+  let rateLimitHeaders: Record<string, string> = {}
 
-      // Simulate completion after 5 seconds
-      setTimeout(async () => {
-        await supabase
-          .from('conversions')
-          .update({ 
-            status: 'completed',
-            completed_at: new Date().toISOString(),
-            download_url: `/api/download/${conversion.id}`,
-            tables_extracted: 2,
-            total_rows: 100,
-            processing_time_ms: 5000
-          })
-          .eq('id', conversion.id)
-      }, 5000)
+  try {
+    // Create Supabase client with server context (cookies)
+    const supabase = createClient()
+    
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    
+    if (authError || !user) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Please log in to convert files', retryable: false } as APIError,
+        { status: 401 }
+      )
     }
 
-    // Return success response
-    const response: ConversionResponse = {
-      success: true,
-      conversionId: conversion.id,
-      status: 'processing',
-      message: 'File uploaded successfully. Processing started.',
-      estimatedTime: Math.ceil(file.size / (1024 * 1024)) * 30000 // Rough estimate: 30s per MB
+    const rateLimit = await checkRateLimit('convert', { userId: user.id })
+    if (!rateLimit.success) {
+      return NextResponse.json(rateLimit.error, { status: rateLimit.status, headers: rateLimit.headers })
     }
+    rateLimitHeaders = rateLimit.headers
 
-    return NextResponse.json(response, { status: 200 })
+    return withRateLimitHeaders(await convertUpload(request, supabase, user.id), rateLimitHeaders)
 
   } catch (error) {
     console.error('Conversion API error:', error)
@@ -271,7 +216,7 @@ export async function POST(request: NextRequest) {
       console.error('Error stack:', error.stack)
     }
     
-    return NextResponse.json(
+    return withRateLimitHeaders(NextResponse.json(
       { 
         code: 'INTERNAL_SERVER_ERROR', 
         message: 'An unexpected error occurred. Please try again.',
@@ -282,7 +227,7 @@ export async function POST(request: NextRequest) {
         } : undefined
       } as APIError,
       { status: 500 }
-    )
+    ), rateLimitHeaders)
   }
 }
 
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getCreditHistory } from '@/lib/supabase/credits'
+import { createCreditHistoryCsvStream, EXPORT_FORMATS } from '@/lib/services/export'
+import { MAX_CREDIT_HISTORY_EXPORT } from '@/lib/services/credit-history'
+import { CreditHistoryQuerySchema, validate } from '@/lib/validation'
+import { APIError, CreditHistoryEntry } from '@/lib/supabase/types'
+
+export const dynamic = 'force-dynamic'
+
+// PostgREST caps a single response, so the export reads the ledger in pages
+const EXPORT_PAGE_SIZE = 1000
+
+// The user's credit ledger, newest first: a page as JSON for the settings page, or every entry in the
+// date range as CSV (`format=csv`)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl
+
+    const query = validate(CreditHistoryQuerySchema, {
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      limit: searchParams.get('limit') || undefined,
+      offset: searchParams.get('offset') || undefined,
+      format: searchParams.get('format') || undefined
+    }, 'Invalid credit history request')
+    if (!query.success) {
+      return NextResponse.json(query.error, { status: 400 })
+    }
+
+    const { from, to, limit, offset, format } = query.data
+
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Please log in to view your credit history', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    if (format === 'json') {
+      const { entries, total } = await getCreditHistory(user.id, { from, to, limit, offset }, supabase)
+
+      return NextResponse.json({
+        entries,
+        pagination: { limit, offset, total, hasMore: offset + entries.length < total }
+      })
+    }
+
+    const entries: CreditHistoryEntry[] = []
+    while (entries.length < MAX_CREDIT_HISTORY_EXPORT) {
+      const page = await getCreditHistory(user.id, {
+        from,
+        to,
+        limit: Math.min(EXPORT_PAGE_SIZE, MAX_CREDIT_HISTORY_EXPORT - entries.length),
+        offset: entries.length
+      }, supabase)
+
+      entries.push(...page.entries)
+      if (page.entries.length === 0 || entries.length >= page.total) break
+    }
+
+    const fileName = `credit-history-${new Date().toISOString().slice(0, 10)}.csv`
+
+    console.log(`[CREDIT SYSTEM] Exporting ${entries.length} ledger entries for user ${user.id}`)
+
+    return new NextResponse(createCreditHistoryCsvStream(entries), {
+      status: 200,
+      headers: {
+        'Content-Type': EXPORT_FORMATS.csv.contentType,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'private, no-cache, no-store, must-revalidate'
+      }
+    })
+
+  } catch (error) {
+    console.error('Credit history API error:', error)
+
+    return NextResponse.json(
+      {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to load your credit history. Please try again.',
+        retryable: true
+      } as APIError,
+      { status: 500 }
+    )
+  }
+}
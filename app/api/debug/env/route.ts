@@ -1,4 +1,8 @@
 import { NextResponse } from 'next/server'
+import { describeProcessingBackends } from '@/lib/services/processing'
+
+// Backend health is checked on every request, not once at build time
+export const dynamic = 'force-dynamic'
 
 export async function GET() {
   // Only show in development
@@ -12,10 +16,11 @@ export async function GET() {
     NEXT_PUBLIC_SUPABASE_ANON_KEY: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ? '[REDACTED]' : 'NOT_SET',
     SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY ? '[REDACTED]' : 'NOT_SET',
     NEXT_PUBLIC_APP_URL: process.env.NEXT_PUBLIC_APP_URL,
-    N8N_WEBHOOK_URL: process.env.N8N_WEBHOOK_URL,
-    N8N_WEBHOOK_INDOMARET_URL: process.env.N8N_WEBHOOK_INDOMARET_URL,
-    N8N_WEBHOOK_SECRET: process.env.N8N_WEBHOOK_SECRET ? '[REDACTED]' : 'NOT_SET',
+    PROCESSING_BACKEND: process.env.PROCESSING_BACKEND || 'NOT_SET',
   }
 
-  return NextResponse.json(envVars)
-}
\ No newline at end of file
+  // Per document type: which backend is active, plus each backend's settings and health
+  const processing = await describeProcessingBackends()
+
+  return NextResponse.json({ ...envVars, processing })
+}
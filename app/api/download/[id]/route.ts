@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { getConversion, trackEvent } from '@/lib/supabase/conversions'
+import { getConversion, trackEvent, parseConversionDetails, parseConversionInvoices } from '@/lib/supabase/conversions'
+import { generateConversionWorkbook, generateInvoiceWorkbook, XLSX_CONTENT_TYPE } from '@/lib/services/excel-generator'
+import { getContentDisposition } from '@/lib/services/export'
 import { APIError } from '@/lib/supabase/types'
 
 interface RouteParams {
@@ -66,8 +68,17 @@ export async function GET(
       )
     }
 
-    // Check if download URL exists
-    if (!conversion.download_url) {
+    // Stored extraction results let us build the workbook ourselves
+    const details = parseConversionDetails(conversion)
+    const invoices = details ? null : parseConversionInvoices(conversion)
+    const generateWorkbook = details
+      ? () => generateConversionWorkbook(details)
+      : invoices
+        ? () => generateInvoiceWorkbook(invoices)
+        : null
+
+    // Check if there is anything to download
+    if (!conversion.download_url && !generateWorkbook) {
       return NextResponse.json(
         { code: 'DOWNLOAD_NOT_AVAILABLE', message: 'Download URL not found', retryable: false } as APIError,
         { status: 404 }
@@ -75,33 +86,33 @@ export async function GET(
     }
 
     try {
-      // For development/demo purposes, we'll create a mock Excel file
-      // In production, this would fetch from Supabase Storage or the actual converted file
-      
       let fileBuffer: Buffer
-      let fileName: string
-      let contentType: string
+      const fileName = conversion.original_filename.replace(/\.pdf$/i, '.xlsx')
+      const contentType = XLSX_CONTENT_TYPE
       
-      if (conversion.download_url.startsWith('http')) {
+      if (conversion.download_url?.startsWith('http')) {
         // External URL - fetch the file
         const fileResponse = await fetch(conversion.download_url)
         
-        if (!fileResponse.ok) {
+        if (fileResponse.ok) {
+          fileBuffer = Buffer.from(await fileResponse.arrayBuffer())
+        } else if (generateWorkbook) {
+          console.warn(`Failed to fetch converted file (${fileResponse.status}), generating workbook from stored data`)
+          fileBuffer = await generateWorkbook()
+        } else {
           throw new Error('Failed to fetch converted file')
         }
         
-        fileBuffer = Buffer.from(await fileResponse.arrayBuffer())
-        fileName = conversion.original_filename.replace('.pdf', '.xlsx')
-        contentType = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
-        
-      } else if (conversion.download_url.startsWith('/api/download/')) {
-        // For demo purposes, create a simple Excel-like response
-        // In production, this would be the actual converted file from storage
+      } else if (!conversion.download_url || conversion.download_url.startsWith('/api/download/')) {
+        // No external file - generate the workbook from stored summaries and transactions (or invoices)
+        if (!generateWorkbook) {
+          return NextResponse.json(
+            { code: 'DOWNLOAD_NOT_AVAILABLE', message: 'No extracted data is available for this conversion', retryable: false } as APIError,
+            { status: 404 }
+          )
+        }
         
-        const mockExcelContent = createMockExcelFile(conversion.original_filename)
-        fileBuffer = Buffer.from(mockExcelContent, 'utf-8')
-        fileName = conversion.original_filename.replace('.pdf', '.xlsx')
-        contentType = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+        fileBuffer = await generateWorkbook()
         
       } else {
         // Supabase Storage URL
@@ -114,8 +125,6 @@ export async function GET(
         }
         
         fileBuffer = Buffer.from(await fileData.arrayBuffer())
-        fileName = conversion.original_filename.replace('.pdf', '.xlsx')
-        contentType = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
       }
 
       // Track download event
@@ -136,7 +145,7 @@ export async function GET(
         status: 200,
         headers: {
           'Content-Type': contentType,
-          'Content-Disposition': `attachment; filename="${fileName}"`,
+          'Content-Disposition': getContentDisposition('attachment', fileName),
           'Content-Length': fileBuffer.length.toString(),
           'Cache-Control': 'private, no-cache, no-store, must-revalidate',
           'Pragma': 'no-cache',
@@ -171,33 +180,6 @@ export async function GET(
   }
 }
 
-// Create a mock Excel file for demo purposes
-// In production, this would be replaced with actual file retrieval
-function createMockExcelFile(originalFileName: string): string {
-  const timestamp = new Date().toISOString()
-  
-  // This is a simplified representation - in production you'd use a proper Excel library
-  const mockData = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
-<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
-  <sheetData>
-    <row r="1">
-      <c r="A1" t="inlineStr"><is><t>Converted from: ${originalFileName}</t></is></c>
-    </row>
-    <row r="2">
-      <c r="A2" t="inlineStr"><is><t>Conversion Date: ${timestamp}</t></is></c>
-    </row>
-    <row r="3">
-      <c r="A3" t="inlineStr"><is><t>Status: Successfully converted</t></is></c>
-    </row>
-    <row r="4">
-      <c r="A4" t="inlineStr"><is><t>Note: This is a demo conversion</t></is></c>
-    </row>
-  </sheetData>
-</worksheet>`
-  
-  return mockData
-}
-
 // Handle OPTIONS for CORS
 export async function OPTIONS(request: NextRequest) {
   return new NextResponse(null, {
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthorizedCronRequest } from '@/lib/services/cron'
+import { sweepStuckConversions } from '@/lib/services/watchdog'
+import { pruneRateLimitBuckets } from '@/lib/supabase/rate-limits'
+import { APIError } from '@/lib/supabase/types'
+
+// Time out conversions that never received a completion callback and drop idle rate limit buckets.
+// Invoke from a scheduler (e.g. every 5 minutes).
+async function handleWatchdog(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Invalid cron credentials', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const result = await sweepStuckConversions()
+
+    console.log(`[WATCHDOG] Checked ${result.checked} conversions, timed out ${result.timedOut.length}`)
+
+    let prunedRateLimitBuckets = 0
+    try {
+      prunedRateLimitBuckets = await pruneRateLimitBuckets()
+    } catch (pruneError) {
+      console.error('[WATCHDOG] Failed to prune rate limit buckets:', pruneError)
+    }
+
+    return NextResponse.json({ success: true, ...result, prunedRateLimitBuckets })
+
+  } catch (error) {
+    console.error('Watchdog error:', error)
+
+    return NextResponse.json(
+      {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to sweep stuck conversions',
+        retryable: true
+      } as APIError,
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = handleWatchdog
+export const POST = handleWatchdog
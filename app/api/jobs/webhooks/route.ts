@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthorizedCronRequest } from '@/lib/services/cron'
+import { drainWebhookDeliveries } from '@/lib/services/customer-webhooks'
+import { APIError } from '@/lib/supabase/types'
+
+const MAX_BATCH_SIZE = 100
+
+// Retry due customer webhook deliveries. Invoke from a scheduler (e.g. every minute).
+async function handleWebhooksWorker(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Invalid cron credentials', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const requestedBatchSize = Number(request.nextUrl.searchParams.get('limit')) || 20
+    const batchSize = Math.min(Math.max(requestedBatchSize, 1), MAX_BATCH_SIZE)
+
+    const summary = await drainWebhookDeliveries(batchSize)
+
+    console.log('[WEBHOOKS] Worker run complete:', summary)
+
+    return NextResponse.json({ success: true, ...summary })
+
+  } catch (error) {
+    console.error('Webhooks worker error:', error)
+
+    return NextResponse.json(
+      {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to deliver webhooks',
+        retryable: true
+      } as APIError,
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = handleWebhooksWorker
+export const POST = handleWebhooksWorker
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthorizedCronRequest } from '@/lib/services/cron'
+import { drainProcessingJobs } from '@/lib/services/job-queue'
+import { getProcessingJobCounts } from '@/lib/supabase/jobs'
+import { APIError } from '@/lib/supabase/types'
+
+const MAX_BATCH_SIZE = 50
+
+// Drain due processing jobs. Invoke from a scheduler (e.g. every minute).
+async function handleWorker(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Invalid cron credentials', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const requestedBatchSize = Number(request.nextUrl.searchParams.get('limit')) || 10
+    const batchSize = Math.min(Math.max(requestedBatchSize, 1), MAX_BATCH_SIZE)
+
+    const summary = await drainProcessingJobs(batchSize)
+    const remaining = await getProcessingJobCounts()
+
+    console.log('[JOB QUEUE] Worker run complete:', summary, 'remaining:', remaining)
+
+    return NextResponse.json({ success: true, ...summary, remaining })
+
+  } catch (error) {
+    console.error('Job worker error:', error)
+
+    return NextResponse.json(
+      {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to process job queue',
+        retryable: true
+      } as APIError,
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = handleWorker
+export const POST = handleWorker
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { parseConversionDetails, trackEvent } from '@/lib/supabase/conversions'
+import { buildConsolidatedReport, ReportInput } from '@/lib/services/report'
+import { generateReportWorkbook, XLSX_CONTENT_TYPE } from '@/lib/services/excel-generator'
+import { ReportQuerySchema, validate } from '@/lib/validation'
+import { APIError, ConsolidatedReport } from '@/lib/supabase/types'
+
+export const dynamic = 'force-dynamic'
+
+// Consolidated report across several of the user's conversions, as JSON for the report page
+// or as one workbook (`format=xlsx`). Conversions without results are listed under `skipped`.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl
+
+    const query = validate(ReportQuerySchema, {
+      ids: searchParams.get('ids') ?? '',
+      format: searchParams.get('format') || undefined
+    }, 'Invalid report request')
+    if (!query.success) {
+      return NextResponse.json(query.error, { status: 400 })
+    }
+
+    const { ids, format } = query.data
+
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Please log in to build reports', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const { data: conversions, error } = await supabase
+      .from('conversions')
+      .select('id, original_filename, status, summaries, transaction_data')
+      .in('id', ids)
+      .eq('user_id', user.id) // Security: only the user's own conversions
+
+    if (error) throw error
+
+    // Keep the order the conversions were requested in
+    const inputs: ReportInput[] = []
+    const skipped: ConsolidatedReport['skipped'] = []
+    ids.forEach(id => {
+      const conversion = conversions.find(c => c.id === id)
+      if (!conversion) {
+        skipped.push({ conversionId: id, fileName: null, reason: 'Conversion not found' })
+        return
+      }
+
+      const details = conversion.status === 'completed' ? parseConversionDetails(conversion) : null
+      if (!details) {
+        skipped.push({
+          conversionId: id,
+          fileName: conversion.original_filename,
+          reason: conversion.status === 'completed' ? 'No extracted data' : `Conversion is ${conversion.status}`
+        })
+        return
+      }
+
+      inputs.push({ conversionId: id, fileName: conversion.original_filename, details })
+    })
+
+    if (inputs.length === 0) {
+      return NextResponse.json(
+        {
+          code: 'NO_REPORT_DATA',
+          message: 'None of the selected conversions have extracted data',
+          details: { skipped },
+          retryable: false
+        } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const report: ConsolidatedReport = { ...buildConsolidatedReport(inputs), skipped }
+
+    console.log(`[REPORT] Built report for user ${user.id}: ${inputs.length} conversions, ${report.totals.transactions} transactions, ${report.totals.companies} companies`)
+
+    if (format === 'json') {
+      return NextResponse.json(report, { status: 200 })
+    }
+
+    const fileBuffer = await generateReportWorkbook(report)
+    const fileName = `laporan-gabungan-${new Date().toISOString().slice(0, 10)}.xlsx`
+
+    await trackEvent(
+      user.id,
+      'download',
+      undefined,
+      {
+        file_name: fileName,
+        file_size: fileBuffer.length,
+        report_conversion_ids: inputs.map(input => input.conversionId)
+      }
+    )
+
+    return new NextResponse(new Uint8Array(fileBuffer), {
+      status: 200,
+      headers: {
+        'Content-Type': XLSX_CONTENT_TYPE,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Content-Length': fileBuffer.length.toString(),
+        'Cache-Control': 'private, no-cache, no-store, must-revalidate'
+      }
+    })
+
+  } catch (error) {
+    console.error('Report API error:', error)
+
+    return NextResponse.json(
+      {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to build the report. Please try again.',
+        retryable: true
+      } as APIError,
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { getConversion } from '@/lib/supabase/conversions'
+import { getConversionProgress } from '@/lib/services/conversion-progress'
+import { checkRateLimit } from '@/lib/services/rate-limit'
 import { APIError } from '@/lib/supabase/types'
 
 interface RouteParams {
@@ -13,6 +15,8 @@ export async function GET(
   request: NextRequest,
   { params }: RouteParams
 ) {
+  let rateLimitHeaders: Record<string, string> = {}
+
   try {
     const { id } = params
     
@@ -36,13 +40,19 @@ export async function GET(
       )
     }
 
+    const rateLimit = await checkRateLimit('status', { userId: user.id })
+    if (!rateLimit.success) {
+      return NextResponse.json(rateLimit.error, { status: rateLimit.status, headers: rateLimit.headers })
+    }
+    rateLimitHeaders = rateLimit.headers
+
     // Get conversion details
     const conversion = await getConversion(id)
     
     if (!conversion) {
       return NextResponse.json(
         { code: 'CONVERSION_NOT_FOUND', message: 'The requested conversion does not exist', retryable: false } as APIError,
-        { status: 404 }
+        { status: 404, headers: rateLimit.headers }
       )
     }
 
@@ -50,60 +60,12 @@ export async function GET(
     if (conversion.user_id !== user.id) {
       return NextResponse.json(
         { code: 'ACCESS_DENIED', message: 'You do not have permission to access this conversion', retryable: false } as APIError,
-        { status: 403 }
+        { status: 403, headers: rateLimit.headers }
       )
     }
 
-    // Smart progress calculation based on processing stages and file characteristics
-    let progress = 0
-    let currentStage = ''
-    
-    if (conversion.status === 'pending') {
-      progress = 0
-      currentStage = 'upload'
-    } else if (conversion.status === 'processing') {
-      const startTime = conversion.created_at ? new Date(conversion.created_at).getTime() : Date.now()
-      const elapsed = Date.now() - startTime
-      
-      // Calculate estimated total time based on file size and complexity
-      const fileSizeMB = (conversion.file_size || 1024000) / 1024 / 1024
-      const baseTime = 30000 // 30 seconds base
-      const sizeMultiplier = Math.log10(fileSizeMB + 1) * 15000 // Logarithmic scaling for size
-      const estimatedTotal = Math.max(baseTime, baseTime + sizeMultiplier)
-      
-      // Define processing stages with time allocation
-      const stages = [
-        { name: 'upload', duration: 0.05, label: 'File Upload' },
-        { name: 'parsing', duration: 0.25, label: 'PDF Parsing' },
-        { name: 'extraction', duration: 0.50, label: 'Data Extraction' },
-        { name: 'formatting', duration: 0.20, label: 'Excel Formatting' }
-      ]
-      
-      const progressRatio = Math.min(elapsed / estimatedTotal, 0.95) // Cap at 95%
-      progress = Math.floor(progressRatio * 100)
-      
-      // Determine current stage based on progress
-      let cumulativeDuration = 0
-      for (const stage of stages) {
-        cumulativeDuration += stage.duration
-        if (progressRatio <= cumulativeDuration) {
-          currentStage = stage.name
-          break
-        }
-      }
-      
-      // Fallback to last stage if we're near completion
-      if (!currentStage || progress > 90) {
-        currentStage = 'formatting'
-      }
-      
-    } else if (conversion.status === 'completed') {
-      progress = 100
-      currentStage = 'completed'
-    } else if (conversion.status === 'failed') {
-      progress = 0
-      currentStage = 'failed'
-    }
+    // Stage-level progress as reported by the processing backend (estimated when it reports nothing)
+    const { stage: currentStage, percent: progress, message: progressMessage } = getConversionProgress(conversion)
 
     // Calculate estimated time remaining with improved accuracy
     let estimatedTime: number | undefined
@@ -128,6 +90,7 @@ export async function GET(
       fileSize: conversion.file_size,
       progress,
       currentStage,
+      progressMessage,
       createdAt: conversion.created_at,
       updatedAt: conversion.updated_at,
       completedAt: conversion.status === 'completed' ? conversion.updated_at : undefined,
@@ -149,7 +112,7 @@ export async function GET(
       transactionData: conversion.transaction_data
     }
 
-    return NextResponse.json(response, { status: 200 })
+    return NextResponse.json(response, { status: 200, headers: rateLimit.headers })
 
   } catch (error) {
     console.error('Status API error:', error)
@@ -160,7 +123,7 @@ export async function GET(
         message: 'Failed to retrieve conversion status. Please try again.',
         retryable: true 
       } as APIError,
-      { status: 500 }
+      { status: 500, headers: rateLimitHeaders }
     )
   }
 }
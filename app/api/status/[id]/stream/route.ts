@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getConversionProgress } from '@/lib/services/conversion-progress'
+import { checkRateLimit } from '@/lib/services/rate-limit'
+import { APIError, ConversionStatus, Database } from '@/lib/supabase/types'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+type ConversionRow = Database['public']['Tables']['conversions']['Row']
+
+export const dynamic = 'force-dynamic'
+
+const POLL_INTERVAL_MS = 2000
+const HEARTBEAT_INTERVAL_MS = 15000
+// Close long-lived streams; EventSource reconnects on its own and resumes from the current state
+const MAX_STREAM_MS = 5 * 60 * 1000
+
+const PROGRESS_COLUMNS = 'id, user_id, status, created_at, started_at, file_size, error_message, progress_stage, progress_percent, progress_message, updated_at'
+
+function toProgressEvent(conversion: Pick<ConversionRow, 'id' | 'status' | 'created_at' | 'started_at' | 'file_size' | 'error_message' | 'progress_stage' | 'progress_percent' | 'progress_message'>) {
+  return {
+    conversionId: conversion.id,
+    status: conversion.status as ConversionStatus,
+    ...getConversionProgress(conversion),
+    error: conversion.status === 'failed' ? conversion.error_message : null
+  }
+}
+
+// Server-Sent Events stream of a conversion's stage-level progress. Emits a `progress` event whenever
+// the stage, percent, message or status changes, and ends once the conversion completes or fails.
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  let rateLimitHeaders: Record<string, string> = {}
+
+  try {
+    const { id } = params
+
+    if (!id) {
+      return NextResponse.json(
+        { code: 'MISSING_CONVERSION_ID', message: 'Conversion ID is required', retryable: false } as APIError,
+        { status: 400 }
+      )
+    }
+
+    // Created up front: the stream keeps using it after the request scope ends
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Please log in to check conversion status', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    // Opening a stream counts as one status request; updates sent over it do not
+    const rateLimit = await checkRateLimit('status', { userId: user.id })
+    if (!rateLimit.success) {
+      return NextResponse.json(rateLimit.error, { status: rateLimit.status, headers: rateLimit.headers })
+    }
+    rateLimitHeaders = rateLimit.headers
+
+    const { data: conversion } = await supabase
+      .from('conversions')
+      .select(PROGRESS_COLUMNS)
+      .eq('id', id)
+      .single()
+
+    if (!conversion) {
+      return NextResponse.json(
+        { code: 'CONVERSION_NOT_FOUND', message: 'The requested conversion does not exist', retryable: false } as APIError,
+        { status: 404, headers: rateLimit.headers }
+      )
+    }
+
+    // Check if user owns this conversion
+    if (conversion.user_id !== user.id) {
+      return NextResponse.json(
+        { code: 'ACCESS_DENIED', message: 'You do not have permission to access this conversion', retryable: false } as APIError,
+        { status: 403, headers: rateLimit.headers }
+      )
+    }
+
+    const encoder = new TextEncoder()
+    let closed = false
+    let heartbeat: NodeJS.Timeout | null = null
+
+    const stream = new ReadableStream({
+      start(controller) {
+        const write = (chunk: string) => {
+          if (!closed) controller.enqueue(encoder.encode(chunk))
+        }
+
+        const close = () => {
+          if (closed) return
+          closed = true
+          if (heartbeat) clearInterval(heartbeat)
+          try {
+            controller.close()
+          } catch {
+            // Already closed by the client disconnecting
+          }
+        }
+
+        request.signal.addEventListener('abort', close)
+
+        // Ask EventSource to wait a few seconds before reconnecting
+        write('retry: 3000\n\n')
+        heartbeat = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS)
+
+        // Runs in the background; returning from start() lets the response begin streaming
+        const pump = async () => {
+          const streamStarted = Date.now()
+          let current = conversion
+          let lastEvent = ''
+
+          while (!closed) {
+            const event = toProgressEvent(current)
+            const serialized = JSON.stringify(event)
+
+            if (serialized !== lastEvent) {
+              write(`event: progress\ndata: ${serialized}\n\n`)
+              lastEvent = serialized
+            }
+
+            if (event.status === 'completed' || event.status === 'failed' || Date.now() - streamStarted > MAX_STREAM_MS) {
+              close()
+              break
+            }
+
+            await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+            if (closed) break
+
+            const { data: latest, error } = await supabase
+              .from('conversions')
+              .select(PROGRESS_COLUMNS)
+              .eq('id', id)
+              .single()
+
+            if (error || !latest) {
+              console.error(`[STATUS STREAM] Failed to read conversion ${id}:`, error)
+              write(`event: error\ndata: ${JSON.stringify({ code: 'CONVERSION_NOT_FOUND', message: 'The conversion is no longer available', retryable: false })}\n\n`)
+              close()
+              break
+            }
+
+            current = latest
+          }
+        }
+
+        pump().catch(streamError => {
+          console.error(`[STATUS STREAM] Stream for conversion ${id} failed:`, streamError)
+          close()
+        })
+      },
+
+      cancel() {
+        closed = true
+        if (heartbeat) clearInterval(heartbeat)
+      }
+    })
+
+    return new Response(stream, {
+      headers: {
+        ...rateLimit.headers,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        // Stop proxies such as nginx from buffering the stream
+        'X-Accel-Buffering': 'no'
+      }
+    })
+
+  } catch (error) {
+    console.error('Status stream error:', error)
+
+    return NextResponse.json(
+      {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Failed to open the status stream. Please try again.',
+        retryable: true
+      } as APIError,
+      { status: 500, headers: rateLimitHeaders }
+    )
+  }
+}
@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { ConversionData } from '@/lib/stores/conversion-store'
+import { estimateConversionProgress } from '@/lib/services/conversion-progress'
+import { checkRateLimit } from '@/lib/services/rate-limit'
 
 const MAX_BATCH_SIZE = 50 // Limit batch size to prevent abuse
 
 export async function GET(request: NextRequest) {
+  let rateLimitHeaders: Record<string, string> = {}
+
   try {
     const supabase = createClient()
     
@@ -18,6 +22,12 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    const rateLimit = await checkRateLimit('status', { userId: user.id })
+    if (!rateLimit.success) {
+      return NextResponse.json(rateLimit.error, { status: rateLimit.status, headers: rateLimit.headers })
+    }
+    rateLimitHeaders = rateLimit.headers
+
     // Parse conversion IDs from query params
     const { searchParams } = new URL(request.url)
     const idsParam = searchParams.get('ids')
@@ -25,7 +35,7 @@ export async function GET(request: NextRequest) {
     if (!idsParam) {
       return NextResponse.json(
         { error: 'Missing ids parameter' },
-        { status: 400 }
+        { status: 400, headers: rateLimit.headers }
       )
     }
 
@@ -34,14 +44,14 @@ export async function GET(request: NextRequest) {
     if (conversionIds.length === 0) {
       return NextResponse.json(
         { error: 'No valid conversion IDs provided' },
-        { status: 400 }
+        { status: 400, headers: rateLimit.headers }
       )
     }
 
     if (conversionIds.length > MAX_BATCH_SIZE) {
       return NextResponse.json(
         { error: `Too many conversions requested. Maximum ${MAX_BATCH_SIZE} allowed.` },
-        { status: 400 }
+        { status: 400, headers: rateLimit.headers }
       )
     }
 
@@ -58,56 +68,18 @@ export async function GET(request: NextRequest) {
       console.error('[BATCH STATUS ERROR]', error)
       return NextResponse.json(
         { error: 'Failed to fetch conversions' },
-        { status: 500 }
+        { status: 500, headers: rateLimit.headers }
       )
     }
 
     // Calculate progress for each conversion
-    const enrichedConversions: ConversionData[] = conversions.map(conversion => {
-      let progress = 0
-      let currentStage = 'Initializing'
-
-      switch (conversion.status) {
-        case 'pending':
-          progress = 5
-          currentStage = 'Queued for processing'
-          break
-        case 'processing':
-          // Calculate progress based on processing time
-          const startedAt = (conversion as any).started_at || conversion.created_at
-          const processingStarted = new Date(startedAt)
-          const processingTime = Date.now() - processingStarted.getTime()
-          const estimatedTotalTime = Math.max(30000, (conversion.file_size || 1000000) / 1000000 * 30000) // ~30s per MB, minimum 30s
-          progress = Math.min(95, Math.max(10, (processingTime / estimatedTotalTime) * 80 + 10))
-          
-          // Determine stage based on progress
-          if (progress < 30) {
-            currentStage = 'Analyzing PDF structure'
-          } else if (progress < 60) {
-            currentStage = 'Extracting tables'
-          } else {
-            currentStage = 'Generating Excel file'
-          }
-          break
-        case 'completed':
-          progress = 100
-          currentStage = 'Completed'
-          break
-        case 'failed':
-          progress = 0
-          currentStage = 'Failed'
-          break
-      }
-
-      return {
-        ...conversion,
-        progress: Math.round(progress),
-        currentStage
-      } as ConversionData
-    })
+    const enrichedConversions: ConversionData[] = conversions.map(conversion => ({
+      ...conversion,
+      ...estimateConversionProgress(conversion)
+    } as ConversionData))
 
     // Log cache headers for debugging
-    const response = NextResponse.json(enrichedConversions)
+    const response = NextResponse.json(enrichedConversions, { headers: rateLimit.headers })
     response.headers.set('Cache-Control', 'no-cache, no-store, must-revalidate')
     response.headers.set('Pragma', 'no-cache')
     response.headers.set('Expires', '0')
@@ -121,7 +93,7 @@ export async function GET(request: NextRequest) {
     
     return NextResponse.json(
       { error: 'Internal server error' },
-      { status: 500 }
+      { status: 500, headers: rateLimitHeaders }
     )
   }
 }
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserConversion, trackEvent } from '@/lib/supabase/conversions'
+import { authenticateApiKey } from '@/lib/services/api-keys'
+import { buildConversionExport, getContentDisposition } from '@/lib/services/export'
+import { ConversionIdSchema, ExportQuerySchema, validate } from '@/lib/validation'
+import { APIError } from '@/lib/supabase/types'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+// Same formats and options as the dashboard export: ?format=xlsx|csv|ods|json&delimiter=&decimal=&sheet=
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  let rateLimitHeaders: Record<string, string> = {}
+
+  try {
+    const auth = await authenticateApiKey(request, 'conversions:read')
+    if (!auth.success) {
+      return NextResponse.json(auth.error, { status: auth.status, headers: auth.headers })
+    }
+    const { userId, supabase } = auth.data
+    rateLimitHeaders = auth.data.rateLimitHeaders
+
+    const { searchParams } = request.nextUrl
+    const query = validate(ExportQuerySchema, {
+      format: searchParams.get('format') || undefined,
+      delimiter: searchParams.get('delimiter') || undefined,
+      decimal: searchParams.get('decimal') || undefined,
+      sheet: searchParams.get('sheet') || undefined
+    }, 'Invalid export options')
+    if (!query.success) {
+      return NextResponse.json(query.error, { status: 400, headers: auth.data.rateLimitHeaders })
+    }
+
+    const conversion = ConversionIdSchema.safeParse(params.id).success
+      ? await getUserConversion(params.id, userId, supabase)
+      : null
+
+    if (!conversion) {
+      return NextResponse.json(
+        { code: 'CONVERSION_NOT_FOUND', message: 'The requested conversion does not exist', retryable: false } as APIError,
+        { status: 404, headers: auth.data.rateLimitHeaders }
+      )
+    }
+
+    if (conversion.status !== 'completed') {
+      return NextResponse.json(
+        {
+          code: 'CONVERSION_NOT_READY',
+          message: `Conversion is ${conversion.status}. Please wait for completion.`,
+          retryable: conversion.status !== 'failed'
+        } as APIError,
+        { status: 409, headers: auth.data.rateLimitHeaders }
+      )
+    }
+
+    const { format } = query.data
+    const exported = await buildConversionExport(conversion, format, {
+      delimiter: query.data.delimiter,
+      decimalFormat: query.data.decimal,
+      sheet: query.data.sheet
+    })
+
+    if (!exported) {
+      return NextResponse.json(
+        { code: 'EXPORT_NOT_AVAILABLE', message: 'No extracted data is available for this conversion', retryable: false } as APIError,
+        { status: 404, headers: auth.data.rateLimitHeaders }
+      )
+    }
+
+    try {
+      await trackEvent(userId, 'download', conversion.id, {
+        file_name: exported.fileName,
+        export_format: format,
+        api_key_id: auth.data.apiKey.id
+      }, supabase)
+    } catch (trackError) {
+      console.error('[API v1] Failed to track download event:', trackError)
+    }
+
+    return new NextResponse(exported.body, {
+      status: 200,
+      headers: {
+        ...auth.data.rateLimitHeaders,
+        'Content-Type': exported.contentType,
+        'Content-Disposition': getContentDisposition('attachment', exported.fileName),
+        'Cache-Control': 'private, no-cache, no-store, must-revalidate'
+      }
+    })
+
+  } catch (error) {
+    console.error('[API v1] Download conversion error:', error)
+
+    return NextResponse.json(
+      { code: 'INTERNAL_SERVER_ERROR', message: 'Failed to download the conversion. Please try again.', retryable: true } as APIError,
+      { status: 500, headers: rateLimitHeaders }
+    )
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deleteUserConversion, getUserConversion } from '@/lib/supabase/conversions'
+import { deleteOriginalFile } from '@/lib/supabase/storage'
+import { authenticateApiKey } from '@/lib/services/api-keys'
+import { toPublicConversion } from '@/lib/services/public-api'
+import { ConversionIdSchema } from '@/lib/validation'
+import { APIError } from '@/lib/supabase/types'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+const notFound = (headers: Record<string, string>) => NextResponse.json(
+  { code: 'CONVERSION_NOT_FOUND', message: 'The requested conversion does not exist', retryable: false } as APIError,
+  { status: 404, headers }
+)
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  let rateLimitHeaders: Record<string, string> = {}
+
+  try {
+    const auth = await authenticateApiKey(request, 'conversions:read')
+    if (!auth.success) {
+      return NextResponse.json(auth.error, { status: auth.status, headers: auth.headers })
+    }
+    const { userId, supabase } = auth.data
+    rateLimitHeaders = auth.data.rateLimitHeaders
+
+    if (!ConversionIdSchema.safeParse(params.id).success) {
+      return notFound(auth.data.rateLimitHeaders)
+    }
+
+    const conversion = await getUserConversion(params.id, userId, supabase)
+    if (!conversion) {
+      return notFound(auth.data.rateLimitHeaders)
+    }
+
+    return NextResponse.json({ data: toPublicConversion(conversion) }, { headers: auth.data.rateLimitHeaders })
+
+  } catch (error) {
+    console.error('[API v1] Get conversion error:', error)
+
+    return NextResponse.json(
+      { code: 'INTERNAL_SERVER_ERROR', message: 'Failed to load the conversion. Please try again.', retryable: true } as APIError,
+      { status: 500, headers: rateLimitHeaders }
+    )
+  }
+}
+
+// Delete a conversion with its extracted data and stored original. Credits are not refunded.
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  let rateLimitHeaders: Record<string, string> = {}
+
+  try {
+    const auth = await authenticateApiKey(request, 'conversions:write')
+    if (!auth.success) {
+      return NextResponse.json(auth.error, { status: auth.status, headers: auth.headers })
+    }
+    const { userId, supabase } = auth.data
+    rateLimitHeaders = auth.data.rateLimitHeaders
+
+    if (!ConversionIdSchema.safeParse(params.id).success) {
+      return notFound(auth.data.rateLimitHeaders)
+    }
+
+    const conversion = await deleteUserConversion(params.id, userId, supabase)
+    if (!conversion) {
+      return notFound(auth.data.rateLimitHeaders)
+    }
+
+    if (conversion.original_file_path) {
+      try {
+        await deleteOriginalFile(conversion.original_file_path, supabase)
+      } catch (storageError) {
+        console.warn(`[API v1] Failed to remove original ${conversion.original_file_path}:`, storageError)
+      }
+    }
+
+    console.log(`[API v1] Deleted conversion ${conversion.id} with API key ${auth.data.apiKey.id}`)
+
+    return new NextResponse(null, { status: 204, headers: auth.data.rateLimitHeaders })
+
+  } catch (error) {
+    console.error('[API v1] Delete conversion error:', error)
+
+    return NextResponse.json(
+      { code: 'INTERNAL_SERVER_ERROR', message: 'Failed to delete the conversion. Please try again.', retryable: true } as APIError,
+      { status: 500, headers: rateLimitHeaders }
+    )
+  }
+}
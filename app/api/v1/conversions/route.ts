@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserConversion, listUserConversions } from '@/lib/supabase/conversions'
+import { getUserProfile } from '@/lib/supabase/users'
+import { authenticateApiKey } from '@/lib/services/api-keys'
+import { BatchFile } from '@/lib/services/batch-upload'
+import { createConversionUpload } from '@/lib/services/conversion-upload'
+import { getProcessingBackend } from '@/lib/services/processing'
+import { toPublicConversion } from '@/lib/services/public-api'
+import { ConversionListQuerySchema, ConversionRequestSchema, ConvertFormSchema, validate } from '@/lib/validation'
+import { APIError, DocumentType } from '@/lib/supabase/types'
+
+type UploadInput =
+  | { success: true, data: { file: BatchFile, documentType: DocumentType } }
+  | { success: false, error: APIError }
+
+// Uploads are either multipart (`file`, `documentType`) or JSON with a base64 encoded file
+async function readUpload(request: NextRequest): Promise<UploadInput> {
+  if (request.headers.get('content-type')?.includes('application/json')) {
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return { success: false, error: { code: 'INVALID_PAYLOAD', message: 'Invalid JSON payload', retryable: false } }
+    }
+
+    const input = validate(ConversionRequestSchema, body, 'Invalid upload')
+    if (!input.success) return input
+
+    return {
+      success: true,
+      data: {
+        file: {
+          fileName: input.data.fileName,
+          contentType: input.data.mimeType,
+          buffer: Buffer.from(input.data.file, 'base64')
+        },
+        documentType: input.data.documentType
+      }
+    }
+  }
+
+  let formData: FormData
+  try {
+    formData = await request.formData()
+  } catch {
+    return {
+      success: false,
+      error: { code: 'INVALID_PAYLOAD', message: 'Send the file as multipart/form-data or as base64 in a JSON body', retryable: false }
+    }
+  }
+
+  const form = validate(ConvertFormSchema, {
+    documentType: formData.get('documentType') || undefined
+  })
+  if (!form.success) return form
+
+  const file = formData.get('file')
+  if (!(file instanceof File)) {
+    return { success: false, error: { code: 'NO_FILE_PROVIDED', message: 'Attach the PDF as the `file` field', retryable: false } }
+  }
+
+  if (file.type !== 'application/pdf') {
+    return { success: false, error: { code: 'INVALID_FILE_TYPE', message: 'Only PDF files are supported', retryable: false } }
+  }
+
+  return {
+    success: true,
+    data: {
+      file: {
+        fileName: file.name,
+        contentType: file.type,
+        buffer: Buffer.from(await file.arrayBuffer())
+      },
+      documentType: form.data.documentType
+    }
+  }
+}
+
+export async function GET(request: NextRequest) {
+  let rateLimitHeaders: Record<string, string> = {}
+
+  try {
+    const auth = await authenticateApiKey(request, 'conversions:read')
+    if (!auth.success) {
+      return NextResponse.json(auth.error, { status: auth.status, headers: auth.headers })
+    }
+    const { userId, supabase } = auth.data
+    rateLimitHeaders = auth.data.rateLimitHeaders
+
+    const { searchParams } = request.nextUrl
+    const query = validate(ConversionListQuerySchema, {
+      limit: searchParams.get('limit') || undefined,
+      offset: searchParams.get('offset') || undefined,
+      status: searchParams.get('status') || undefined,
+      batchId: searchParams.get('batchId') || undefined
+    }, 'Invalid query')
+    if (!query.success) {
+      return NextResponse.json(query.error, { status: 400, headers: auth.data.rateLimitHeaders })
+    }
+
+    const { limit, offset } = query.data
+    const { conversions, total } = await listUserConversions(userId, query.data, supabase)
+
+    return NextResponse.json({
+      data: conversions.map(toPublicConversion),
+      pagination: {
+        limit,
+        offset,
+        total,
+        hasMore: offset + conversions.length < total
+      }
+    }, { headers: auth.data.rateLimitHeaders })
+
+  } catch (error) {
+    console.error('[API v1] List conversions error:', error)
+
+    return NextResponse.json(
+      { code: 'INTERNAL_SERVER_ERROR', message: 'Failed to list conversions. Please try again.', retryable: true } as APIError,
+      { status: 500, headers: rateLimitHeaders }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let rateLimitHeaders: Record<string, string> = {}
+
+  try {
+    const auth = await authenticateApiKey(request, 'conversions:write', 'convert')
+    if (!auth.success) {
+      return NextResponse.json(auth.error, { status: auth.status, headers: auth.headers })
+    }
+    const { userId, supabase } = auth.data
+    rateLimitHeaders = auth.data.rateLimitHeaders
+
+    const userProfile = await getUserProfile(userId, supabase)
+    if (!userProfile) {
+      return NextResponse.json(
+        { code: 'USER_PROFILE_NOT_FOUND', message: 'Please complete your profile setup', retryable: false } as APIError,
+        { status: 400, headers: auth.data.rateLimitHeaders }
+      )
+    }
+
+    const upload = await readUpload(request)
+    if (!upload.success) {
+      return NextResponse.json(upload.error, { status: 400, headers: auth.data.rateLimitHeaders })
+    }
+    const { file, documentType } = upload.data
+
+    if (!getProcessingBackend(documentType)) {
+      return NextResponse.json(
+        { code: 'PROCESSING_UNAVAILABLE', message: `Processing for ${documentType} documents is not configured`, retryable: false } as APIError,
+        { status: 503, headers: auth.data.rateLimitHeaders }
+      )
+    }
+
+    const result = await createConversionUpload({
+      supabase,
+      userId,
+      subscriptionTier: userProfile.subscription_tier,
+      documentType,
+      file
+    })
+
+    if (!result.success) {
+      return NextResponse.json(result.error, { status: result.status, headers: auth.data.rateLimitHeaders })
+    }
+
+    const { conversionId } = result.data
+    const conversion = conversionId ? await getUserConversion(conversionId, userId, supabase) : null
+    if (!conversion) {
+      throw new Error(`Conversion ${conversionId} could not be loaded after upload`)
+    }
+
+    console.log(`[API v1] Created conversion ${conversion.id} with API key ${auth.data.apiKey.id}`)
+
+    return NextResponse.json(
+      { data: toPublicConversion(conversion), message: result.data.message },
+      { status: 201, headers: { ...auth.data.rateLimitHeaders, Location: `/api/v1/conversions/${conversion.id}` } }
+    )
+
+  } catch (error) {
+    console.error('[API v1] Create conversion error:', error)
+
+    return NextResponse.json(
+      { code: 'INTERNAL_SERVER_ERROR', message: 'An unexpected error occurred. Please try again.', retryable: true } as APIError,
+      { status: 500, headers: rateLimitHeaders }
+    )
+  }
+}
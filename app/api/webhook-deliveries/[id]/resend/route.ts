@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getWebhookDelivery, toWebhookDelivery } from '@/lib/supabase/webhook-endpoints'
+import { resendWebhookDelivery } from '@/lib/services/customer-webhooks'
+import { APIError } from '@/lib/supabase/types'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+// Send a delivery's event to its endpoint again, as a new delivery that is attempted right away
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Please log in to manage webhooks', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const original = await getWebhookDelivery(params.id, user.id, supabase)
+    if (!original) {
+      return NextResponse.json(
+        { code: 'WEBHOOK_DELIVERY_NOT_FOUND', message: 'The webhook delivery does not exist', retryable: false } as APIError,
+        { status: 404 }
+      )
+    }
+
+    const { delivery, outcome } = await resendWebhookDelivery(original)
+    const resent = await getWebhookDelivery(delivery.id, user.id, supabase)
+
+    console.log(`[WEBHOOKS] Resent delivery ${original.id} as ${delivery.id}: ${outcome}`)
+
+    return NextResponse.json({ delivery: toWebhookDelivery(resent ?? delivery), outcome })
+
+  } catch (error) {
+    console.error('Webhook resend error:', error)
+
+    return NextResponse.json(
+      { code: 'INTERNAL_SERVER_ERROR', message: 'Failed to resend the webhook. Please try again.', retryable: true } as APIError,
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getWebhookDeliveries, toWebhookDelivery } from '@/lib/supabase/webhook-endpoints'
+import { APIError } from '@/lib/supabase/types'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+const MAX_DELIVERIES = 100
+
+// Delivery log of one endpoint, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Please log in to manage webhooks', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const requestedLimit = Number(request.nextUrl.searchParams.get('limit')) || 25
+    const limit = Math.min(Math.max(requestedLimit, 1), MAX_DELIVERIES)
+
+    const deliveries = await getWebhookDeliveries(params.id, user.id, limit, supabase)
+
+    return NextResponse.json({ deliveries: deliveries.map(toWebhookDelivery) })
+
+  } catch (error) {
+    console.error('Webhook deliveries list error:', error)
+
+    return NextResponse.json(
+      { code: 'INTERNAL_SERVER_ERROR', message: 'Failed to load webhook deliveries. Please try again.', retryable: true } as APIError,
+      { status: 500 }
+    )
+  }
+}
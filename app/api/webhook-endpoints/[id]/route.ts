@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { deleteWebhookEndpoint, toWebhookEndpoint, updateWebhookEndpoint } from '@/lib/supabase/webhook-endpoints'
+import { validate, WebhookEndpointUpdateSchema } from '@/lib/validation'
+import { APIError } from '@/lib/supabase/types'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+const notFound = () => NextResponse.json(
+  { code: 'WEBHOOK_ENDPOINT_NOT_FOUND', message: 'The webhook endpoint does not exist', retryable: false } as APIError,
+  { status: 404 }
+)
+
+// Enable or disable an endpoint, or change its description or events
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Please log in to manage webhooks', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { code: 'INVALID_PAYLOAD', message: 'Invalid JSON payload', retryable: false } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const input = validate(WebhookEndpointUpdateSchema, body, 'Invalid webhook endpoint')
+    if (!input.success) {
+      return NextResponse.json(input.error, { status: 400 })
+    }
+
+    const endpoint = await updateWebhookEndpoint(params.id, user.id, input.data, supabase)
+    if (!endpoint) {
+      return notFound()
+    }
+
+    return NextResponse.json({ endpoint: toWebhookEndpoint(endpoint) })
+
+  } catch (error) {
+    console.error('Webhook endpoint update error:', error)
+
+    return NextResponse.json(
+      { code: 'INTERNAL_SERVER_ERROR', message: 'Failed to update the webhook endpoint. Please try again.', retryable: true } as APIError,
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Please log in to manage webhooks', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const endpoint = await deleteWebhookEndpoint(params.id, user.id, supabase)
+    if (!endpoint) {
+      return notFound()
+    }
+
+    console.log(`[WEBHOOKS] Deleted endpoint ${endpoint.id} for user ${user.id}`)
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Webhook endpoint delete error:', error)
+
+    return NextResponse.json(
+      { code: 'INTERNAL_SERVER_ERROR', message: 'Failed to delete the webhook endpoint. Please try again.', retryable: true } as APIError,
+      { status: 500 }
+    )
+  }
+}
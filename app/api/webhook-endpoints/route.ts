@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createWebhookEndpoint, getUserWebhookEndpoints, toWebhookEndpoint } from '@/lib/supabase/webhook-endpoints'
+import { generateWebhookSecret, MAX_WEBHOOK_ENDPOINTS } from '@/lib/services/customer-webhooks'
+import { validate, WebhookEndpointCreateSchema } from '@/lib/validation'
+import { APIError, CreatedWebhookEndpoint } from '@/lib/supabase/types'
+
+export async function GET() {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Please log in to manage webhooks', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const endpoints = await getUserWebhookEndpoints(user.id, supabase)
+
+    return NextResponse.json({ endpoints: endpoints.map(toWebhookEndpoint) })
+
+  } catch (error) {
+    console.error('Webhook endpoints list error:', error)
+
+    return NextResponse.json(
+      { code: 'INTERNAL_SERVER_ERROR', message: 'Failed to load webhook endpoints. Please try again.', retryable: true } as APIError,
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { code: 'UNAUTHORIZED', message: 'Please log in to manage webhooks', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { code: 'INVALID_PAYLOAD', message: 'Invalid JSON payload', retryable: false } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const input = validate(WebhookEndpointCreateSchema, body, 'Invalid webhook endpoint')
+    if (!input.success) {
+      return NextResponse.json(input.error, { status: 400 })
+    }
+
+    const existing = await getUserWebhookEndpoints(user.id, supabase)
+    if (existing.length >= MAX_WEBHOOK_ENDPOINTS) {
+      return NextResponse.json(
+        { code: 'WEBHOOK_ENDPOINT_LIMIT_REACHED', message: `You can register at most ${MAX_WEBHOOK_ENDPOINTS} webhook endpoints`, retryable: false } as APIError,
+        { status: 409 }
+      )
+    }
+
+    const secret = generateWebhookSecret()
+    const endpoint = await createWebhookEndpoint({
+      user_id: user.id,
+      url: input.data.url,
+      description: input.data.description,
+      events: input.data.events,
+      secret
+    }, supabase)
+
+    console.log(`[WEBHOOKS] Registered endpoint ${endpoint.id} for user ${user.id}`)
+
+    const created: CreatedWebhookEndpoint = { ...toWebhookEndpoint(endpoint), secret }
+    return NextResponse.json({ endpoint: created }, { status: 201 })
+
+  } catch (error) {
+    console.error('Webhook endpoint create error:', error)
+
+    return NextResponse.json(
+      { code: 'INTERNAL_SERVER_ERROR', message: 'Failed to register the webhook endpoint. Please try again.', retryable: true } as APIError,
+      { status: 500 }
+    )
+  }
+}
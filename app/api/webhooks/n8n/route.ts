@@ -1,49 +1,66 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServiceClient } from '@/lib/supabase/server'
-import { trackEvent } from '@/lib/supabase/conversions'
-import { APIError } from '@/lib/supabase/types'
-import crypto from 'crypto'
+import { trackEvent, updateConversionDetails, updateConversionInvoices, updateConversionProgress } from '@/lib/supabase/conversions'
+import { recordWebhookEvent, releaseWebhookEvent } from '@/lib/supabase/webhook-events'
+import { commitConversionCredit } from '@/lib/supabase/credits'
+import { summarizeTransactions } from '@/lib/services/spt-parser'
+import { canTransition, transitionConversion } from '@/lib/services/conversion-status'
+import { getReportedProgress, isProgressAhead } from '@/lib/services/conversion-progress'
+import { verifyWebhookSignature } from '@/lib/services/webhook-signature'
+import { dispatchConversionEvent } from '@/lib/services/customer-webhooks'
+import { N8NWebhookPayload, N8NWebhookPayloadSchema, validate } from '@/lib/validation'
+import { APIError, ConversionDetails, ConversionStatus, Database } from '@/lib/supabase/types'
+
+type ConversionUpdate = Database['public']['Tables']['conversions']['Update']
 
 const N8N_WEBHOOK_SECRET = process.env.N8N_WEBHOOK_SECRET
+const WEBHOOK_SOURCE = 'n8n'
+// Callbacks older (or further in the future) than this are rejected as replays
+const TIMESTAMP_TOLERANCE_MS = 5 * 60 * 1000
 
-interface N8NWebhookPayload {
-  conversionId: string
-  status: 'completed' | 'failed'
-  downloadUrl?: string
-  error?: string
-  metadata?: {
-    processingTime?: number
-    fileSize?: number
-    pages?: number
-    tables?: number
-  }
-  secret: string
-}
-
-// Verify webhook signature
-function verifyWebhookSignature(payload: string, signature: string, secret: string): boolean {
-  if (!signature || !secret) return false
-  
-  const expectedSignature = crypto
-    .createHmac('sha256', secret)
-    .update(payload)
-    .digest('hex')
-  
-  return crypto.timingSafeEqual(
-    Buffer.from(signature),
-    Buffer.from(expectedSignature)
-  )
+// Unix timestamp in seconds, as sent in `x-webhook-timestamp`
+function parseTimestamp(value: string) {
+  if (!/^\d+$/.test(value)) return null
+  return new Date(Number(value) * 1000)
 }
 
 export async function POST(request: NextRequest) {
+  // Set once this delivery is recorded, so a failure below can release it for the sender's retry
+  let recordedEventId: string | null = null
+
   try {
     // Get raw body for signature verification
     const rawBody = await request.text()
     const signature = request.headers.get('x-webhook-signature') || ''
+    const eventId = request.headers.get('x-webhook-id')?.trim() || ''
+    const timestampHeader = request.headers.get('x-webhook-timestamp')?.trim() || ''
+
+    if (!eventId || !timestampHeader) {
+      return NextResponse.json(
+        { code: 'MISSING_EVENT_HEADERS', message: 'x-webhook-id and x-webhook-timestamp headers are required', retryable: false } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const eventTimestamp = parseTimestamp(timestampHeader)
+    if (!eventTimestamp) {
+      return NextResponse.json(
+        { code: 'INVALID_TIMESTAMP', message: 'x-webhook-timestamp must be a Unix timestamp in seconds', retryable: false } as APIError,
+        { status: 400 }
+      )
+    }
+
+    if (Math.abs(Date.now() - eventTimestamp.getTime()) > TIMESTAMP_TOLERANCE_MS) {
+      console.error(`Stale webhook ${eventId}: timestamp ${eventTimestamp.toISOString()}`)
+      return NextResponse.json(
+        { code: 'STALE_WEBHOOK', message: 'Webhook timestamp is outside the allowed window', retryable: false } as APIError,
+        { status: 401 }
+      )
+    }
     
     // Verify webhook signature if secret is configured
     if (N8N_WEBHOOK_SECRET) {
-      if (!verifyWebhookSignature(rawBody, signature, N8N_WEBHOOK_SECRET)) {
+      if (!verifyWebhookSignature(rawBody, timestampHeader, signature, N8N_WEBHOOK_SECRET)) {
         console.error('Invalid webhook signature')
         return NextResponse.json(
           { code: 'INVALID_SIGNATURE', message: 'Webhook signature verification failed', retryable: false } as APIError,
@@ -53,9 +70,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Parse payload
-    let payload: N8NWebhookPayload
+    let body: unknown
     try {
-      payload = JSON.parse(rawBody)
+      body = JSON.parse(rawBody)
     } catch (parseError) {
       console.error('Invalid JSON payload:', parseError)
       return NextResponse.json(
@@ -64,13 +81,12 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Validate required fields
-    if (!payload.conversionId || !payload.status) {
-      return NextResponse.json(
-        { code: 'MISSING_FIELDS', message: 'conversionId and status are required', retryable: false } as APIError,
-        { status: 400 }
-      )
+    const validation = validate(N8NWebhookPayloadSchema, body, 'Invalid webhook payload')
+    if (!validation.success) {
+      console.error('Invalid webhook payload:', validation.error.details)
+      return NextResponse.json(validation.error, { status: 400 })
     }
+    const payload: N8NWebhookPayload = validation.data
 
     // Validate secret in payload (additional security)
     if (N8N_WEBHOOK_SECRET && payload.secret !== N8N_WEBHOOK_SECRET) {
@@ -80,6 +96,20 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Extraction results; summaries are derived from the transactions when the workflow omits them
+    let details: ConversionDetails | null = null
+    if (payload.status === 'completed' && payload.transactions) {
+      const transactions = payload.transactions.map((transaction, index) => ({
+        ...transaction,
+        no: transaction.no || index + 1
+      }))
+      details = {
+        summaries: payload.summaries ?? summarizeTransactions(transactions),
+        transaction_data: transactions
+      }
+    }
+    const invoices = payload.status === 'completed' ? payload.invoices ?? null : null
+
     // Create service client (admin privileges)
     const supabase = createServiceClient()
     
@@ -98,37 +128,159 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (invoices && conversion.document_type !== 'indomaret') {
+      return NextResponse.json(
+        { code: 'DOCUMENT_TYPE_MISMATCH', message: `Invoices can only be stored on Indomaret conversions, not ${conversion.document_type}`, retryable: false } as APIError,
+        { status: 400 }
+      )
+    }
+
+    // Acknowledge redeliveries without applying them again
+    const isNewEvent = await recordWebhookEvent({
+      source: WEBHOOK_SOURCE,
+      eventId,
+      conversionId: payload.conversionId,
+      eventTimestamp
+    })
+
+    if (!isNewEvent) {
+      console.log(`Webhook ${eventId} for conversion ${payload.conversionId} was already processed`)
+      return NextResponse.json(
+        {
+          success: true,
+          duplicate: true,
+          message: 'Webhook already processed',
+          conversionId: payload.conversionId,
+          status: conversion.status
+        },
+        { status: 200 }
+      )
+    }
+    recordedEventId = eventId
+
+    // Reject the event without recording it, so a redelivery gets the same answer
+    const reject = async (error: APIError, status: number) => {
+      await releaseWebhookEvent(WEBHOOK_SOURCE, eventId)
+      recordedEventId = null
+      return NextResponse.json(error, { status })
+    }
+
+    // Progress reports update the stepper without changing the status
+    if (payload.status === 'processing' && payload.progress) {
+      if (conversion.status !== 'processing') {
+        return reject(
+          { code: 'INVALID_STATUS_TRANSITION', message: `Conversion is ${conversion.status} and no longer accepts progress updates`, retryable: false },
+          409
+        )
+      }
+
+      // An older report arriving late must not move the stepper backwards
+      if (!isProgressAhead(getReportedProgress(conversion), payload.progress)) {
+        return NextResponse.json(
+          { success: true, ignored: true, message: 'Progress is behind the current stage', conversionId: payload.conversionId, status: conversion.status },
+          { status: 200 }
+        )
+      }
+
+      try {
+        const applied = await updateConversionProgress(payload.conversionId, payload.progress, supabase)
+        if (!applied) {
+          return reject(
+            { code: 'INVALID_STATUS_TRANSITION', message: 'Conversion is no longer processing', retryable: false },
+            409
+          )
+        }
+      } catch (progressError) {
+        console.error('Failed to update progress:', progressError)
+        return reject({ code: 'UPDATE_FAILED', message: 'Failed to update conversion progress', retryable: true }, 500)
+      }
+
+      return NextResponse.json(
+        { success: true, message: 'Progress recorded', conversionId: payload.conversionId, status: conversion.status, progress: payload.progress },
+        { status: 200 }
+      )
+    }
+
+    if (!canTransition(conversion.status as ConversionStatus, payload.status)) {
+      console.error(`Rejected webhook ${eventId}: conversion ${payload.conversionId} cannot go from ${conversion.status} to ${payload.status}`)
+      return reject(
+        { code: 'INVALID_STATUS_TRANSITION', message: `Conversion is ${conversion.status} and cannot be marked ${payload.status}`, retryable: false },
+        409
+      )
+    }
+
     // Prepare update data
-    const updateData: any = {
-      status: payload.status,
-      completed_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
+    const updateData: Omit<ConversionUpdate, 'status'> = {
+      completed_at: new Date().toISOString()
     }
 
     if (payload.status === 'completed') {
       updateData.download_url = payload.downloadUrl || `/api/download/${payload.conversionId}`
       updateData.error_message = null
-      
-      // Note: metadata is stored in usage_analytics table, not conversions table
+      updateData.error_code = null
+
+      const totalRows = payload.total_rows ??
+        details?.transaction_data.length ??
+        invoices?.reduce((sum, invoice) => sum + invoice.items.length, 0)
+      const processingTime = payload.processing_time_ms ?? payload.metadata?.processingTime
+      const tablesExtracted = payload.tables_extracted ?? payload.metadata?.tables
+
+      if (typeof totalRows === 'number') updateData.total_rows = totalRows
+      if (typeof processingTime === 'number') updateData.processing_time_ms = Math.round(processingTime)
+      if (typeof tablesExtracted === 'number') updateData.tables_extracted = tablesExtracted
     } else if (payload.status === 'failed') {
       updateData.error_message = payload.error || 'Conversion failed during processing'
       updateData.download_url = null
     }
 
-    // Update conversion status
-    const { error: updateError } = await supabase
-      .from('conversions')
-      .update(updateData)
-      .eq('id', payload.conversionId)
-    
-    if (updateError) {
+    // Persist extraction results before marking the conversion completed, so exports never see a completed row without data
+    if (details) {
+      try {
+        await updateConversionDetails(
+          payload.conversionId,
+          details.summaries,
+          details.transaction_data,
+          supabase
+        )
+      } catch (detailsError) {
+        console.error('Failed to store extraction results:', detailsError)
+        return reject({ code: 'UPDATE_FAILED', message: 'Failed to store extraction results', retryable: true }, 500)
+      }
+    }
+
+    if (invoices) {
+      try {
+        await updateConversionInvoices(payload.conversionId, invoices, supabase)
+      } catch (invoicesError) {
+        console.error('Failed to store invoices:', invoicesError)
+        return reject({ code: 'UPDATE_FAILED', message: 'Failed to store extraction results', retryable: true }, 500)
+      }
+    }
+
+    // Update conversion status, unless it changed since we read it (e.g. the watchdog timed it out)
+    let updated
+    try {
+      updated = await transitionConversion(payload.conversionId, payload.status, updateData, supabase)
+    } catch (updateError) {
       console.error('Failed to update conversion:', updateError)
-      return NextResponse.json(
-        { code: 'UPDATE_FAILED', message: 'Failed to update conversion status', retryable: true } as APIError,
-        { status: 500 }
+      return reject({ code: 'UPDATE_FAILED', message: 'Failed to update conversion status', retryable: true }, 500)
+    }
+
+    if (!updated) {
+      return reject(
+        { code: 'INVALID_STATUS_TRANSITION', message: `Conversion is no longer ${conversion.status} and cannot be marked ${payload.status}`, retryable: false },
+        409
       )
     }
 
+    // The conversion is finished, so its credit is kept, also when the backend reports a failure.
+    // Only dead-lettered and timed-out conversions are refunded.
+    try {
+      await commitConversionCredit(payload.conversionId)
+    } catch (creditError) {
+      console.error('Failed to commit conversion credit:', creditError)
+    }
+
     // Track completion event
     try {
       if (conversion.user_id) {
@@ -138,10 +290,12 @@ export async function POST(request: NextRequest) {
           payload.conversionId,
           {
             file_name: conversion.original_filename,
-            processing_time: payload.metadata?.processingTime,
+            processing_time: payload.processing_time_ms ?? payload.metadata?.processingTime,
             error: payload.error,
             pages: payload.metadata?.pages,
-            tables: payload.metadata?.tables
+            tables: payload.tables_extracted ?? payload.metadata?.tables,
+            rows: details?.transaction_data.length,
+            invoices: invoices?.length
           }
         )
       }
@@ -150,6 +304,13 @@ export async function POST(request: NextRequest) {
       // Don't fail the webhook for tracking errors
     }
 
+    // Notify the user's webhook endpoints; failed deliveries are retried by the webhooks worker
+    try {
+      await dispatchConversionEvent(updated)
+    } catch (dispatchError) {
+      console.error('Failed to dispatch customer webhooks:', dispatchError)
+    }
+
     // Send notification (if user has notifications enabled)
     // This could be extended to send email notifications, push notifications, etc.
     try {
@@ -177,6 +338,12 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('Webhook processing error:', error)
+
+    if (recordedEventId) {
+      await releaseWebhookEvent(WEBHOOK_SOURCE, recordedEventId).catch(releaseError => {
+        console.error('Failed to release webhook event:', releaseError)
+      })
+    }
     
     return NextResponse.json(
       { 
@@ -211,7 +378,7 @@ export async function OPTIONS(request: NextRequest) {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'POST, GET, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-webhook-signature',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-webhook-signature, x-webhook-id, x-webhook-timestamp',
     },
   })
 }
\ No newline at end of file
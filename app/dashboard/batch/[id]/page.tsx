@@ -0,0 +1,371 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useParams } from 'next/navigation'
+import { motion } from 'framer-motion'
+import {
+  ArrowLeft,
+  FileText,
+  Download,
+  Loader2,
+  AlertTriangle,
+  Clock,
+  CheckCircle,
+  XCircle,
+  Layers,
+  BarChart3
+} from 'lucide-react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { useAuth } from '@/lib/auth/context'
+import { useConversionRealtime } from '@/hooks/useConversionRealtime'
+import { useConversionStore } from '@/lib/stores/conversion-store'
+import { BatchSummary } from '@/lib/supabase/types'
+import { toast } from 'sonner'
+
+interface BatchConversion {
+  id: string
+  originalFilename: string
+  status: string
+  fileSize: number | null
+  errorMessage: string | null
+  totalRows: number
+  progress: number
+  currentStage: string
+}
+
+interface BatchDetail extends BatchSummary {
+  id: string
+  documentType: string
+  createdAt: string
+  conversions: BatchConversion[]
+}
+
+const POLL_INTERVAL_MS = 5000
+
+export default function BatchDetailPage() {
+  const params = useParams()
+  const { user } = useAuth()
+  const [batch, setBatch] = useState<BatchDetail | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isDownloading, setIsDownloading] = useState(false)
+
+  const batchId = params.id as string
+
+  const { isRealtimeConnected } = useConversionRealtime()
+
+  // Changes whenever realtime pushes an update for one of the batch's conversions
+  const changeKey = useConversionStore(state =>
+    batch?.conversions.map(c => state.conversions.get(c.id)?.updated_at ?? '').join('|')
+  )
+
+  const fetchBatch = useCallback(async (showLoader = false) => {
+    try {
+      if (showLoader) setLoading(true)
+      const response = await fetch(`/api/batch/${batchId}`)
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.message || 'Failed to fetch batch')
+      }
+
+      setBatch(await response.json())
+      setError(null)
+    } catch (err) {
+      console.error('Error fetching batch:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load batch')
+    } finally {
+      setLoading(false)
+    }
+  }, [batchId])
+
+  const fetchBatchRef = useRef(fetchBatch)
+  fetchBatchRef.current = fetchBatch
+
+  useEffect(() => {
+    if (!user || !batchId) return
+    fetchBatch(true)
+  }, [user, batchId, fetchBatch])
+
+  const changeKeyRef = useRef<string>()
+  useEffect(() => {
+    if (changeKey === undefined) return
+    if (changeKeyRef.current !== undefined && changeKeyRef.current !== changeKey) {
+      fetchBatchRef.current()
+    }
+    changeKeyRef.current = changeKey
+  }, [changeKey])
+
+  // Poll only while files are still converting and realtime is unavailable
+  const isProcessing = batch?.status === 'processing'
+  useEffect(() => {
+    if (!isProcessing || isRealtimeConnected) return
+
+    const interval = setInterval(() => fetchBatchRef.current(), POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [isProcessing, isRealtimeConnected])
+
+  const handleDownload = async () => {
+    if (!batch || batch.completed === 0) return
+
+    try {
+      setIsDownloading(true)
+      const response = await fetch(`/api/batch/${batchId}/download`)
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.message || 'Download failed')
+      }
+
+      const contentDisposition = response.headers.get('content-disposition')
+      const filenameMatch = contentDisposition?.match(/filename[^;=\n]*=((['"]).*?\2|[^;\n]*)/)
+      const filename = filenameMatch?.[1]?.replace(/['"]/g, '') || `batch-${batchId.slice(0, 8)}.xlsx`
+
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = filename
+      a.style.display = 'none'
+
+      document.body.appendChild(a)
+      a.click()
+
+      setTimeout(() => {
+        window.URL.revokeObjectURL(url)
+        document.body.removeChild(a)
+      }, 100)
+
+      toast.success(batch.completed < batch.total
+        ? `Downloaded results for ${batch.completed} of ${batch.total} files`
+        : 'File downloaded successfully')
+    } catch (err) {
+      console.error('Batch download error:', err)
+      toast.error(err instanceof Error ? err.message : 'Download failed')
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  const getStatusIcon = (status: string) => {
+    switch (status) {
+      case 'completed':
+        return <CheckCircle className="h-5 w-5 text-green-600" />
+      case 'failed':
+        return <XCircle className="h-5 w-5 text-red-600" />
+      case 'processing':
+        return <Clock className="h-5 w-5 text-blue-600" />
+      default:
+        return <Clock className="h-5 w-5 text-gray-600" />
+    }
+  }
+
+  const getStatusBadge = (status: string) => {
+    const variants = {
+      completed: 'default',
+      failed: 'destructive',
+      partial: 'secondary',
+      processing: 'secondary',
+      pending: 'outline'
+    } as const
+
+    return (
+      <Badge variant={variants[status as keyof typeof variants] || 'outline'}>
+        {status.charAt(0).toUpperCase() + status.slice(1)}
+      </Badge>
+    )
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="flex items-center justify-center min-h-[400px]">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !batch) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="flex flex-col items-center justify-center min-h-[400px] space-y-4">
+            <AlertTriangle className="h-12 w-12 text-red-600" />
+            <h2 className="text-xl font-semibold text-gray-900">Batch Not Found</h2>
+            <p className="text-gray-600 text-center">
+              {error || 'The requested batch could not be found.'}
+            </p>
+            <Link href="/dashboard">
+              <Button>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const finished = batch.completed + batch.failed
+  const overallProgress = batch.total > 0
+    ? Math.round(batch.conversions.reduce((sum, c) => sum + (c.status === 'failed' ? 100 : c.progress), 0) / batch.total)
+    : 0
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <Link href="/dashboard">
+                <Button variant="ghost" size="sm">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to Dashboard
+                </Button>
+              </Link>
+
+              <div className="flex items-center space-x-3">
+                <div className="flex items-center space-x-2">
+                  <Layers className="h-5 w-5 text-blue-600" />
+                  <h1 className="text-2xl font-bold text-gray-900">
+                    Batch of {batch.total} files
+                  </h1>
+                </div>
+                {getStatusBadge(batch.status)}
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              {batch.completed > 0 && (
+                <Link href={`/dashboard/reports?ids=${batch.conversions.filter(c => c.status === 'completed').map(c => c.id).join(',')}`}>
+                  <Button variant="outline">
+                    <BarChart3 className="h-4 w-4 mr-2" />
+                    Report
+                  </Button>
+                </Link>
+              )}
+
+              <Button onClick={handleDownload} disabled={isDownloading || batch.completed === 0}>
+                {isDownloading ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Download className="h-4 w-4 mr-2" />
+                )}
+                Download All
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Batch Progress */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-8"
+        >
+          <Card>
+            <CardHeader>
+              <CardTitle>Progress</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2 mb-6">
+                <div className="flex justify-between text-sm text-gray-600">
+                  <span>{finished} of {batch.total} files finished</span>
+                  <span>{overallProgress}%</span>
+                </div>
+                <Progress value={overallProgress} className="h-2" />
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+                <div>
+                  <label className="text-sm font-medium text-gray-500">Completed</label>
+                  <p className="text-lg font-semibold text-green-600">{batch.completed}</p>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-500">In Progress</label>
+                  <p className="text-lg font-semibold text-blue-600">{batch.pending + batch.processing}</p>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-500">Failed</label>
+                  <p className="text-lg font-semibold text-red-600">{batch.failed}</p>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-500">Uploaded</label>
+                  <p className="text-sm">{formatDate(batch.createdAt)}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        {/* Files */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+        >
+          <Card>
+            <CardHeader>
+              <CardTitle>Files</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {batch.conversions.map(conversion => (
+                <Link
+                  key={conversion.id}
+                  href={`/dashboard/conversion/${conversion.id}`}
+                  className="block p-4 border rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <div className="flex items-center space-x-3">
+                    <FileText className="h-8 w-8 text-red-600 flex-shrink-0" />
+
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{conversion.originalFilename}</p>
+                      {conversion.status === 'failed' ? (
+                        <p className="text-xs text-red-600 truncate">
+                          {conversion.errorMessage || 'Conversion failed'}
+                        </p>
+                      ) : conversion.status === 'completed' ? (
+                        <p className="text-xs text-gray-500">{conversion.totalRows || 0} rows extracted</p>
+                      ) : (
+                        <div className="mt-2 space-y-1">
+                          <Progress value={conversion.progress} className="h-1.5" />
+                          <p className="text-xs text-gray-500">{conversion.currentStage}</p>
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="flex items-center space-x-2">
+                      {getStatusIcon(conversion.status)}
+                      {getStatusBadge(conversion.status)}
+                    </div>
+                  </div>
+                </Link>
+              ))}
+            </CardContent>
+          </Card>
+        </motion.div>
+      </div>
+    </div>
+  )
+}
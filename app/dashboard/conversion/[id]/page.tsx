@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import { motion } from 'framer-motion'
 import { 
@@ -15,7 +15,8 @@ import {
   XCircle,
   Building2,
   Wallet,
-  Hash
+  Hash,
+  Columns
 } from 'lucide-react'
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
@@ -23,8 +24,22 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { ConversionDetailView } from '@/components/conversion/ConversionDetailView'
+import { DataQualityPanel } from '@/components/conversion/DataQualityPanel'
+import { TransactionEditHistory } from '@/components/conversion/TransactionEditHistory'
+import { PdfSourceViewer } from '@/components/conversion/PdfSourceViewer'
+import { IndomaretDetailView } from '@/components/conversion/IndomaretDetailView'
 import { useAuth } from '@/lib/auth/context'
-import { CompanySummary, TransactionData } from '@/lib/supabase/types'
+import {
+  CompanySummary,
+  TransactionData,
+  ExportFormat,
+  ExportOptions,
+  QualityWarning,
+  ReconciliationRow,
+  EditableTransactionField,
+  TransactionEdit,
+  IndomaretInvoice
+} from '@/lib/supabase/types'
 import { toast } from 'sonner'
 
 interface ConversionDetail {
@@ -42,6 +57,10 @@ interface ConversionDetail {
   processing_time_ms?: number | null
   summaries?: CompanySummary[] | null
   transaction_data?: TransactionData[] | null
+  invoices?: IndomaretInvoice[] | null
+  quality_warnings?: QualityWarning[] | null
+  reconciliation?: ReconciliationRow[] | null
+  has_original_file: boolean
 }
 
 export default function ConversionDetailPage() {
@@ -52,6 +71,9 @@ export default function ConversionDetailPage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isDownloading, setIsDownloading] = useState(false)
+  const [edits, setEdits] = useState<TransactionEdit[]>([])
+  const [showSource, setShowSource] = useState(false)
+  const [selectedRow, setSelectedRow] = useState<number | null>(null)
 
   const conversionId = params.id as string
 
@@ -84,10 +106,21 @@ export default function ConversionDetailPage() {
           total_rows: data.totalRows,
           processing_time_ms: data.processingTimeMs,
           summaries: data.summaries,
-          transaction_data: data.transactionData
+          transaction_data: data.transactionData,
+          invoices: data.invoices,
+          quality_warnings: data.qualityWarnings,
+          reconciliation: data.reconciliation,
+          has_original_file: data.hasOriginalFile
         }
         
         setConversion(typedConversion)
+
+        // The edit history is secondary; the page works without it
+        const editsResponse = await fetch(`/api/conversion/${conversionId}/edits`)
+        if (editsResponse.ok) {
+          const editsData = await editsResponse.json()
+          setEdits(editsData.edits)
+        }
       } catch (err) {
         console.error('Error fetching conversion details:', err)
         setError(err instanceof Error ? err.message : 'Failed to load conversion details')
@@ -134,6 +167,126 @@ export default function ConversionDetailPage() {
     }
   }
 
+  const handleExport = async (format: ExportFormat, options: ExportOptions = {}) => {
+    if (!conversion) return
+
+    const query = new URLSearchParams({ format })
+    if (options.decimalFormat) query.set('decimal', options.decimalFormat)
+    if (options.sheet) query.set('sheet', options.sheet)
+
+    try {
+      toast.info(`Exporting data as ${format.toUpperCase()}...`)
+      const response = await fetch(`/api/conversion/${conversionId}/export?${query.toString()}`)
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.message || 'Export failed')
+      }
+
+      const contentDisposition = response.headers.get('content-disposition')
+      const filenameMatch = contentDisposition?.match(/filename[^;=\n]*=((['"]).*?\2|[^;\n]*)/)
+      const filename = filenameMatch?.[1]?.replace(/['"]/g, '') ||
+                       conversion.original_filename.replace(/\.pdf$/i, `.${format}`)
+
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = filename
+      a.style.display = 'none'
+
+      document.body.appendChild(a)
+      a.click()
+
+      setTimeout(() => {
+        window.URL.revokeObjectURL(url)
+        document.body.removeChild(a)
+      }, 100)
+
+      toast.success('Export downloaded successfully')
+    } catch (err) {
+      console.error('Export error:', err)
+      toast.error(err instanceof Error ? err.message : 'Export failed')
+    }
+  }
+
+  // A cell counts as edited while it differs from its value before the first edit
+  const editedCells = useMemo(() => {
+    const originals = new Map<string, TransactionEdit['oldValue']>()
+    edits.forEach(edit => originals.set(`${edit.row}:${edit.field}`, edit.oldValue))
+
+    const cells = new Set<string>()
+    originals.forEach((original, key) => {
+      const [row, field] = key.split(':')
+      const current = conversion?.transaction_data?.[Number(row)]?.[field as EditableTransactionField]
+      if (String(current ?? '') !== String(original ?? '')) cells.add(key)
+    })
+    return cells
+  }, [edits, conversion?.transaction_data])
+
+  const applyEditResponse = (data: {
+    summaries: CompanySummary[]
+    transactionData: TransactionData[]
+    qualityWarnings: QualityWarning[]
+    reconciliation: ReconciliationRow[]
+    edits: TransactionEdit[]
+  }) => {
+    setConversion(prev => prev && {
+      ...prev,
+      summaries: data.summaries,
+      transaction_data: data.transactionData,
+      quality_warnings: data.qualityWarnings,
+      reconciliation: data.reconciliation
+    })
+    setEdits(prev => [...data.edits.slice().reverse(), ...prev])
+  }
+
+  const handleEditTransaction = async (row: number, field: EditableTransactionField, value: string) => {
+    try {
+      const response = await fetch(`/api/conversion/${conversionId}/transactions`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ changes: [{ row, field, value }] })
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to save the change')
+      }
+
+      applyEditResponse(data)
+      return true
+    } catch (err) {
+      console.error('Edit error:', err)
+      toast.error(err instanceof Error ? err.message : 'Failed to save the change')
+      return false
+    }
+  }
+
+  const handleRevertEdit = async (edit: TransactionEdit) => {
+    try {
+      const response = await fetch(`/api/conversion/${conversionId}/edits/${edit.id}/revert`, {
+        method: 'POST'
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to revert the change')
+      }
+
+      applyEditResponse(data)
+      toast.success('Change reverted')
+    } catch (err) {
+      console.error('Revert error:', err)
+      toast.error(err instanceof Error ? err.message : 'Failed to revert the change')
+    }
+  }
+
+  const handleViewSource = (row: number) => {
+    setSelectedRow(row)
+    setShowSource(true)
+  }
+
   const handleRetry = async () => {
     try {
       const response = await fetch(`/api/conversion/${conversionId}/retry`, {
@@ -258,6 +411,16 @@ export default function ConversionDetailPage() {
             </div>
             
             <div className="flex items-center space-x-2">
+              {conversion.has_original_file && conversion.transaction_data && conversion.transaction_data.length > 0 && (
+                <Button
+                  variant={showSource ? 'default' : 'outline'}
+                  onClick={() => setShowSource(!showSource)}
+                >
+                  <Columns className="h-4 w-4 mr-2" />
+                  {showSource ? 'Hide Original' : 'Show Original'}
+                </Button>
+              )}
+
               {conversion.status === 'completed' && (
                 <Button onClick={handleDownload} disabled={isDownloading}>
                   {isDownloading ? (
@@ -348,6 +511,21 @@ export default function ConversionDetailPage() {
           </motion.div>
         )}
 
+        {/* Data Quality */}
+        {conversion.quality_warnings && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.05 }}
+            className="mb-8"
+          >
+            <DataQualityPanel
+              warnings={conversion.quality_warnings}
+              reconciliation={conversion.reconciliation}
+            />
+          </motion.div>
+        )}
+
         {/* Detailed Conversion Data */}
         {conversion.summaries && conversion.transaction_data && 
          conversion.summaries.length > 0 && conversion.transaction_data.length > 0 ? (
@@ -356,12 +534,49 @@ export default function ConversionDetailPage() {
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.1 }}
           >
-            <ConversionDetailView
-              summaries={conversion.summaries}
-              transactionData={conversion.transaction_data}
-              onExport={(format) => {
-                toast.info(`Exporting data as ${format.toUpperCase()}...`)
-              }}
+            {/* The original PDF sits beside the extracted rows so values can be checked against their source */}
+            <div className={showSource ? 'grid grid-cols-1 xl:grid-cols-2 gap-6 items-start' : undefined}>
+              <ConversionDetailView
+                summaries={conversion.summaries}
+                transactionData={conversion.transaction_data}
+                onExport={handleExport}
+                onEditTransaction={conversion.status === 'completed' ? handleEditTransaction : undefined}
+                editedCells={editedCells}
+                onViewSource={conversion.has_original_file ? handleViewSource : undefined}
+                selectedRow={selectedRow}
+                className="min-w-0"
+              />
+
+              {showSource && (
+                <div className="xl:sticky xl:top-4">
+                  <PdfSourceViewer
+                    conversionId={conversion.id}
+                    source={selectedRow !== null ? conversion.transaction_data[selectedRow]?.source : null}
+                    onClose={() => setShowSource(false)}
+                  />
+                </div>
+              )}
+            </div>
+
+            {edits.length > 0 && (
+              <div className="mt-8">
+                <TransactionEditHistory
+                  edits={edits}
+                  transactionData={conversion.transaction_data}
+                  onRevert={handleRevertEdit}
+                />
+              </div>
+            )}
+          </motion.div>
+        ) : conversion.invoices && conversion.invoices.length > 0 ? (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 }}
+          >
+            <IndomaretDetailView
+              invoices={conversion.invoices}
+              onExport={handleExport}
             />
           </motion.div>
         ) : conversion.status === 'completed' && (
@@ -274,7 +274,7 @@ export default function DashboardPage() {
       await loadDashboardData()
     } catch (error) {
       console.error('Retry error:', error)
-      toast.error('Failed to retry conversion')
+      toast.error(error instanceof Error ? error.message : 'Failed to retry conversion')
     }
   }
 
@@ -412,6 +412,9 @@ export default function DashboardPage() {
                 <Link href="/">
                   <Button variant="ghost" className="text-gray-600 hover:text-gray-900 px-4 py-2">Home</Button>
                 </Link>
+                <Link href="/dashboard/reports">
+                  <Button variant="ghost" className="text-gray-600 hover:text-gray-900 px-4 py-2">Reports</Button>
+                </Link>
                 <Link href="/convert">
                   <Button className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 px-6 py-2">
                     <Plus className="h-4 w-4 mr-2" />
@@ -0,0 +1,367 @@
+'use client'
+
+import { useState, useEffect, Suspense } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { motion } from 'framer-motion'
+import {
+  ArrowLeft,
+  Download,
+  Loader2,
+  AlertTriangle,
+  FileText,
+  BarChart3
+} from 'lucide-react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import { ConversionDetailView } from '@/components/conversion/ConversionDetailView'
+import { useAuth } from '@/lib/auth/context'
+import { getCompletedConversions } from '@/lib/supabase/conversions-client'
+import { MAX_REPORT_CONVERSIONS } from '@/lib/services/report'
+import { ConsolidatedReport } from '@/lib/supabase/types'
+import { toast } from 'sonner'
+
+interface SelectableConversion {
+  id: string
+  original_filename: string
+  created_at: string
+  total_rows: number
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(amount)
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  })
+}
+
+function ReportBuilder() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const { user } = useAuth()
+
+  const idsParam = searchParams.get('ids') || ''
+
+  const [available, setAvailable] = useState<SelectableConversion[]>([])
+  const [selected, setSelected] = useState<string[]>(() => idsParam.split(',').filter(Boolean))
+  const [report, setReport] = useState<ConsolidatedReport | null>(null)
+  const [loadingReport, setLoadingReport] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [isDownloading, setIsDownloading] = useState(false)
+
+  useEffect(() => {
+    if (!user) return
+
+    getCompletedConversions(user.id)
+      .then(setAvailable)
+      .catch(err => {
+        console.error('Error fetching conversions:', err)
+        toast.error('Failed to load your conversions')
+      })
+  }, [user])
+
+  // The report follows the `ids` in the URL so it can be bookmarked and shared with the same account
+  useEffect(() => {
+    if (!user || !idsParam) {
+      setReport(null)
+      return
+    }
+
+    const fetchReport = async () => {
+      try {
+        setLoadingReport(true)
+        setError(null)
+        const response = await fetch(`/api/reports?ids=${encodeURIComponent(idsParam)}`)
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}))
+          throw new Error(errorData.message || 'Failed to build report')
+        }
+
+        setReport(await response.json())
+      } catch (err) {
+        console.error('Error building report:', err)
+        setReport(null)
+        setError(err instanceof Error ? err.message : 'Failed to build report')
+      } finally {
+        setLoadingReport(false)
+      }
+    }
+
+    fetchReport()
+  }, [user, idsParam])
+
+  const toggleConversion = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id])
+  }
+
+  const handleBuild = () => {
+    router.replace(`/dashboard/reports?ids=${selected.join(',')}`)
+  }
+
+  const handleDownload = async () => {
+    try {
+      setIsDownloading(true)
+      const response = await fetch(`/api/reports?ids=${encodeURIComponent(idsParam)}&format=xlsx`)
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.message || 'Download failed')
+      }
+
+      const contentDisposition = response.headers.get('content-disposition')
+      const filenameMatch = contentDisposition?.match(/filename[^;=\n]*=((['"]).*?\2|[^;\n]*)/)
+      const filename = filenameMatch?.[1]?.replace(/['"]/g, '') || 'laporan-gabungan.xlsx'
+
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = filename
+      a.style.display = 'none'
+
+      document.body.appendChild(a)
+      a.click()
+
+      setTimeout(() => {
+        window.URL.revokeObjectURL(url)
+        document.body.removeChild(a)
+      }, 100)
+
+      toast.success('Report downloaded successfully')
+    } catch (err) {
+      console.error('Report download error:', err)
+      toast.error(err instanceof Error ? err.message : 'Download failed')
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <Link href="/dashboard">
+                <Button variant="ghost" size="sm">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to Dashboard
+                </Button>
+              </Link>
+
+              <div className="flex items-center space-x-2">
+                <BarChart3 className="h-5 w-5 text-blue-600" />
+                <h1 className="text-2xl font-bold text-gray-900">Consolidated Report</h1>
+              </div>
+            </div>
+
+            {report && (
+              <Button onClick={handleDownload} disabled={isDownloading}>
+                {isDownloading ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Download className="h-4 w-4 mr-2" />
+                )}
+                Download Excel
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {/* Conversion Selection */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          <Card>
+            <CardHeader>
+              <CardTitle>Select Conversions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {available.length === 0 ? (
+                <p className="text-sm text-gray-600">
+                  Completed conversions will appear here.
+                </p>
+              ) : (
+                <div className="max-h-72 overflow-y-auto divide-y border rounded-lg">
+                  {available.map(conversion => (
+                    <label
+                      key={conversion.id}
+                      className="flex items-center space-x-3 px-4 py-3 cursor-pointer hover:bg-gray-50"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(conversion.id)}
+                        onChange={() => toggleConversion(conversion.id)}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                      <FileText className="h-5 w-5 text-red-600 flex-shrink-0" />
+                      <span className="flex-1 text-sm font-medium truncate">{conversion.original_filename}</span>
+                      <span className="text-xs text-gray-500">{conversion.total_rows || 0} rows</span>
+                      <span className="text-xs text-gray-500 w-28 text-right">{formatDate(conversion.created_at)}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-center justify-between mt-4">
+                <p className="text-sm text-gray-600">
+                  {selected.length} selected (up to {MAX_REPORT_CONVERSIONS})
+                </p>
+                <Button
+                  onClick={handleBuild}
+                  disabled={selected.length === 0 || selected.length > MAX_REPORT_CONVERSIONS || loadingReport}
+                >
+                  {loadingReport && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Build Report
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {report && (
+          <>
+            {report.skipped.length > 0 && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  Left out of the report: {report.skipped.map(s => `${s.fileName || s.conversionId} (${s.reason})`).join(', ')}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* Totals */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.1 }}
+            >
+              <Card>
+                <CardHeader>
+                  <CardTitle>Totals</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 lg:grid-cols-5 gap-6">
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Files</label>
+                      <p className="text-lg font-semibold">{report.sources.length}</p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Companies (NPWP)</label>
+                      <p className="text-lg font-semibold">{report.totals.companies}</p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Transactions</label>
+                      <p className="text-lg font-semibold">{report.totals.transactions}</p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Total Rupiah</label>
+                      <p className="text-lg font-semibold">{formatCurrency(report.totals.rupiah)}</p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Total Pajak</label>
+                      <p className="text-lg font-semibold">{formatCurrency(report.totals.pajakPenghasilan)}</p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            </motion.div>
+
+            {/* Per NPWP and Jenis */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.15 }}
+            >
+              <Card>
+                <CardHeader>
+                  <CardTitle>Per NPWP and Jenis Penghasilan</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>NPWP</TableHead>
+                        <TableHead>Nama</TableHead>
+                        <TableHead>Jenis Penghasilan</TableHead>
+                        <TableHead className="text-right">Transactions</TableHead>
+                        <TableHead className="text-right">Rupiah</TableHead>
+                        <TableHead className="text-right">Pajak</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.breakdown.map(row => (
+                        <TableRow key={`${row.npwp || row.nama}-${row.jenisPenghasilan}`}>
+                          <TableCell className="font-mono text-xs">{row.npwp || '-'}</TableCell>
+                          <TableCell>{row.nama}</TableCell>
+                          <TableCell>{row.jenisPenghasilan}</TableCell>
+                          <TableCell className="text-right">{row.transactionCount}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.rupiah)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.pajakPenghasilan)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </motion.div>
+
+            {/* Merged Data */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.2 }}
+            >
+              <ConversionDetailView
+                summaries={report.summaries}
+                transactionData={report.transactions}
+              />
+            </motion.div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function ReportsPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    }>
+      <ReportBuilder />
+    </Suspense>
+  )
+}
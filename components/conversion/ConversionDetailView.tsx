@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useMemo } from 'react'
+import { useState, useMemo, ReactNode } from 'react'
 import { motion } from 'framer-motion'
 import { 
   Building2, 
@@ -20,7 +20,9 @@ import {
   BarChart3,
   PieChart,
   Receipt,
-  Users
+  Users,
+  AlertTriangle,
+  Crosshair
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -42,21 +44,33 @@ import {
 } from '@/components/ui/dropdown-menu'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Progress } from '@/components/ui/progress'
-import { CompanySummary, TransactionData } from '@/lib/supabase/types'
+import { CompanySummary, TransactionData, ExportFormat, ExportOptions, EditableTransactionField } from '@/lib/supabase/types'
+import { checkNpwp, normalizeNpwp, NPWP_ISSUE_MESSAGES } from '@/lib/validation/npwp'
+import { EditableCell } from './EditableCell'
 import { cn } from '@/lib/utils'
 
 interface ConversionDetailViewProps {
   summaries: CompanySummary[]
   transactionData: TransactionData[]
   className?: string
-  onExport?: (format: 'csv' | 'excel') => void
+  onExport?: (format: ExportFormat, options?: ExportOptions) => void
+  // When set, transaction cells can be edited inline; resolves to false if the change was rejected
+  onEditTransaction?: (row: number, field: EditableTransactionField, value: string) => Promise<boolean>
+  editedCells?: Set<string> // `${row}:${field}` of manually edited cells
+  // When set, rows with PDF provenance get a button that locates them in the original document
+  onViewSource?: (row: number) => void
+  selectedRow?: number | null
 }
 
 export function ConversionDetailView({
   summaries,
   transactionData,
   className,
-  onExport
+  onExport,
+  onEditTransaction,
+  editedCells,
+  onViewSource,
+  selectedRow
 }: ConversionDetailViewProps) {
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedCompany, setSelectedCompany] = useState<string | null>(null)
@@ -65,6 +79,7 @@ export function ConversionDetailView({
   const [sortBy, setSortBy] = useState<'name' | 'totalTax' | 'transactionCount'>('totalTax')
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
   const [viewMode, setViewMode] = useState<'grid' | 'table'>('grid')
+  const [invalidNpwpOnly, setInvalidNpwpOnly] = useState(false)
   
   const itemsPerPage = 20
 
@@ -114,12 +129,23 @@ export function ConversionDetailView({
     })
   }, [summaries, transactionData, searchTerm, sortBy, sortOrder])
 
+  const npwpChecks = useMemo(
+    () => new Map(transactionData.map(transaction => [transaction, checkNpwp(transaction.npwp)])),
+    [transactionData]
+  )
+  const invalidNpwpCount = Array.from(npwpChecks.values()).filter(check => !check.valid).length
+
+  // NPWP searches match on digits so formatted and unformatted input both work
+  const searchDigits = normalizeNpwp(searchTerm)
+
   const filteredTransactions = transactionData.filter(transaction => {
     const matchesSearch = transaction.nama.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          transaction.npwp.includes(searchTerm) ||
+                         (searchDigits !== '' && normalizeNpwp(transaction.npwp).includes(searchDigits)) ||
                          transaction.jenis_penghasilan.toLowerCase().includes(searchTerm.toLowerCase())
     const matchesCompany = !selectedCompany || transaction.nama === selectedCompany
-    return matchesSearch && matchesCompany
+    const matchesNpwp = !invalidNpwpOnly || !npwpChecks.get(transaction)?.valid
+    return matchesSearch && matchesCompany && matchesNpwp
   })
 
   // Pagination
@@ -176,6 +202,27 @@ export function ConversionDetailView({
     return amount.toString()
   }
 
+  const renderEditable = (
+    transaction: TransactionData,
+    field: EditableTransactionField,
+    display: ReactNode
+  ) => {
+    if (!onEditTransaction) return display
+
+    const row = transactionData.indexOf(transaction)
+    const isAmount = field === 'rupiah' || field === 'pajak_penghasilan'
+    return (
+      <EditableCell
+        // Amounts are edited in Indonesian notation, matching how they are parsed
+        value={isAmount ? String(transaction[field]).replace('.', ',') : transaction[field]}
+        display={display}
+        edited={editedCells?.has(`${row}:${field}`)}
+        inputMode={isAmount ? 'decimal' : 'text'}
+        onSave={value => onEditTransaction(row, field, value)}
+      />
+    )
+  }
+
   const getCompanyRank = (taxAmount: number) => {
     const sortedAmounts = summaries
       .map(s => s.json.totalPajak)
@@ -261,6 +308,11 @@ export function ConversionDetailView({
                   <div>
                     <p className="text-3xl font-bold text-gray-900">{stats.totalTransactions}</p>
                     <p className="text-sm font-medium text-gray-600">Transactions</p>
+                    {invalidNpwpCount > 0 && (
+                      <p className="text-xs text-red-600 font-medium">
+                        {invalidNpwpCount} invalid NPWP
+                      </p>
+                    )}
                   </div>
                 </div>
                 <FileText className="h-8 w-8 text-purple-200" />
@@ -353,11 +405,20 @@ export function ConversionDetailView({
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent>
+                <DropdownMenuItem onClick={() => onExport('xlsx')}>
+                  Export as Excel (.xlsx)
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onExport('ods')}>
+                  Export as OpenDocument (.ods)
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={() => onExport('csv')}>
                   Export as CSV
                 </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => onExport('excel')}>
-                  Export as Excel
+                <DropdownMenuItem onClick={() => onExport('csv', { decimalFormat: 'id' })}>
+                  Export as CSV (Indonesian format)
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onExport('json')}>
+                  Export as JSON
                 </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
@@ -580,15 +641,30 @@ export function ConversionDetailView({
                 <span>Transaction Details</span>
                 <Badge variant="secondary">{filteredTransactions.length} transactions</Badge>
               </CardTitle>
-              {selectedCompany && (
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setSelectedCompany(null)}
-                >
-                  Show All Companies
-                </Button>
-              )}
+              <div className="flex items-center space-x-2">
+                {invalidNpwpCount > 0 && (
+                  <Button
+                    variant={invalidNpwpOnly ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => {
+                      setInvalidNpwpOnly(!invalidNpwpOnly)
+                      setCurrentPage(1)
+                    }}
+                  >
+                    <AlertTriangle className="h-4 w-4 mr-2" />
+                    {invalidNpwpCount} invalid NPWP
+                  </Button>
+                )}
+                {selectedCompany && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setSelectedCompany(null)}
+                  >
+                    Show All Companies
+                  </Button>
+                )}
+              </div>
             </CardHeader>
             <CardContent>
               <div className="overflow-x-auto">
@@ -603,35 +679,71 @@ export function ConversionDetailView({
                       <TableHead className="text-right">Tax</TableHead>
                       <TableHead>Document No</TableHead>
                       <TableHead>Date</TableHead>
+                      {onViewSource && <TableHead>Source</TableHead>}
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {paginatedTransactions.map((transaction, index) => (
-                      <TableRow 
-                        key={`${transaction.nomor}-${index}`}
-                        className={cn(
-                          'hover:bg-gray-50',
-                          selectedCompany === transaction.nama && 'bg-blue-50'
-                        )}
-                      >
-                        <TableCell className="font-medium">{transaction.no}</TableCell>
-                        <TableCell className="max-w-[200px] truncate" title={transaction.nama}>
-                          {transaction.nama}
-                        </TableCell>
-                        <TableCell className="font-mono text-sm">{transaction.npwp}</TableCell>
-                        <TableCell className="max-w-[150px] truncate" title={transaction.jenis_penghasilan}>
-                          {transaction.jenis_penghasilan}
-                        </TableCell>
-                        <TableCell className="text-right font-medium">
-                          {formatCurrency(transaction.rupiah)}
-                        </TableCell>
-                        <TableCell className="text-right font-medium text-green-600">
-                          {formatCurrency(transaction.pajak_penghasilan)}
-                        </TableCell>
-                        <TableCell className="font-mono text-sm">{transaction.nomor}</TableCell>
-                        <TableCell>{formatDate(transaction.tanggal)}</TableCell>
-                      </TableRow>
-                    ))}
+                    {paginatedTransactions.map((transaction, index) => {
+                      const npwp = npwpChecks.get(transaction) ?? checkNpwp(transaction.npwp)
+                      const row = transactionData.indexOf(transaction)
+                      return (
+                        <TableRow 
+                          key={`${transaction.nomor}-${index}`}
+                          className={cn(
+                            'hover:bg-gray-50',
+                            selectedCompany === transaction.nama && 'bg-blue-50',
+                            selectedRow === row && 'bg-amber-50 hover:bg-amber-50'
+                          )}
+                        >
+                          <TableCell className="font-medium">{transaction.no}</TableCell>
+                          <TableCell className="max-w-[200px] truncate" title={transaction.nama}>
+                            {renderEditable(transaction, 'nama', transaction.nama)}
+                          </TableCell>
+                          <TableCell
+                            className={cn('font-mono text-sm', npwp.issue && 'text-red-600')}
+                            title={npwp.issue ? NPWP_ISSUE_MESSAGES[npwp.issue] : undefined}
+                          >
+                            {renderEditable(transaction, 'npwp', (
+                              <span className="inline-flex items-center">
+                                {npwp.issue && <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />}
+                                {npwp.formatted || '-'}
+                              </span>
+                            ))}
+                          </TableCell>
+                          <TableCell className="max-w-[150px] truncate" title={transaction.jenis_penghasilan}>
+                            {renderEditable(transaction, 'jenis_penghasilan', transaction.jenis_penghasilan)}
+                          </TableCell>
+                          <TableCell className="text-right font-medium">
+                            {renderEditable(transaction, 'rupiah', formatCurrency(transaction.rupiah))}
+                          </TableCell>
+                          <TableCell className="text-right font-medium text-green-600">
+                            {renderEditable(transaction, 'pajak_penghasilan', formatCurrency(transaction.pajak_penghasilan))}
+                          </TableCell>
+                          <TableCell className="font-mono text-sm">
+                            {renderEditable(transaction, 'nomor', transaction.nomor)}
+                          </TableCell>
+                          <TableCell>{renderEditable(transaction, 'tanggal', formatDate(transaction.tanggal))}</TableCell>
+                          {onViewSource && (
+                            <TableCell>
+                              {transaction.source ? (
+                                <Button
+                                  variant={selectedRow === row ? 'default' : 'ghost'}
+                                  size="sm"
+                                  className="h-7 px-2"
+                                  title="Show this row in the original PDF"
+                                  onClick={() => onViewSource(row)}
+                                >
+                                  <Crosshair className="h-3 w-3 mr-1" />
+                                  p. {transaction.source.page}
+                                </Button>
+                              ) : (
+                                <span className="text-gray-400">-</span>
+                              )}
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      )
+                    })}
                   </TableBody>
                 </Table>
               </div>
@@ -23,7 +23,9 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import type { ConversionStatus as Status, CompanySummary, TransactionData } from '@/lib/supabase/types'
+import type { ConversionStatus as Status, CompanySummary, ConversionProgress, ProgressStage, TransactionData } from '@/lib/supabase/types'
+import { PROGRESS_STAGES, getStageIndex } from '@/lib/services/conversion-progress'
+import { useConversionRealtime } from '@/hooks/useConversionRealtime'
 import { cn } from '@/lib/utils'
 
 interface ConversionStatusProps {
@@ -36,14 +38,6 @@ interface ConversionStatusProps {
   autoRefresh?: boolean
 }
 
-interface ProcessingStage {
-  id: string
-  name: string
-  description: string
-  icon: typeof FileText
-  duration: number // estimated duration in ms
-}
-
 interface ConversionData {
   id: string
   status: Status
@@ -59,42 +53,26 @@ interface ConversionData {
   tablesExtracted?: number
   totalRows?: number
   currentStage?: string
+  progressMessage?: string | null
   retryCount?: number
   summaries?: CompanySummary[]
   transactionData?: TransactionData[]
 }
 
-// Processing stages for better UX feedback
-const PROCESSING_STAGES: ProcessingStage[] = [
-  {
-    id: 'upload',
-    name: 'File Upload',
-    description: 'Uploading and validating PDF file',
-    icon: FileText,
-    duration: 2000
-  },
-  {
-    id: 'parsing',
-    name: 'PDF Parsing',
-    description: 'Extracting content from PDF',
-    icon: Search,
-    duration: 8000
-  },
-  {
-    id: 'extraction',
-    name: 'Data Extraction',
-    description: 'Identifying and extracting tables',
-    icon: Table,
-    duration: 15000
-  },
-  {
-    id: 'formatting',
-    name: 'Excel Formatting',
-    description: 'Creating formatted spreadsheet',
-    icon: FileOutput,
-    duration: 5000
-  }
-]
+// Icons for the progress stages reported by the processing backend
+const STAGE_ICONS: Record<ProgressStage, typeof FileText> = {
+  validation: FileText,
+  pdf_parse: Search,
+  ai_extraction: Table,
+  sheet_population: FileOutput
+}
+
+// Event pushed by /api/status/[id]/stream
+interface ProgressEvent extends ConversionProgress {
+  conversionId: string
+  status: Status
+  error: string | null
+}
 
 const statusConfig = {
   pending: {
@@ -148,21 +126,22 @@ export function ConversionStatus({
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isRefreshing, setIsRefreshing] = useState(false)
-  const [currentStageIndex, setCurrentStageIndex] = useState(0)
+  const [progress, setProgress] = useState<ProgressEvent | null>(null)
   const [isDownloading, setIsDownloading] = useState(false)
   const [retryAttempts, setRetryAttempts] = useState(0)
   
   const intervalRef = useRef<NodeJS.Timeout | null>(null)
-  const stageTimerRef = useRef<NodeJS.Timeout | null>(null)
   const mountedRef = useRef(true)
 
+  // Row changes arrive over realtime; polling below only runs while the channel is down
+  const { isRealtimeConnected, lastChangeAt } = useConversionRealtime(conversionId)
+
   // Cleanup function
   useEffect(() => {
     mountedRef.current = true
     return () => {
       mountedRef.current = false
       if (intervalRef.current) clearInterval(intervalRef.current)
-      if (stageTimerRef.current) clearTimeout(stageTimerRef.current)
     }
   }, [])
 
@@ -224,6 +203,14 @@ export function ConversionStatus({
     }
   }, [conversionId, onStatusChange])
 
+  // Re-read the formatted status whenever realtime reports a change to this conversion
+  const fetchStatusRef = useRef(fetchStatus)
+  fetchStatusRef.current = fetchStatus
+
+  useEffect(() => {
+    if (lastChangeAt) fetchStatusRef.current()
+  }, [lastChangeAt])
+
   // Enhanced polling logic with smart intervals
   useEffect(() => {
     if (!autoRefresh) return
@@ -233,6 +220,7 @@ export function ConversionStatus({
       
       const status = conversion?.status
       if (!status || status === 'completed' || status === 'failed') return
+      if (isRealtimeConnected) return
       
       const interval = getPollingInterval(status, retryAttempts)
       if (!interval) return
@@ -253,40 +241,36 @@ export function ConversionStatus({
     return () => {
       if (intervalRef.current) clearInterval(intervalRef.current)
     }
-  }, [conversionId, conversion?.status, retryAttempts, autoRefresh, fetchStatus, getPollingInterval])
+  }, [conversionId, conversion?.status, retryAttempts, autoRefresh, isRealtimeConnected, fetchStatus, getPollingInterval])
+
+  // Stream stage-level progress while the conversion is in flight
+  const isInFlight = conversion?.status === 'pending' || conversion?.status === 'processing'
 
-  // Stage progression simulation for better UX
   useEffect(() => {
-    if (conversion?.status === 'processing') {
-      const totalDuration = PROCESSING_STAGES.reduce((sum, stage) => sum + stage.duration, 0)
-      let elapsed = 0
-      
-      const progressStage = () => {
-        if (!mountedRef.current || conversion?.status !== 'processing') return
-        
-        const currentStage = PROCESSING_STAGES[currentStageIndex]
-        if (!currentStage) return
-        
-        elapsed += 1000
-        const stageProgress = Math.min((elapsed / currentStage.duration) * 100, 100)
-        
-        if (stageProgress >= 100 && currentStageIndex < PROCESSING_STAGES.length - 1) {
-          setCurrentStageIndex(prev => prev + 1)
-          elapsed = 0
-        }
-        
-        stageTimerRef.current = setTimeout(progressStage, 1000)
-      }
-      
-      progressStage()
-      
-      return () => {
-        if (stageTimerRef.current) clearTimeout(stageTimerRef.current)
+    if (!isInFlight || typeof EventSource === 'undefined') return
+
+    const source = new EventSource(`/api/status/${conversionId}/stream`)
+    let lastStatus: Status | null = null
+
+    source.addEventListener('progress', (message) => {
+      if (!mountedRef.current) return
+
+      const event: ProgressEvent = JSON.parse((message as MessageEvent).data)
+      setProgress(event)
+
+      // The stream ends on completion; close before EventSource tries to reconnect
+      const isFinished = event.status === 'completed' || event.status === 'failed'
+      if (isFinished) source.close()
+
+      // Load the full record (download URL, summaries) from the status endpoint when the status moves
+      if (isFinished || (lastStatus && event.status !== lastStatus)) {
+        fetchStatusRef.current()
       }
-    } else {
-      setCurrentStageIndex(0)
-    }
-  }, [conversion?.status, currentStageIndex])
+      lastStatus = event.status
+    })
+
+    return () => source.close()
+  }, [conversionId, isInFlight])
 
   const handleDownload = useCallback(async () => {
     if (conversion?.status !== 'completed' || isDownloading) return
@@ -378,63 +362,86 @@ export function ConversionStatus({
     return `About ${minutes} minute${minutes > 1 ? 's' : ''} remaining`
   }, [conversion])
 
-  const getCurrentStage = useCallback(() => {
-    if (conversion?.status !== 'processing') return null
-    return PROCESSING_STAGES[currentStageIndex] || PROCESSING_STAGES[0]
-  }, [conversion?.status, currentStageIndex])
-
-  // Processing stages component
-  const ProcessingStages = ({ currentIndex }: { currentIndex: number }) => (
-    <div className="space-y-3">
-      <div className="text-sm font-medium text-gray-700 mb-2">Processing Steps:</div>
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-        {PROCESSING_STAGES.map((stage, index) => {
-          const Icon = stage.icon
-          const isActive = index === currentIndex
-          const isCompleted = index < currentIndex
-          const isUpcoming = index > currentIndex
-          
-          return (
-            <motion.div
-              key={stage.id}
-              initial={{ opacity: 0, scale: 0.8 }}
-              animate={{ opacity: 1, scale: 1 }}
-              transition={{ delay: index * 0.1 }}
-              className={cn(
-                'flex flex-col items-center p-2 rounded-lg border text-center',
-                isActive && 'border-blue-200 bg-blue-50',
-                isCompleted && 'border-green-200 bg-green-50',
-                isUpcoming && 'border-gray-200 bg-gray-50'
-              )}
-            >
-              <Icon className={cn(
-                'h-5 w-5 mb-1',
-                isActive && 'text-blue-600 animate-pulse',
-                isCompleted && 'text-green-600',
-                isUpcoming && 'text-gray-400'
-              )} />
-              <span className={cn(
-                'text-xs font-medium',
-                isActive && 'text-blue-700',
-                isCompleted && 'text-green-700',
-                isUpcoming && 'text-gray-500'
-              )}>
-                {stage.name}
-              </span>
-              {isActive && (
-                <div className="text-xs text-blue-600 mt-1">
-                  Processing...
+  // Live progress from the stream, falling back to the last status response
+  const currentProgress: ConversionProgress | null = progress ?? (conversion?.currentStage && conversion.currentStage in STAGE_ICONS
+    ? { stage: conversion.currentStage as ProgressStage, percent: conversion.progress, message: conversion.progressMessage ?? null }
+    : null)
+
+  const getCurrentStage = () => {
+    if (conversion?.status !== 'processing' || !currentProgress) return null
+    const stage = PROGRESS_STAGES[getStageIndex(currentProgress.stage)]
+    return { ...stage, description: currentProgress.message || stage.description }
+  }
+
+  // Processing stages stepper
+  const ProcessingStages = ({ current, failed = false }: { current: ConversionProgress, failed?: boolean }) => {
+    const currentIndex = getStageIndex(current.stage)
+
+    return (
+      <div className="space-y-3">
+        <div className="text-sm font-medium text-gray-700 mb-2">Processing Steps:</div>
+        <ol className="flex items-start">
+          {PROGRESS_STAGES.map((stage, index) => {
+            const Icon = STAGE_ICONS[stage.id]
+            const isActive = index === currentIndex
+            const isCompleted = index < currentIndex
+            const isUpcoming = index > currentIndex
+            const isFailed = failed && isActive
+
+            return (
+              <motion.li
+                key={stage.id}
+                initial={{ opacity: 0, scale: 0.8 }}
+                animate={{ opacity: 1, scale: 1 }}
+                transition={{ delay: index * 0.1 }}
+                className="relative flex flex-1 flex-col items-center text-center"
+              >
+                {index > 0 && (
+                  <div className={cn(
+                    'absolute top-4 right-1/2 w-full h-0.5 -translate-y-1/2',
+                    isCompleted || isActive ? 'bg-green-300' : 'bg-gray-200'
+                  )} />
+                )}
+                <div className={cn(
+                  'relative z-10 flex items-center justify-center w-8 h-8 rounded-full border-2 bg-white',
+                  isActive && !isFailed && 'border-blue-500',
+                  isFailed && 'border-red-500',
+                  isCompleted && 'border-green-500 bg-green-50',
+                  isUpcoming && 'border-gray-200'
+                )}>
+                  {isCompleted ? (
+                    <CheckCircle className="h-4 w-4 text-green-600" />
+                  ) : isFailed ? (
+                    <AlertCircle className="h-4 w-4 text-red-600" />
+                  ) : (
+                    <Icon className={cn(
+                      'h-4 w-4',
+                      isActive && 'text-blue-600 animate-pulse',
+                      isUpcoming && 'text-gray-400'
+                    )} />
+                  )}
                 </div>
-              )}
-              {isCompleted && (
-                <CheckCircle className="h-3 w-3 text-green-600 mt-1" />
-              )}
-            </motion.div>
-          )
-        })}
+                <span className={cn(
+                  'text-xs font-medium mt-1',
+                  isActive && !isFailed && 'text-blue-700',
+                  isFailed && 'text-red-700',
+                  isCompleted && 'text-green-700',
+                  isUpcoming && 'text-gray-500'
+                )}>
+                  {stage.label}
+                </span>
+                {isActive && !isFailed && (
+                  <div className="text-xs text-blue-600 mt-1 px-1">
+                    {current.message || 'Processing...'}
+                  </div>
+                )}
+              </motion.li>
+            )
+          })}
+        </ol>
       </div>
-    </div>
-  )
+    )
+  }
 
   if (loading) {
     return (
@@ -572,19 +579,22 @@ export function ConversionStatus({
                 <div className="space-y-2">
                   <div className="flex justify-between items-center text-sm">
                     <span className="text-gray-600">
-                      {conversion.progress}% complete
+                      {currentProgress?.percent ?? conversion.progress}% complete
                     </span>
                     {estimatedTime && (
                       <span className="text-blue-600">{estimatedTime}</span>
                     )}
                   </div>
-                  <Progress value={conversion.progress} className="h-2" />
+                  <Progress value={currentProgress?.percent ?? conversion.progress} className="h-2" />
                 </div>
               )}
               
               {/* Processing stages */}
-              {conversion.status === 'processing' && showDetails && (
-                <ProcessingStages currentIndex={currentStageIndex} />
+              {conversion.status === 'processing' && showDetails && currentProgress && (
+                <ProcessingStages current={currentProgress} />
+              )}
+              {conversion.status === 'failed' && showDetails && progress?.status === 'failed' && (
+                <ProcessingStages current={progress} failed />
               )}
               
               {/* Error handling */}
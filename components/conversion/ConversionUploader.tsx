@@ -3,7 +3,8 @@
 import { useCallback, useState } from 'react'
 import { useDropzone } from 'react-dropzone'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Upload, FileText, AlertCircle, X, CheckCircle } from 'lucide-react'
+import { Upload, FileText, AlertCircle, X, CheckCircle, Layers } from 'lucide-react'
+import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Alert, AlertDescription } from '@/components/ui/alert'
@@ -11,11 +12,13 @@ import { Progress } from '@/components/ui/progress'
 import { Label } from '@/components/ui/label'
 import { useAuth, useCredits, useSubscription } from '@/lib/auth/context'
 import { cn } from '@/lib/utils'
-import { DocumentType } from '@/lib/supabase/types'
+import { ARCHIVE_LIMITS, getBatchFileLimit, isArchiveFile } from '@/lib/services/batches'
+import { BatchConversionResponse, DocumentType } from '@/lib/supabase/types'
 
 interface ConversionUploaderProps {
   onUploadStart?: (file: File) => void
   onUploadComplete?: (conversionId: string) => void
+  onBatchCreated?: (batchId: string) => void
   onUploadError?: (error: string) => void
   className?: string
 }
@@ -26,25 +29,29 @@ interface UploadedFile {
   status: 'pending' | 'uploading' | 'success' | 'error'
   progress: number
   error?: string
+  // Entries of an uploaded ZIP that were skipped
+  warning?: string
   conversionId?: string
 }
 
 export function ConversionUploader({
   onUploadStart,
   onUploadComplete,
+  onBatchCreated,
   onUploadError,
   className
 }: ConversionUploaderProps) {
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([])
   const [isUploading, setIsUploading] = useState(false)
   const [documentType, setDocumentType] = useState<DocumentType>('spt')
+  const [batchId, setBatchId] = useState<string | null>(null)
   
   const { user } = useAuth()
   const { hasCredits, creditsRemaining } = useCredits()
   const { getMaxFileSize, subscriptionTier } = useSubscription()
   
   const maxFileSize = getMaxFileSize() * 1024 * 1024 // Convert MB to bytes
-  const maxFiles = subscriptionTier === 'free' ? 1 : subscriptionTier === 'pro' ? 5 : 10
+  const maxFiles = getBatchFileLimit(subscriptionTier)
 
   const onDrop = useCallback((acceptedFiles: File[], rejectedFiles: any[]) => {
     // Handle rejected files
@@ -53,9 +60,9 @@ export function ConversionUploader({
         const errorMessages = errors.map((e: any) => {
           switch (e.code) {
             case 'file-too-large':
-              return `File "${file.name}" is too large. Maximum size is ${getMaxFileSize()}MB.`
+              return `File "${file.name}" is too large. Maximum size is ${isArchiveFile(file) ? ARCHIVE_LIMITS.maxArchiveSize / 1024 / 1024 : getMaxFileSize()}MB.`
             case 'file-invalid-type':
-              return `File "${file.name}" is not a PDF file.`
+              return `File "${file.name}" is not a PDF or ZIP file.`
             case 'too-many-files':
               return `Too many files. Maximum ${maxFiles} files allowed.`
             default:
@@ -90,6 +97,13 @@ export function ConversionUploader({
   }, [hasCredits, creditsRemaining, getMaxFileSize, maxFiles, onUploadError])
 
   const uploadFiles = async (files: UploadedFile[]) => {
+    // Several PDFs dropped together go up as one batch; each ZIP becomes a batch on the server
+    const pdfs = files.filter(f => !isArchiveFile(f.file))
+    if (pdfs.length > 1) {
+      await uploadBatch(pdfs)
+      files = files.filter(f => isArchiveFile(f.file))
+    }
+
     setIsUploading(true)
     
     for (const fileData of files) {
@@ -123,10 +137,36 @@ export function ConversionUploader({
 
         if (!response.ok) {
           const errorData = await response.json()
-          throw new Error(errorData.error || 'Upload failed')
+          throw new Error(errorData.message || errorData.error || 'Upload failed')
         }
 
         const result = await response.json()
+
+        // ZIP uploads come back as a batch of conversions
+        if (result.batchId) {
+          const batch = result as BatchConversionResponse
+          const skipped = batch.rejected ?? []
+
+          setUploadedFiles(prev =>
+            prev.map(f =>
+              f.file === fileData.file
+                ? {
+                    ...f,
+                    status: 'success',
+                    progress: 100,
+                    warning: skipped.length > 0
+                      ? `Skipped ${skipped.map(entry => `${entry.fileName} (${entry.reason})`).join(', ')}`
+                      : undefined
+                  }
+                : f
+            )
+          )
+
+          setBatchId(batch.batchId)
+          batch.conversions.forEach(conversion => onUploadComplete?.(conversion.conversionId))
+          onBatchCreated?.(batch.batchId)
+          continue
+        }
         
         // Update status to success
         setUploadedFiles(prev => 
@@ -163,6 +203,75 @@ export function ConversionUploader({
     setIsUploading(false)
   }
 
+  // Send all files in one request. The server reserves credits for the whole batch and
+  // rejects it as a whole, so every file shares the same outcome until processing starts.
+  const uploadBatch = async (files: UploadedFile[]) => {
+    setIsUploading(true)
+
+    const batchFiles = files.map(f => f.file)
+    setUploadedFiles(prev =>
+      prev.map(f =>
+        batchFiles.includes(f.file)
+          ? { ...f, status: 'uploading', progress: 0 }
+          : f
+      )
+    )
+    batchFiles.forEach(file => onUploadStart?.(file))
+
+    try {
+      const formData = new FormData()
+      batchFiles.forEach(file => formData.append('files', file))
+      formData.append('documentType', documentType)
+
+      const response = await fetch('/api/convert/batch', {
+        method: 'POST',
+        body: formData,
+        headers: {
+          'Accept': 'application/json'
+        }
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.message || errorData.error || 'Upload failed')
+      }
+
+      const result: BatchConversionResponse = await response.json()
+
+      // Conversions come back in the order the files were sent
+      setUploadedFiles(prev =>
+        prev.map(f => {
+          const index = batchFiles.indexOf(f.file)
+          const conversion = result.conversions[index]
+          if (!conversion) return f
+
+          return conversion.status === 'failed'
+            ? { ...f, status: 'error', error: 'Processing failed. The credit for this file was refunded.', conversionId: conversion.conversionId }
+            : { ...f, status: 'success', progress: 100, conversionId: conversion.conversionId }
+        })
+      )
+
+      setBatchId(result.batchId)
+      result.conversions.forEach(conversion => onUploadComplete?.(conversion.conversionId))
+      onBatchCreated?.(result.batchId)
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Upload failed'
+
+      setUploadedFiles(prev =>
+        prev.map(f =>
+          batchFiles.includes(f.file)
+            ? { ...f, status: 'error', error: errorMessage }
+            : f
+        )
+      )
+
+      onUploadError?.(errorMessage)
+    }
+
+    setIsUploading(false)
+  }
+
   const removeFile = (fileToRemove: UploadedFile) => {
     setUploadedFiles(prev => {
       const updated = prev.filter(f => f.file !== fileToRemove.file)
@@ -174,9 +283,17 @@ export function ConversionUploader({
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      'application/pdf': ['.pdf']
+      'application/pdf': ['.pdf'],
+      'application/zip': ['.zip'],
+      'application/x-zip-compressed': ['.zip']
+    },
+    // ZIP archives have their own size limit, so sizes are checked here rather than with maxSize
+    validator: (file: File) => {
+      const limit = isArchiveFile(file) ? ARCHIVE_LIMITS.maxArchiveSize : maxFileSize
+      return file.size > limit
+        ? { code: 'file-too-large', message: `File is larger than ${limit / 1024 / 1024}MB` }
+        : null
     },
-    maxSize: maxFileSize,
     maxFiles: maxFiles - uploadedFiles.length,
     disabled: isUploading || uploadedFiles.length >= maxFiles
   })
@@ -274,7 +391,7 @@ export function ConversionUploader({
             </h3>
             
             <p className="text-gray-600 mb-4">
-              Drag & drop your PDF files here, or click to browse
+              Drag & drop your PDF files or a ZIP of PDFs here, or click to browse
             </p>
             
             <div className="text-sm text-gray-500 space-y-1">
@@ -331,6 +448,10 @@ export function ConversionUploader({
                           </div>
                         )}
                         
+                        {fileData.warning && (
+                          <p className="text-xs text-amber-600 mt-1">{fileData.warning}</p>
+                        )}
+
                         {fileData.status === 'error' && fileData.error && (
                           <Alert variant="destructive" className="mt-2">
                             <AlertCircle className="h-4 w-4" />
@@ -366,6 +487,18 @@ export function ConversionUploader({
           </motion.div>
         )}
       </AnimatePresence>
+
+      {batchId && (
+        <Alert>
+          <Layers className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between">
+            <span>Your files were uploaded as a batch.</span>
+            <Link href={`/dashboard/batch/${batchId}`} className="font-medium text-blue-600 hover:underline">
+              View batch
+            </Link>
+          </AlertDescription>
+        </Alert>
+      )}
     </div>
   )
 }
\ No newline at end of file
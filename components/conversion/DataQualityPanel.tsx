@@ -0,0 +1,115 @@
+'use client'
+
+import { useState } from 'react'
+import { AlertTriangle, CheckCircle, ChevronDown, ChevronUp, ShieldCheck } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import { QualityWarning, QualityWarningType, ReconciliationRow } from '@/lib/supabase/types'
+import { cn } from '@/lib/utils'
+
+interface DataQualityPanelProps {
+  warnings: QualityWarning[]
+  reconciliation?: ReconciliationRow[] | null
+  className?: string
+}
+
+const WARNING_LABELS: Record<QualityWarningType, string> = {
+  sum_mismatch: 'Total mismatch',
+  row_sequence_gap: 'Row numbering',
+  duplicate_nomor: 'Duplicate nomor',
+  negative_amount: 'Negative amount',
+  invalid_tanggal: 'Invalid tanggal',
+  missing_npwp: 'Missing NPWP'
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(amount)
+}
+
+export function DataQualityPanel({ warnings, reconciliation, className }: DataQualityPanelProps) {
+  const [showReconciliation, setShowReconciliation] = useState(false)
+
+  return (
+    <Card className={cn(warnings.length > 0 ? 'border-l-4 border-l-yellow-500' : 'border-l-4 border-l-green-500', className)}>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center space-x-2">
+          <ShieldCheck className="h-5 w-5" />
+          <span>Data Quality</span>
+          {warnings.length > 0 && (
+            <Badge variant="secondary">{warnings.length} warnings</Badge>
+          )}
+        </CardTitle>
+        {reconciliation && reconciliation.length > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowReconciliation(!showReconciliation)}
+          >
+            Reconciliation
+            {showReconciliation ? <ChevronUp className="h-4 w-4 ml-2" /> : <ChevronDown className="h-4 w-4 ml-2" />}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {warnings.length === 0 ? (
+          <div className="flex items-center space-x-2 text-sm text-green-700">
+            <CheckCircle className="h-4 w-4" />
+            <span>All checks passed: company totals match their transactions and no row issues were found.</span>
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {warnings.map((warning, index) => (
+              <li key={`${warning.type}-${index}`} className="flex items-start space-x-3 text-sm">
+                <AlertTriangle className="h-4 w-4 text-yellow-600 mt-0.5 flex-shrink-0" />
+                <Badge variant="outline" className="flex-shrink-0">{WARNING_LABELS[warning.type]}</Badge>
+                <span className="text-gray-700">{warning.message}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {showReconciliation && reconciliation && (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Company</TableHead>
+                  <TableHead className="text-right">Transactions</TableHead>
+                  <TableHead className="text-right">Summary Total</TableHead>
+                  <TableHead className="text-right">Transaction Total</TableHead>
+                  <TableHead className="text-right">Difference</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reconciliation.map(row => (
+                  <TableRow key={row.nama} className={cn(Math.abs(row.difference) >= 1 && 'bg-yellow-50')}>
+                    <TableCell className="max-w-[240px] truncate" title={row.nama}>{row.nama}</TableCell>
+                    <TableCell className="text-right">{row.transactionCount}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.summaryTotal)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.transactionTotal)}</TableCell>
+                    <TableCell className={cn('text-right font-medium', Math.abs(row.difference) >= 1 ? 'text-red-600' : 'text-green-600')}>
+                      {formatCurrency(row.difference)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
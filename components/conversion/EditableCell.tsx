@@ -0,0 +1,83 @@
+'use client'
+
+import { useState, ReactNode, KeyboardEvent } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { cn } from '@/lib/utils'
+
+interface EditableCellProps {
+  value: string | number
+  display?: ReactNode
+  edited?: boolean
+  disabled?: boolean
+  inputMode?: 'text' | 'decimal'
+  // Resolves to false when the value was rejected, keeping the editor open
+  onSave: (value: string) => Promise<boolean>
+}
+
+// Click to edit; Enter or leaving the field saves, Escape cancels
+export function EditableCell({ value, display, edited, disabled, inputMode = 'text', onSave }: EditableCellProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const startEditing = () => {
+    if (disabled) return
+    setDraft(String(value ?? ''))
+    setIsEditing(true)
+  }
+
+  const save = async () => {
+    if (isSaving) return
+    if (draft === String(value ?? '')) {
+      setIsEditing(false)
+      return
+    }
+
+    setIsSaving(true)
+    const saved = await onSave(draft)
+    setIsSaving(false)
+    if (saved) setIsEditing(false)
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      save()
+    } else if (e.key === 'Escape') {
+      setIsEditing(false)
+    }
+  }
+
+  if (isEditing) {
+    return (
+      <div className="flex items-center space-x-1">
+        <Input
+          autoFocus
+          value={draft}
+          inputMode={inputMode}
+          disabled={isSaving}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={save}
+          className="h-8 min-w-[120px] text-sm"
+        />
+        {isSaving && <Loader2 className="h-4 w-4 animate-spin text-gray-400 flex-shrink-0" />}
+      </div>
+    )
+  }
+
+  return (
+    <span
+      onClick={startEditing}
+      title={edited ? 'Edited manually. Click to change.' : disabled ? undefined : 'Click to edit'}
+      className={cn(
+        'inline-flex items-center rounded px-1 -mx-1',
+        !disabled && 'cursor-text hover:bg-yellow-50',
+        edited && 'border-b-2 border-dotted border-blue-400'
+      )}
+    >
+      {display ?? value}
+    </span>
+  )
+}
@@ -0,0 +1,378 @@
+'use client'
+
+import { Fragment, useMemo, useState } from 'react'
+import { motion } from 'framer-motion'
+import {
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+  Download,
+  Package,
+  Receipt,
+  Search,
+  Store,
+  Wallet
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { ExportFormat, ExportOptions, IndomaretInvoice } from '@/lib/supabase/types'
+import { checkInvoiceTotals, describeInvoiceIssue, summarizeInvoices } from '@/lib/services/indomaret'
+import { cn } from '@/lib/utils'
+
+interface IndomaretDetailViewProps {
+  invoices: IndomaretInvoice[]
+  className?: string
+  onExport?: (format: ExportFormat, options?: ExportOptions) => void
+}
+
+export function IndomaretDetailView({ invoices, className, onExport }: IndomaretDetailViewProps) {
+  const [searchTerm, setSearchTerm] = useState('')
+  const [mismatchOnly, setMismatchOnly] = useState(false)
+  const [expanded, setExpanded] = useState<Set<number>>(new Set())
+  const [currentPage, setCurrentPage] = useState(1)
+
+  const itemsPerPage = 20
+
+  const stats = useMemo(() => summarizeInvoices(invoices), [invoices])
+  const totalsIssues = useMemo(
+    () => new Map(invoices.map(invoice => [invoice, checkInvoiceTotals(invoice)])),
+    [invoices]
+  )
+  const mismatchCount = Array.from(totalsIssues.values()).filter(issues => issues.length > 0).length
+
+  // Matches invoice and store fields as well as the SKUs and names of line items
+  const filteredInvoices = invoices
+    .map((invoice, index) => ({ invoice, index }))
+    .filter(({ invoice }) => {
+      const term = searchTerm.trim().toLowerCase()
+      const matchesSearch = !term ||
+        invoice.nomor_faktur.toLowerCase().includes(term) ||
+        invoice.kode_toko.toLowerCase().includes(term) ||
+        invoice.nama_toko.toLowerCase().includes(term) ||
+        invoice.items.some(item =>
+          item.sku.toLowerCase().includes(term) || item.nama_barang.toLowerCase().includes(term)
+        )
+      const matchesTotals = !mismatchOnly || (totalsIssues.get(invoice)?.length ?? 0) > 0
+      return matchesSearch && matchesTotals
+    })
+
+  const totalPages = Math.ceil(filteredInvoices.length / itemsPerPage)
+  const startIndex = (currentPage - 1) * itemsPerPage
+  const paginatedInvoices = filteredInvoices.slice(startIndex, startIndex + itemsPerPage)
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  const formatCompactCurrency = (amount: number) => {
+    if (amount >= 1000000000) {
+      return `${(amount / 1000000000).toFixed(1)}B`
+    } else if (amount >= 1000000) {
+      return `${(amount / 1000000).toFixed(1)}M`
+    } else if (amount >= 1000) {
+      return `${(amount / 1000).toFixed(1)}K`
+    }
+    return amount.toString()
+  }
+
+  const toggleExpanded = (index: number) => {
+    const next = new Set(expanded)
+    if (next.has(index)) {
+      next.delete(index)
+    } else {
+      next.add(index)
+    }
+    setExpanded(next)
+  }
+
+  const statCards = [
+    { label: 'Invoices', value: stats.invoiceCount, icon: Receipt, color: 'blue' },
+    { label: 'Stores', value: stats.storeCount, icon: Store, color: 'purple' },
+    { label: 'Line Items', value: stats.itemCount, icon: Package, color: 'orange' },
+    { label: 'Total', value: formatCompactCurrency(stats.total), icon: Wallet, color: 'green', detail: `PPN: ${formatCompactCurrency(stats.totalPpn)}` }
+  ] as const
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={cn('space-y-6', className)}
+    >
+      {/* Summary Statistics */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-6">
+        {statCards.map((card, index) => (
+          <motion.div
+            key={card.label}
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            transition={{ delay: 0.1 * (index + 1) }}
+          >
+            <Card className={cn(
+              'relative overflow-hidden border-l-4',
+              card.color === 'blue' && 'border-l-blue-500',
+              card.color === 'purple' && 'border-l-purple-500',
+              card.color === 'orange' && 'border-l-orange-500',
+              card.color === 'green' && 'border-l-green-500'
+            )}>
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-3">
+                  <div className={cn(
+                    'p-2 rounded-lg',
+                    card.color === 'blue' && 'bg-blue-100 text-blue-600',
+                    card.color === 'purple' && 'bg-purple-100 text-purple-600',
+                    card.color === 'orange' && 'bg-orange-100 text-orange-600',
+                    card.color === 'green' && 'bg-green-100 text-green-600'
+                  )}>
+                    <card.icon className="h-6 w-6" />
+                  </div>
+                  <div>
+                    <p className="text-3xl font-bold text-gray-900">{card.value}</p>
+                    <p className="text-sm font-medium text-gray-600">{card.label}</p>
+                    {'detail' in card && (
+                      <p className="text-xs text-green-600 font-medium">{card.detail}</p>
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </motion.div>
+        ))}
+      </div>
+
+      {/* Action Bar */}
+      <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4 p-6 bg-gray-50 rounded-lg border">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center space-y-2 sm:space-y-0 sm:space-x-4 flex-1">
+          <div className="relative flex-1 max-w-sm">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              placeholder="Search invoices, stores or SKUs..."
+              value={searchTerm}
+              onChange={(e) => {
+                setSearchTerm(e.target.value)
+                setCurrentPage(1)
+              }}
+              className="pl-10 bg-white"
+            />
+          </div>
+
+          {mismatchCount > 0 && (
+            <Button
+              variant={mismatchOnly ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => {
+                setMismatchOnly(!mismatchOnly)
+                setCurrentPage(1)
+              }}
+            >
+              <AlertTriangle className="h-4 w-4 mr-2" />
+              {mismatchCount} with mismatched totals
+            </Button>
+          )}
+        </div>
+
+        {onExport && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="flex items-center space-x-2 bg-white">
+                <Download className="h-4 w-4" />
+                <span className="hidden sm:inline">Export</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuItem onClick={() => onExport('xlsx')}>
+                Export as Excel (.xlsx)
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onExport('ods')}>
+                Export as OpenDocument (.ods)
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onExport('csv')}>
+                Export line items as CSV
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onExport('csv', { sheet: 'summaries' })}>
+                Export invoices as CSV
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onExport('csv', { decimalFormat: 'id' })}>
+                Export line items as CSV (Indonesian format)
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onExport('json')}>
+                Export as JSON
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+
+      {/* Invoices */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Receipt className="h-5 w-5" />
+            <span>Invoices</span>
+            <Badge variant="secondary">{filteredInvoices.length}</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Invoice No</TableHead>
+                  <TableHead>Store</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead className="text-right">Items</TableHead>
+                  <TableHead className="text-right">Subtotal</TableHead>
+                  <TableHead className="text-right">PPN</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {paginatedInvoices.map(({ invoice, index }) => {
+                  const issues = totalsIssues.get(invoice) ?? []
+                  const isExpanded = expanded.has(index)
+                  const mismatchedItems = new Set(issues.filter(issue => issue.item !== undefined).map(issue => issue.item))
+                  return (
+                    <Fragment key={`${invoice.nomor_faktur}-${index}`}>
+                      <TableRow
+                        className="cursor-pointer hover:bg-gray-50"
+                        onClick={() => toggleExpanded(index)}
+                      >
+                        <TableCell>
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell className="font-mono text-sm">
+                          <span className="inline-flex items-center">
+                            {issues.length > 0 && (
+                              <span title={issues.map(issue => describeInvoiceIssue(issue, invoice)).join('\n')}>
+                                <AlertTriangle className="h-3 w-3 mr-1 text-red-600 flex-shrink-0" />
+                              </span>
+                            )}
+                            {invoice.nomor_faktur}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <span className="font-mono text-sm">{invoice.kode_toko}</span>
+                          {invoice.nama_toko && <span className="ml-2 text-gray-600">{invoice.nama_toko}</span>}
+                        </TableCell>
+                        <TableCell>{invoice.tanggal || '-'}</TableCell>
+                        <TableCell className="text-right">{invoice.items.length}</TableCell>
+                        <TableCell className={cn('text-right', issues.some(issue => issue.field === 'subtotal') && 'text-red-600')}>
+                          {formatCurrency(invoice.subtotal)}
+                        </TableCell>
+                        <TableCell className={cn('text-right', issues.some(issue => issue.field === 'total_ppn') && 'text-red-600')}>
+                          {formatCurrency(invoice.total_ppn)}
+                        </TableCell>
+                        <TableCell className={cn('text-right font-medium', issues.some(issue => issue.field === 'total') && 'text-red-600')}>
+                          {formatCurrency(invoice.total)}
+                        </TableCell>
+                      </TableRow>
+
+                      {isExpanded && (
+                        <TableRow className="bg-gray-50 hover:bg-gray-50">
+                          <TableCell colSpan={8} className="p-4">
+                            {issues.length > 0 && (
+                              <ul className="mb-3 space-y-1 text-sm text-red-600">
+                                {issues.map((issue, issueIndex) => (
+                                  <li key={issueIndex} className="flex items-center">
+                                    <AlertTriangle className="h-3 w-3 mr-2 flex-shrink-0" />
+                                    {describeInvoiceIssue(issue, invoice)}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                            <Table>
+                              <TableHeader>
+                                <TableRow>
+                                  <TableHead>No</TableHead>
+                                  <TableHead>SKU</TableHead>
+                                  <TableHead>Item</TableHead>
+                                  <TableHead className="text-right">Qty</TableHead>
+                                  <TableHead className="text-right">Unit Price</TableHead>
+                                  <TableHead className="text-right">Discount</TableHead>
+                                  <TableHead className="text-right">Amount</TableHead>
+                                  <TableHead className="text-right">PPN</TableHead>
+                                </TableRow>
+                              </TableHeader>
+                              <TableBody>
+                                {invoice.items.map((item, itemIndex) => (
+                                  <TableRow key={`${item.sku}-${itemIndex}`}>
+                                    <TableCell>{item.no}</TableCell>
+                                    <TableCell className="font-mono text-sm">{item.sku}</TableCell>
+                                    <TableCell className="max-w-[240px] truncate" title={item.nama_barang}>
+                                      {item.nama_barang || '-'}
+                                    </TableCell>
+                                    <TableCell className="text-right">{item.qty.toLocaleString('id-ID')}</TableCell>
+                                    <TableCell className="text-right">{formatCurrency(item.harga_satuan)}</TableCell>
+                                    <TableCell className="text-right">{item.diskon ? formatCurrency(item.diskon) : '-'}</TableCell>
+                                    <TableCell className={cn('text-right font-medium', mismatchedItems.has(itemIndex) && 'text-red-600')}>
+                                      {formatCurrency(item.jumlah)}
+                                    </TableCell>
+                                    <TableCell className="text-right">{formatCurrency(item.ppn)}</TableCell>
+                                  </TableRow>
+                                ))}
+                              </TableBody>
+                            </Table>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="flex justify-between items-center mt-4">
+              <p className="text-sm text-gray-600">
+                Showing {startIndex + 1}-{Math.min(startIndex + itemsPerPage, filteredInvoices.length)} of {filteredInvoices.length} invoices
+              </p>
+              <div className="flex space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={currentPage === 1}
+                  onClick={() => setCurrentPage(currentPage - 1)}
+                >
+                  Previous
+                </Button>
+                <span className="flex items-center px-3 text-sm">
+                  Page {currentPage} of {totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={currentPage === totalPages}
+                  onClick={() => setCurrentPage(currentPage + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  )
+}
@@ -0,0 +1,192 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { ChevronLeft, ChevronRight, FileText, Loader2, X } from 'lucide-react'
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { TransactionSource } from '@/lib/supabase/types'
+
+interface PdfSourceViewerProps {
+  conversionId: string
+  source?: TransactionSource | null // region of the selected row; its page is shown when it changes
+  onClose?: () => void
+}
+
+// pdf.js is only needed once the viewer opens, so it is loaded on demand. The worker is served from
+// public/, where scripts/copy-pdf-worker.mjs puts it before `dev` and `build`.
+async function loadPdfjs() {
+  const pdfjs = await import('pdfjs-dist')
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.mjs'
+  }
+  return pdfjs
+}
+
+// Renders the stored original PDF one page at a time and outlines the source region of the selected row
+export function PdfSourceViewer({ conversionId, source, onClose }: PdfSourceViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const highlightRef = useRef<HTMLDivElement>(null)
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null)
+  const [pageNumber, setPageNumber] = useState(source?.page ?? 1)
+  const [isRendering, setIsRendering] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    let loaded: PDFDocumentProxy | null = null
+
+    const loadDocument = async () => {
+      try {
+        const pdfjs = await loadPdfjs()
+        loaded = await pdfjs.getDocument({ url: `/api/conversion/${conversionId}/original` }).promise
+        if (cancelled) {
+          loaded.destroy()
+          return
+        }
+        setPdf(loaded)
+      } catch (err) {
+        console.error('Failed to load original PDF:', err)
+        if (!cancelled) setError('The original PDF could not be loaded')
+      }
+    }
+
+    loadDocument()
+    return () => {
+      cancelled = true
+      loaded?.destroy()
+    }
+  }, [conversionId])
+
+  useEffect(() => {
+    if (source) setPageNumber(source.page)
+  }, [source])
+
+  useEffect(() => {
+    if (!pdf || !canvasRef.current || !containerRef.current) return
+    if (pageNumber < 1 || pageNumber > pdf.numPages) return
+
+    let cancelled = false
+    let renderTask: RenderTask | null = null
+    const canvas = canvasRef.current
+    const width = containerRef.current.clientWidth
+
+    const renderPage = async () => {
+      setIsRendering(true)
+      try {
+        const page = await pdf.getPage(pageNumber)
+        if (cancelled) return
+
+        const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width })
+        const outputScale = window.devicePixelRatio || 1
+        canvas.width = Math.floor(viewport.width * outputScale)
+        canvas.height = Math.floor(viewport.height * outputScale)
+        canvas.style.width = `${Math.floor(viewport.width)}px`
+        canvas.style.height = `${Math.floor(viewport.height)}px`
+
+        renderTask = page.render({
+          canvasContext: canvas.getContext('2d')!,
+          viewport,
+          transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined
+        })
+        await renderTask.promise
+      } catch (err) {
+        if (!cancelled) {
+          console.error(`Failed to render page ${pageNumber}:`, err)
+          setError('This page could not be rendered')
+        }
+      } finally {
+        if (!cancelled) setIsRendering(false)
+      }
+    }
+
+    renderPage()
+    return () => {
+      cancelled = true
+      renderTask?.cancel()
+    }
+  }, [pdf, pageNumber])
+
+  const highlight = source?.bbox && source.page === pageNumber ? source.bbox : null
+
+  useEffect(() => {
+    if (highlight && !isRendering) {
+      highlightRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' })
+    }
+  }, [highlight, isRendering])
+
+  const numPages = pdf?.numPages ?? 0
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2 text-base">
+            <FileText className="h-4 w-4" />
+            <span>Original Document</span>
+          </CardTitle>
+          <div className="flex items-center space-x-1">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={pageNumber <= 1}
+              onClick={() => setPageNumber(pageNumber - 1)}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="px-2 text-sm text-gray-600 whitespace-nowrap">
+              Page {pageNumber} of {numPages || '…'}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={pageNumber >= numPages}
+              onClick={() => setPageNumber(pageNumber + 1)}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            {onClose && (
+              <Button variant="ghost" size="sm" onClick={onClose} title="Close the original document">
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div ref={containerRef} className="relative max-h-[75vh] overflow-y-auto rounded border bg-gray-100">
+          {error ? (
+            <p className="py-12 text-center text-sm text-gray-600">{error}</p>
+          ) : (
+            <div className="relative">
+              <canvas ref={canvasRef} className="block" />
+              {highlight && !isRendering && (
+                <div
+                  ref={highlightRef}
+                  className="absolute rounded-sm border-2 border-amber-500 bg-amber-300/30 pointer-events-none"
+                  style={{
+                    left: `${highlight[0] * 100}%`,
+                    top: `${highlight[1] * 100}%`,
+                    width: `${(highlight[2] - highlight[0]) * 100}%`,
+                    height: `${(highlight[3] - highlight[1]) * 100}%`
+                  }}
+                />
+              )}
+              {(!pdf || isRendering) && (
+                <div className="absolute inset-0 flex min-h-[200px] items-center justify-center">
+                  <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+        {source && !source.bbox && source.page === pageNumber && (
+          <p className="mt-2 text-xs text-gray-500">
+            The extractor recorded the page for this row but not its position.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
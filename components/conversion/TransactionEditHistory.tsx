@@ -0,0 +1,106 @@
+'use client'
+
+import { useState } from 'react'
+import { History, Loader2, RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { EditableTransactionField, TransactionData, TransactionEdit } from '@/lib/supabase/types'
+
+interface TransactionEditHistoryProps {
+  edits: TransactionEdit[]
+  transactionData: TransactionData[]
+  onRevert: (edit: TransactionEdit) => Promise<void>
+}
+
+const FIELD_LABELS: Record<EditableTransactionField, string> = {
+  nama: 'Company',
+  npwp: 'NPWP',
+  jenis_penghasilan: 'Income Type',
+  rupiah: 'Amount',
+  pajak_penghasilan: 'Tax',
+  nomor: 'Document No',
+  tanggal: 'Date'
+}
+
+const formatValue = (field: EditableTransactionField, value: string | number | null) => {
+  if (value === null || value === '') return '(empty)'
+  if (field === 'rupiah' || field === 'pajak_penghasilan') {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(Number(value))
+  }
+  return String(value)
+}
+
+const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+export function TransactionEditHistory({ edits, transactionData, onRevert }: TransactionEditHistoryProps) {
+  const [revertingId, setRevertingId] = useState<string | null>(null)
+
+  const handleRevert = async (edit: TransactionEdit) => {
+    setRevertingId(edit.id)
+    try {
+      await onRevert(edit)
+    } finally {
+      setRevertingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="h-5 w-5" />
+          <span>Edit History</span>
+          <Badge variant="secondary">{edits.length} changes</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="max-h-96 overflow-y-auto divide-y">
+          {edits.map(edit => (
+            <div key={edit.id} className="flex items-center justify-between py-3 gap-4">
+              <div className="text-sm min-w-0">
+                <p className="font-medium text-gray-900">
+                  Row {transactionData[edit.row]?.no ?? edit.row + 1} · {FIELD_LABELS[edit.field]}
+                  {edit.revertsEditId && <Badge variant="outline" className="ml-2">Revert</Badge>}
+                </p>
+                <p className="text-gray-600 truncate">
+                  <span className="line-through">{formatValue(edit.field, edit.oldValue)}</span>
+                  {' → '}
+                  <span className="text-gray-900">{formatValue(edit.field, edit.newValue)}</span>
+                </p>
+                <p className="text-xs text-gray-500">
+                  {edit.userEmail || 'Unknown user'} · {formatDateTime(edit.createdAt)}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRevert(edit)}
+                disabled={revertingId !== null}
+              >
+                {revertingId === edit.id ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                )}
+                Revert
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,264 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Check, Copy, KeyRound, Loader2, Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Separator } from '@/components/ui/separator'
+import { APIError, ApiKey, ApiKeyScope, CreatedApiKey } from '@/lib/supabase/types'
+
+const SCOPES: { scope: ApiKeyScope, description: string }[] = [
+  { scope: 'conversions:read', description: 'List, inspect and download conversions' },
+  { scope: 'conversions:write', description: 'Upload and delete conversions' }
+]
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+// Create, list and revoke personal API keys for the /api/v1 REST API
+export function ApiKeysCard() {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['conversions:read'])
+  const [isCreating, setIsCreating] = useState(false)
+  const [createdKey, setCreatedKey] = useState<CreatedApiKey | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+  const [accessError, setAccessError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadApiKeys = async () => {
+      try {
+        const response = await fetch('/api/api-keys')
+        if (!response.ok) throw new Error(`Failed to load API keys (${response.status})`)
+        const data = await response.json()
+        setApiKeys(data.apiKeys)
+      } catch (error) {
+        console.error('Error loading API keys:', error)
+        toast.error('Failed to load API keys')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadApiKeys()
+  }, [])
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope])
+  }
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      toast.error('Please give the key a name')
+      return
+    }
+    if (scopes.length === 0) {
+      toast.error('Please select at least one scope')
+      return
+    }
+
+    try {
+      setIsCreating(true)
+      const response = await fetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, scopes })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        const error = data as APIError
+        if (error.code === 'API_ACCESS_NOT_AVAILABLE') {
+          setAccessError(error.message)
+        } else {
+          toast.error(error.message || 'Failed to create API key')
+        }
+        return
+      }
+
+      const apiKey = data.apiKey as CreatedApiKey
+      setCreatedKey(apiKey)
+      setCopied(false)
+      setApiKeys(prev => [apiKey, ...prev])
+      setName('')
+      toast.success('API key created')
+    } catch (error) {
+      console.error('Error creating API key:', error)
+      toast.error('Failed to create API key')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!createdKey) return
+    try {
+      await navigator.clipboard.writeText(createdKey.key)
+      setCopied(true)
+    } catch (error) {
+      console.error('Error copying API key:', error)
+      toast.error('Could not copy the key. Please select and copy it manually.')
+    }
+  }
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Applications using this key will stop working immediately.`)) {
+      return
+    }
+
+    try {
+      setRevokingId(apiKey.id)
+      const response = await fetch(`/api/api-keys/${apiKey.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error((data as APIError).message || 'Failed to revoke API key')
+        return
+      }
+
+      setApiKeys(prev => prev.map(key => key.id === apiKey.id ? data.apiKey : key))
+      if (createdKey?.id === apiKey.id) setCreatedKey(null)
+      toast.success('API key revoked')
+    } catch (error) {
+      console.error('Error revoking API key:', error)
+      toast.error('Failed to revoke API key')
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <KeyRound className="h-5 w-5" />
+          <span>API Keys</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Use an API key as <code className="rounded bg-gray-100 px-1">Authorization: Bearer &lt;key&gt;</code> to
+          upload, list, download and delete conversions through <code className="rounded bg-gray-100 px-1">/api/v1/conversions</code>.
+        </p>
+
+        {accessError && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">
+            {accessError}.{' '}
+            <Link href="/pricing" className="font-medium underline">View plans</Link>
+          </div>
+        )}
+
+        {createdKey && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 space-y-2">
+            <p className="text-sm font-medium text-green-900">
+              Copy your new key now. It will not be shown again.
+            </p>
+            <div className="flex items-center space-x-2">
+              <Input readOnly value={createdKey.key} className="font-mono text-xs bg-white" onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="sm" onClick={handleCopy}>
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="api_key_name">Key Name</Label>
+            <Input
+              id="api_key_name"
+              value={name}
+              maxLength={100}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Accounting integration"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            {SCOPES.map(({ scope, description }) => (
+              <label key={scope} className="flex items-center space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(scope)}
+                  onChange={() => toggleScope(scope)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="text-sm font-mono">{scope}</span>
+                <span className="text-sm text-gray-500">{description}</span>
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleCreate} disabled={isCreating}>
+              {isCreating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Create Key
+            </Button>
+          </div>
+        </div>
+
+        <Separator />
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+          </div>
+        ) : apiKeys.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">You have no API keys yet.</p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {apiKeys.map(apiKey => (
+              <div key={apiKey.id} className="flex items-center justify-between px-4 py-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <span className={`font-medium truncate ${apiKey.revokedAt ? 'text-gray-400 line-through' : ''}`}>
+                      {apiKey.name}
+                    </span>
+                    <code className="text-xs text-gray-500">{apiKey.prefix}…</code>
+                    {apiKey.revokedAt && <Badge variant="outline" className="text-red-600 border-red-200">Revoked</Badge>}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1">
+                    {apiKey.scopes.map(scope => (
+                      <Badge key={scope} variant="secondary" className="font-mono text-xs">{scope}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Created {formatDate(apiKey.createdAt)} ·{' '}
+                    {apiKey.revokedAt
+                      ? `Revoked ${formatDate(apiKey.revokedAt)}`
+                      : apiKey.lastUsedAt ? `Last used ${formatDate(apiKey.lastUsedAt)}` : 'Never used'}
+                  </p>
+                </div>
+                {!apiKey.revokedAt && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRevoke(apiKey)}
+                    disabled={revokingId === apiKey.id}
+                    className="text-red-600 border-red-200 hover:bg-red-50"
+                  >
+                    {revokingId === apiKey.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4 mr-1" />}
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,210 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Download, History, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { getCreditReasonLabel } from '@/lib/services/credit-history'
+import { CreditHistoryEntry } from '@/lib/supabase/types'
+
+const PAGE_SIZE = 50
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+// `from`/`to` date inputs are the user's local days; the API takes an inclusive start and exclusive end
+function toRangeParams(from: string, to: string) {
+  const params = new URLSearchParams()
+  if (from) {
+    params.set('from', new Date(`${from}T00:00:00`).toISOString())
+  }
+  if (to) {
+    const end = new Date(`${to}T00:00:00`)
+    end.setDate(end.getDate() + 1)
+    params.set('to', end.toISOString())
+  }
+  return params
+}
+
+// Every change to the user's credits: conversion charges, refunds, refills and plan changes
+export function CreditHistoryCard() {
+  const [entries, setEntries] = useState<CreditHistoryEntry[]>([])
+  const [total, setTotal] = useState(0)
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+
+  const invalidRange = Boolean(from && to && from > to)
+
+  const fetchPage = useCallback(async (offset: number) => {
+    const params = toRangeParams(from, to)
+    params.set('limit', String(PAGE_SIZE))
+    params.set('offset', String(offset))
+
+    const response = await fetch(`/api/credits/history?${params}`)
+    if (!response.ok) throw new Error(`Failed to load credit history (${response.status})`)
+    return response.json() as Promise<{ entries: CreditHistoryEntry[], pagination: { total: number } }>
+  }, [from, to])
+
+  useEffect(() => {
+    if (invalidRange) return
+
+    const loadHistory = async () => {
+      try {
+        setIsLoading(true)
+        const data = await fetchPage(0)
+        setEntries(data.entries)
+        setTotal(data.pagination.total)
+      } catch (error) {
+        console.error('Error loading credit history:', error)
+        toast.error('Failed to load your credit history')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadHistory()
+  }, [fetchPage, invalidRange])
+
+  const handleLoadMore = async () => {
+    try {
+      setIsLoadingMore(true)
+      const data = await fetchPage(entries.length)
+      setEntries(prev => [...prev, ...data.entries])
+      setTotal(data.pagination.total)
+    } catch (error) {
+      console.error('Error loading credit history:', error)
+      toast.error('Failed to load more entries')
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }
+
+  const exportParams = toRangeParams(from, to)
+  exportParams.set('format', 'csv')
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="h-5 w-5" />
+          <span>Credit History</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Each conversion is charged one credit when processing starts. Conversions that fail or time out are
+          refunded automatically.
+        </p>
+
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="credit_history_from">From</Label>
+            <Input id="credit_history_from" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="credit_history_to">To</Label>
+            <Input id="credit_history_to" type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <div className="flex space-x-2 md:ml-auto">
+            {(from || to) && (
+              <Button variant="ghost" onClick={() => { setFrom(''); setTo('') }}>
+                Clear
+              </Button>
+            )}
+            {invalidRange || entries.length === 0 ? (
+              <Button variant="outline" disabled>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+            ) : (
+              <Button variant="outline" asChild>
+                <a href={`/api/credits/history?${exportParams}`}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export CSV
+                </a>
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {invalidRange ? (
+          <p className="text-sm text-red-600">The end date must not be before the start date.</p>
+        ) : isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">
+            {from || to ? 'No credit changes in this period.' : 'No credit changes yet.'}
+          </p>
+        ) : (
+          <>
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Conversion</TableHead>
+                    <TableHead className="text-right">Change</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap text-gray-600">{formatDate(entry.createdAt)}</TableCell>
+                      <TableCell>
+                        <span title={entry.reason}>{getCreditReasonLabel(entry.reason)}</span>
+                      </TableCell>
+                      <TableCell className="max-w-[200px] truncate">
+                        {entry.conversionId ? (
+                          <Link
+                            href={`/dashboard/conversion/${entry.conversionId}`}
+                            className="text-blue-600 hover:underline"
+                            title={entry.fileName ?? undefined}
+                          >
+                            {entry.fileName || 'View conversion'}
+                          </Link>
+                        ) : (
+                          <span className="text-gray-400">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell className={`text-right font-medium ${entry.delta < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {entry.delta > 0 ? `+${entry.delta}` : entry.delta}
+                      </TableCell>
+                      <TableCell className="text-right">{entry.balanceAfter}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex items-center justify-between text-sm text-gray-500">
+              <span>Showing {entries.length} of {total}</span>
+              {entries.length < total && (
+                <Button variant="outline" size="sm" onClick={handleLoadMore} disabled={isLoadingMore}>
+                  {isLoadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Load more
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,428 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Check, ChevronDown, ChevronRight, Copy, Loader2, Plus, RefreshCw, Send, Trash2, Webhook } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Separator } from '@/components/ui/separator'
+import { Switch } from '@/components/ui/switch'
+import {
+  APIError,
+  CreatedWebhookEndpoint,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEventType
+} from '@/lib/supabase/types'
+
+const EVENTS: { event: WebhookEventType, description: string }[] = [
+  { event: 'conversion.completed', description: 'A conversion finished and its data can be downloaded' },
+  { event: 'conversion.failed', description: 'A conversion failed and its credit was refunded' }
+]
+
+const DELIVERY_STATUS_STYLES: Record<WebhookDeliveryStatus, { label: string, className: string }> = {
+  pending: { label: 'Retrying', className: 'bg-amber-100 text-amber-800 border-amber-200' },
+  delivering: { label: 'Sending', className: 'bg-blue-100 text-blue-800 border-blue-200' },
+  succeeded: { label: 'Delivered', className: 'bg-green-100 text-green-800 border-green-200' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800 border-red-200' }
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  })
+}
+
+function DeliveryLog({ endpointId }: { endpointId: string }) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [resendingId, setResendingId] = useState<string | null>(null)
+
+  const loadDeliveries = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch(`/api/webhook-endpoints/${endpointId}/deliveries`)
+      if (!response.ok) throw new Error(`Failed to load deliveries (${response.status})`)
+      const data = await response.json()
+      setDeliveries(data.deliveries)
+    } catch (error) {
+      console.error('Error loading webhook deliveries:', error)
+      toast.error('Failed to load the delivery log')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [endpointId])
+
+  useEffect(() => {
+    loadDeliveries()
+  }, [loadDeliveries])
+
+  const handleResend = async (delivery: WebhookDelivery) => {
+    try {
+      setResendingId(delivery.id)
+      const response = await fetch(`/api/webhook-deliveries/${delivery.id}/resend`, { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error((data as APIError).message || 'Failed to resend the webhook')
+        return
+      }
+
+      setDeliveries(prev => [data.delivery, ...prev])
+      if (data.outcome === 'succeeded') {
+        toast.success('Webhook delivered')
+      } else {
+        toast.error(`Delivery failed: ${data.delivery.lastError || 'unknown error'}`)
+      }
+    } catch (error) {
+      console.error('Error resending webhook:', error)
+      toast.error('Failed to resend the webhook')
+    } finally {
+      setResendingId(null)
+    }
+  }
+
+  if (isLoading && deliveries.length === 0) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">Recent deliveries</span>
+        <Button variant="ghost" size="sm" onClick={loadDeliveries} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+      {deliveries.length === 0 ? (
+        <p className="text-sm text-gray-500 py-2">No events have been sent to this endpoint yet.</p>
+      ) : (
+        <div className="divide-y border rounded-lg bg-white">
+          {deliveries.map(delivery => {
+            const status = DELIVERY_STATUS_STYLES[delivery.status]
+            return (
+              <div key={delivery.id} className="flex items-start justify-between px-3 py-2 text-sm">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="outline" className={status.className}>{status.label}</Badge>
+                    <span className="font-mono text-xs">{delivery.eventType}</span>
+                    {delivery.responseStatus !== null && (
+                      <span className="text-xs text-gray-500">HTTP {delivery.responseStatus}</span>
+                    )}
+                    {delivery.resentFrom && <span className="text-xs text-gray-500">resend</span>}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {formatDate(delivery.createdAt)} · attempt {delivery.attempts} of {delivery.maxAttempts}
+                    {delivery.durationMs !== null && ` · ${delivery.durationMs} ms`}
+                    {delivery.status === 'pending' && delivery.nextAttemptAt && ` · next try ${formatDate(delivery.nextAttemptAt)}`}
+                  </p>
+                  {delivery.lastError && delivery.status !== 'succeeded' && (
+                    <p className="text-xs text-red-600 truncate" title={delivery.responseBody || delivery.lastError}>
+                      {delivery.lastError}
+                    </p>
+                  )}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleResend(delivery)}
+                  disabled={resendingId === delivery.id || delivery.status === 'delivering'}
+                >
+                  {resendingId === delivery.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4 mr-1" />}
+                  Resend
+                </Button>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Register HTTPS endpoints that are notified when conversions finish, and inspect their deliveries
+export function WebhooksCard() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [url, setUrl] = useState('')
+  const [description, setDescription] = useState('')
+  const [events, setEvents] = useState<WebhookEventType[]>(['conversion.completed', 'conversion.failed'])
+  const [isCreating, setIsCreating] = useState(false)
+  const [createdEndpoint, setCreatedEndpoint] = useState<CreatedWebhookEndpoint | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadEndpoints = async () => {
+      try {
+        const response = await fetch('/api/webhook-endpoints')
+        if (!response.ok) throw new Error(`Failed to load webhook endpoints (${response.status})`)
+        const data = await response.json()
+        setEndpoints(data.endpoints)
+      } catch (error) {
+        console.error('Error loading webhook endpoints:', error)
+        toast.error('Failed to load webhook endpoints')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadEndpoints()
+  }, [])
+
+  const toggleEvent = (event: WebhookEventType) => {
+    setEvents(prev => prev.includes(event) ? prev.filter(e => e !== event) : [...prev, event])
+  }
+
+  const handleCreate = async () => {
+    if (!url.trim()) {
+      toast.error('Please enter the endpoint URL')
+      return
+    }
+    if (events.length === 0) {
+      toast.error('Please select at least one event')
+      return
+    }
+
+    try {
+      setIsCreating(true)
+      const response = await fetch('/api/webhook-endpoints', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url, description, events })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error((data as APIError).message || 'Failed to add the endpoint')
+        return
+      }
+
+      const endpoint = data.endpoint as CreatedWebhookEndpoint
+      setCreatedEndpoint(endpoint)
+      setCopied(false)
+      setEndpoints(prev => [...prev, endpoint])
+      setUrl('')
+      setDescription('')
+      toast.success('Webhook endpoint added')
+    } catch (error) {
+      console.error('Error adding webhook endpoint:', error)
+      toast.error('Failed to add the endpoint')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!createdEndpoint) return
+    try {
+      await navigator.clipboard.writeText(createdEndpoint.secret)
+      setCopied(true)
+    } catch (error) {
+      console.error('Error copying signing secret:', error)
+      toast.error('Could not copy the secret. Please select and copy it manually.')
+    }
+  }
+
+  const handleToggle = async (endpoint: WebhookEndpoint, enabled: boolean) => {
+    try {
+      setBusyId(endpoint.id)
+      const response = await fetch(`/api/webhook-endpoints/${endpoint.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error((data as APIError).message || 'Failed to update the endpoint')
+        return
+      }
+
+      setEndpoints(prev => prev.map(e => e.id === endpoint.id ? data.endpoint : e))
+    } catch (error) {
+      console.error('Error updating webhook endpoint:', error)
+      toast.error('Failed to update the endpoint')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (endpoint: WebhookEndpoint) => {
+    if (!confirm(`Delete the endpoint ${endpoint.url}? Its delivery log is deleted as well.`)) {
+      return
+    }
+
+    try {
+      setBusyId(endpoint.id)
+      const response = await fetch(`/api/webhook-endpoints/${endpoint.id}`, { method: 'DELETE' })
+
+      if (!response.ok) {
+        const data = await response.json()
+        toast.error((data as APIError).message || 'Failed to delete the endpoint')
+        return
+      }
+
+      setEndpoints(prev => prev.filter(e => e.id !== endpoint.id))
+      if (createdEndpoint?.id === endpoint.id) setCreatedEndpoint(null)
+      toast.success('Webhook endpoint deleted')
+    } catch (error) {
+      console.error('Error deleting webhook endpoint:', error)
+      toast.error('Failed to delete the endpoint')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Webhook className="h-5 w-5" />
+          <span>Webhooks</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          We send a signed <code className="rounded bg-gray-100 px-1">POST</code> to your endpoints when a conversion
+          completes or fails, and retry failed deliveries for about 9 hours.
+        </p>
+
+        {createdEndpoint && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 space-y-2">
+            <p className="text-sm font-medium text-green-900">
+              Copy the signing secret now. It will not be shown again.
+            </p>
+            <div className="flex items-center space-x-2">
+              <Input readOnly value={createdEndpoint.secret} className="font-mono text-xs bg-white" onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="sm" onClick={handleCopy}>
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            <p className="text-xs text-green-800">
+              Verify <code>x-webhook-signature</code> as the hex HMAC-SHA256 of <code>&lt;x-webhook-timestamp&gt;.&lt;raw body&gt;</code>.
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="webhook_url">Endpoint URL</Label>
+              <Input
+                id="webhook_url"
+                type="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://erp.example.com/hooks/conversions"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook_description">Description</Label>
+              <Input
+                id="webhook_description"
+                value={description}
+                maxLength={200}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Events</Label>
+            {EVENTS.map(({ event, description }) => (
+              <label key={event} className="flex items-center space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={events.includes(event)}
+                  onChange={() => toggleEvent(event)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="text-sm font-mono">{event}</span>
+                <span className="text-sm text-gray-500">{description}</span>
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleCreate} disabled={isCreating}>
+              {isCreating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Add Endpoint
+            </Button>
+          </div>
+        </div>
+
+        <Separator />
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+          </div>
+        ) : endpoints.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">No webhook endpoints registered.</p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {endpoints.map(endpoint => (
+              <div key={endpoint.id}>
+                <div className="flex items-center justify-between px-4 py-3">
+                  <button
+                    type="button"
+                    className="flex min-w-0 items-start space-x-2 text-left"
+                    onClick={() => setExpandedId(expandedId === endpoint.id ? null : endpoint.id)}
+                  >
+                    {expandedId === endpoint.id
+                      ? <ChevronDown className="h-4 w-4 mt-1 flex-shrink-0" />
+                      : <ChevronRight className="h-4 w-4 mt-1 flex-shrink-0" />}
+                    <div className="min-w-0 space-y-1">
+                      <p className={`font-medium truncate ${endpoint.enabled ? '' : 'text-gray-400'}`}>{endpoint.url}</p>
+                      {endpoint.description && <p className="text-xs text-gray-500">{endpoint.description}</p>}
+                      <div className="flex flex-wrap gap-1">
+                        {endpoint.events.map(event => (
+                          <Badge key={event} variant="secondary" className="font-mono text-xs">{event}</Badge>
+                        ))}
+                      </div>
+                    </div>
+                  </button>
+                  <div className="flex items-center space-x-2 flex-shrink-0">
+                    <Switch
+                      checked={endpoint.enabled}
+                      disabled={busyId === endpoint.id}
+                      onCheckedChange={(checked) => handleToggle(endpoint, checked)}
+                      aria-label={endpoint.enabled ? 'Disable endpoint' : 'Enable endpoint'}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(endpoint)}
+                      disabled={busyId === endpoint.id}
+                      className="text-red-600 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                {expandedId === endpoint.id && (
+                  <div className="px-4 pb-4 bg-gray-50">
+                    <DeliveryLog endpointId={endpoint.id} />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
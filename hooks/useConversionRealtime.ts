@@ -0,0 +1,37 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useAuth } from '@/lib/auth/context'
+import { useConversionStore } from '@/lib/stores/conversion-store'
+import type { RealtimeStatus } from '@/lib/stores/conversion-store'
+import { subscribeToConversions } from '@/lib/stores/conversion-realtime'
+
+export interface UseConversionRealtimeResult {
+  realtimeStatus: RealtimeStatus
+  isRealtimeConnected: boolean
+  // updated_at of the last change pushed for the given conversion; changes whenever the row does
+  lastChangeAt?: string
+}
+
+// Keep the signed-in user's realtime channel open while the component is mounted.
+// Components poll only while `isRealtimeConnected` is false.
+export function useConversionRealtime(conversionId?: string): UseConversionRealtimeResult {
+  const { user } = useAuth()
+  const userId = user?.id
+
+  const realtimeStatus = useConversionStore(state => state.realtimeStatus)
+  const lastChangeAt = useConversionStore(state =>
+    conversionId ? state.conversions.get(conversionId)?.updated_at : undefined
+  )
+
+  useEffect(() => {
+    if (!userId) return
+    return subscribeToConversions(userId)
+  }, [userId])
+
+  return {
+    realtimeStatus,
+    isRealtimeConnected: realtimeStatus === 'connected',
+    lastChangeAt
+  }
+}
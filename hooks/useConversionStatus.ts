@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react'
 import type { ConversionStatus as Status } from '@/lib/supabase/types'
+import { useConversionRealtime } from './useConversionRealtime'
 
 export interface ConversionData {
   id: string
@@ -40,6 +41,7 @@ export interface UseConversionStatusResult {
   error: string | null
   isRefreshing: boolean
   retryAttempts: number
+  isRealtimeConnected: boolean
   
   // Actions
   refresh: (showLoader?: boolean) => Promise<ConversionData | undefined>
@@ -82,6 +84,9 @@ export function useConversionStatus(options: UseConversionStatusOptions): UseCon
   const mountedRef = useRef(true)
   const lastStatusRef = useRef<Status | null>(null)
 
+  // Row changes arrive over realtime; polling below only runs while the channel is down
+  const { isRealtimeConnected, lastChangeAt } = useConversionRealtime(conversionId)
+
   // Cleanup
   useEffect(() => {
     mountedRef.current = true
@@ -158,6 +163,14 @@ export function useConversionStatus(options: UseConversionStatusOptions): UseCon
     }
   }, [conversionId, onStatusChange, onComplete, onError])
 
+  // Re-read the formatted status whenever realtime reports a change to this conversion
+  const fetchStatusRef = useRef(fetchStatus)
+  fetchStatusRef.current = fetchStatus
+
+  useEffect(() => {
+    if (lastChangeAt) fetchStatusRef.current()
+  }, [lastChangeAt])
+
   // Refresh action
   const refresh = useCallback(async (showLoader = false) => {
     return await fetchStatus(showLoader)
@@ -243,6 +256,11 @@ export function useConversionStatus(options: UseConversionStatusOptions): UseCon
         return
       }
 
+      if (isRealtimeConnected) {
+        console.log(`[POLLING] Realtime connected, not polling ${conversionId}`)
+        return
+      }
+
       const interval = getPollingInterval(status, retryAttempts)
       if (!interval) return
 
@@ -284,7 +302,7 @@ export function useConversionStatus(options: UseConversionStatusOptions): UseCon
         intervalRef.current = null
       }
     }
-  }, [conversionId, conversion?.status, retryAttempts, autoRefresh, fetchStatus, getPollingInterval])
+  }, [conversionId, conversion?.status, retryAttempts, autoRefresh, isRealtimeConnected, fetchStatus, getPollingInterval])
 
   // Helper functions
   const formatTimeRemaining = (ms: number): string => {
@@ -324,6 +342,7 @@ export function useConversionStatus(options: UseConversionStatusOptions): UseCon
     error,
     isRefreshing,
     retryAttempts,
+    isRealtimeConnected,
     
     // Actions
     refresh,
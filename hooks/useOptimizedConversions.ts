@@ -4,6 +4,7 @@ import { useEffect, useCallback, useMemo } from 'react'
 import { useConversionStore } from '@/lib/stores/conversion-store'
 import type { ConversionData } from '@/lib/stores/conversion-store'
 import type { ConversionStatus } from '@/lib/supabase/types'
+import { useConversionRealtime } from './useConversionRealtime'
 
 interface UseOptimizedConversionsOptions {
   userId?: string
@@ -49,6 +50,9 @@ export function useOptimizedConversions(
 
   // Get store functions directly - they are stable
   const store = useConversionStore()
+
+  // Realtime pushes row changes into the store; the store only polls while the channel is down
+  useConversionRealtime()
   
   const {
     getConversion,
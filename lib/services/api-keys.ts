@@ -0,0 +1,118 @@
+import { NextRequest } from 'next/server'
+import crypto from 'crypto'
+import { createServiceClient, SupabaseServerClient } from '@/lib/supabase/server'
+import { findApiKeyByHash, touchApiKey } from '@/lib/supabase/api-keys'
+import { checkUserLimits } from '@/lib/supabase/users'
+import { checkRateLimit, getClientIp } from '@/lib/services/rate-limit'
+import { APIError, ApiKeyScope, Database, RateLimitScope } from '@/lib/supabase/types'
+
+type ApiKeyRow = Database['public']['Tables']['api_keys']['Row']
+
+export const MAX_ACTIVE_API_KEYS = 10
+
+const KEY_PREFIX = 'pxc_'
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8
+// Skip the last-used write when the key was used from the same address within this window
+const TOUCH_INTERVAL_MS = 60 * 1000
+
+export function hashApiKey(key: string) {
+  return crypto.createHash('sha256').update(key).digest('hex')
+}
+
+// Keys carry 256 bits of randomness, so a fast hash is enough to store them safely
+export function generateApiKey() {
+  const key = KEY_PREFIX + crypto.randomBytes(32).toString('base64url')
+  return {
+    key,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    hash: hashApiKey(key)
+  }
+}
+
+export interface ApiKeyContext {
+  userId: string
+  apiKey: ApiKeyRow
+  // Service role client: requests made with a key have no session, so every query must filter by userId
+  supabase: SupabaseServerClient
+  // RateLimit-* headers to send with the response
+  rateLimitHeaders: Record<string, string>
+}
+
+export type ApiKeyAuthResult =
+  | { success: true, data: ApiKeyContext }
+  | { success: false, error: APIError, status: number, headers?: Record<string, string> }
+
+// Failed attempts are throttled per address, so keys cannot be guessed at full speed
+async function rejectInvalidKey(ip: string | null, message: string): Promise<ApiKeyAuthResult> {
+  const rateLimit = await checkRateLimit('status', { ip })
+  if (!rateLimit.success) return rateLimit
+
+  return {
+    success: false,
+    error: { code: 'INVALID_API_KEY', message, retryable: false },
+    status: 401
+  }
+}
+
+// Authenticate a /api/v1 request from its `Authorization: Bearer <key>` header, check that the key
+// grants `scope` and that the owner's plan still includes API access, and count the request against
+// the key's `rateLimitScope` limit
+export async function authenticateApiKey(
+  request: NextRequest,
+  scope: ApiKeyScope,
+  rateLimitScope: RateLimitScope = 'status'
+): Promise<ApiKeyAuthResult> {
+  const ip = getClientIp(request)
+
+  const header = request.headers.get('authorization') || ''
+  const match = header.match(/^Bearer\s+(\S+)$/i)
+  if (!match) {
+    return rejectInvalidKey(ip, 'Provide an API key as `Authorization: Bearer <key>`')
+  }
+
+  const apiKey = await findApiKeyByHash(hashApiKey(match[1]))
+  if (!apiKey) {
+    return rejectInvalidKey(ip, 'The API key is not valid')
+  }
+  if (apiKey.revoked_at) {
+    return rejectInvalidKey(ip, 'The API key has been revoked')
+  }
+
+  if (!apiKey.scopes.includes(scope)) {
+    return {
+      success: false,
+      error: {
+        code: 'INSUFFICIENT_SCOPE',
+        message: `This API key does not have the ${scope} scope`,
+        details: { requiredScope: scope, scopes: apiKey.scopes },
+        retryable: false
+      },
+      status: 403
+    }
+  }
+
+  const supabase = createServiceClient()
+
+  const limits = await checkUserLimits(apiKey.user_id, supabase)
+  if (!limits.features.apiAccess) {
+    return {
+      success: false,
+      error: { code: 'API_ACCESS_NOT_AVAILABLE', message: 'Your plan does not include API access', retryable: false },
+      status: 403
+    }
+  }
+
+  const rateLimit = await checkRateLimit(rateLimitScope, { userId: apiKey.user_id, apiKeyId: apiKey.id })
+  if (!rateLimit.success) return rateLimit
+
+  const lastUsed = apiKey.last_used_at ? new Date(apiKey.last_used_at).getTime() : 0
+  if (Date.now() - lastUsed > TOUCH_INTERVAL_MS || apiKey.last_used_ip !== ip) {
+    try {
+      await touchApiKey(apiKey.id, ip)
+    } catch (touchError) {
+      console.error(`[API] Failed to record use of API key ${apiKey.id}:`, touchError)
+    }
+  }
+
+  return { success: true, data: { userId: apiKey.user_id, apiKey, supabase, rateLimitHeaders: rateLimit.headers } }
+}
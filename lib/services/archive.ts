@@ -0,0 +1,130 @@
+import JSZip from 'jszip'
+import { ARCHIVE_LIMITS } from '@/lib/services/batches'
+
+export interface ExtractedPdf {
+  fileName: string // path inside the archive, e.g. 2024/03/bupot-001.pdf
+  buffer: Buffer
+}
+
+export interface RejectedEntry {
+  fileName: string
+  reason: string
+}
+
+export interface ArchiveContents {
+  files: ExtractedPdf[]
+  rejected: RejectedEntry[]
+}
+
+// Thrown when the archive as a whole cannot be accepted. Problems with single entries are
+// reported as rejected entries instead.
+export class ArchiveError extends Error {
+  constructor(public code: string, message: string) {
+    super(message)
+    this.name = 'ArchiveError'
+  }
+}
+
+const PDF_MAGIC = Buffer.from('%PDF-')
+
+// Metadata that archivers add next to the real files
+function isIgnoredEntry(path: string) {
+  return path.startsWith('__MACOSX/') || path.split('/').some(segment => segment.startsWith('.'))
+}
+
+function isUnsafePath(path: string) {
+  return path.startsWith('/') || /^[a-z]:/i.test(path) || path.split(/[/\\]/).includes('..')
+}
+
+// Inflate one entry, giving up as soon as it grows past `maxBytes`. Sizes in the ZIP headers
+// can be forged, so they are not trusted.
+function readEntry(entry: JSZip.JSZipObject, maxBytes: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    const stream = entry.nodeStream('nodebuffer')
+
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > maxBytes) {
+        stream.pause()
+        stream.removeAllListeners()
+        resolve(null)
+        return
+      }
+      chunks.push(chunk)
+    })
+    stream.on('end', () => resolve(Buffer.concat(chunks)))
+    stream.on('error', reject)
+  })
+}
+
+// Unpack the PDFs in a ZIP upload. Entries that are not usable PDFs are skipped with a reason;
+// the whole archive is refused when it is unreadable, too large, or tries to escape its root.
+export async function extractPdfsFromZip(archive: Buffer, maxFileSize: number): Promise<ArchiveContents> {
+  let zip: JSZip
+  try {
+    zip = await JSZip.loadAsync(archive)
+  } catch (error) {
+    console.error('[ARCHIVE] Failed to read ZIP:', error)
+    throw new ArchiveError('INVALID_ARCHIVE', 'The ZIP file could not be read')
+  }
+
+  const entries = Object.values(zip.files).filter(entry => !entry.dir)
+
+  if (entries.length > ARCHIVE_LIMITS.maxEntries) {
+    throw new ArchiveError('ARCHIVE_TOO_MANY_ENTRIES', `ZIP files may contain at most ${ARCHIVE_LIMITS.maxEntries} files (found ${entries.length})`)
+  }
+
+  const unsafe = entries.find(entry => isUnsafePath(entry.unsafeOriginalName ?? entry.name))
+  if (unsafe) {
+    throw new ArchiveError('UNSAFE_ARCHIVE', `The ZIP file contains an unsafe path: ${unsafe.unsafeOriginalName ?? unsafe.name}`)
+  }
+
+  const files: ExtractedPdf[] = []
+  const rejected: RejectedEntry[] = []
+  let totalSize = 0
+
+  for (const entry of entries) {
+    const fileName = entry.name
+    if (isIgnoredEntry(fileName)) continue
+
+    if (fileName.split('/').length - 1 > ARCHIVE_LIMITS.maxDepth) {
+      rejected.push({ fileName, reason: `Nested more than ${ARCHIVE_LIMITS.maxDepth} folders deep` })
+      continue
+    }
+
+    if (/\.zip$/i.test(fileName)) {
+      rejected.push({ fileName, reason: 'ZIP files inside ZIP files are not supported' })
+      continue
+    }
+
+    if (!/\.pdf$/i.test(fileName)) {
+      rejected.push({ fileName, reason: 'Only PDF files are supported' })
+      continue
+    }
+
+    const buffer = await readEntry(entry, Math.min(maxFileSize, ARCHIVE_LIMITS.maxTotalSize - totalSize))
+
+    if (!buffer) {
+      if (totalSize + maxFileSize >= ARCHIVE_LIMITS.maxTotalSize) {
+        throw new ArchiveError('ARCHIVE_TOO_LARGE', `The unpacked ZIP exceeds ${ARCHIVE_LIMITS.maxTotalSize / 1024 / 1024}MB`)
+      }
+      rejected.push({ fileName, reason: `File size exceeds ${maxFileSize / 1024 / 1024}MB` })
+      continue
+    }
+
+    totalSize += buffer.length
+
+    if (!buffer.subarray(0, PDF_MAGIC.length).equals(PDF_MAGIC)) {
+      rejected.push({ fileName, reason: 'Not a valid PDF file' })
+      continue
+    }
+
+    files.push({ fileName, buffer })
+  }
+
+  console.log(`[ARCHIVE] Extracted ${files.length} PDFs (${totalSize} bytes), rejected ${rejected.length} entries`)
+
+  return { files, rejected }
+}
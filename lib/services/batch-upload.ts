@@ -0,0 +1,179 @@
+import { SupabaseServerClient } from '@/lib/supabase/server'
+import { createConversion, trackEvent } from '@/lib/supabase/conversions'
+import { InsufficientCreditsError, releaseConversionCredits, reserveConversionCredits } from '@/lib/supabase/credits'
+import { createBatch, deleteBatch } from '@/lib/supabase/batches'
+import { uploadOriginalFile, deleteOriginalFile } from '@/lib/supabase/storage'
+import { enqueueConversion } from '@/lib/services/job-queue'
+import { APIError, BatchConversionResponse, ConversionStatus, DocumentType } from '@/lib/supabase/types'
+
+export interface BatchFile {
+  fileName: string
+  contentType: string
+  buffer: Buffer
+}
+
+export interface BatchUploadParams {
+  supabase: SupabaseServerClient
+  userId: string
+  subscriptionTier: string
+  creditsRemaining: number
+  documentType: DocumentType
+  files: BatchFile[]
+}
+
+export type BatchUploadResult =
+  | { success: true, data: BatchConversionResponse }
+  | { success: false, error: APIError, status: number }
+
+// Create one conversion per file under a new batch and start processing them. Credits for every file are
+// reserved before any original is stored; if any file cannot be stored the whole batch is rolled back.
+// Files must already be validated by the caller.
+export async function createBatchUpload(params: BatchUploadParams): Promise<BatchUploadResult> {
+  const { supabase, userId, documentType, files } = params
+
+  if (params.creditsRemaining < files.length) {
+    return {
+      success: false,
+      error: {
+        code: 'INSUFFICIENT_CREDITS',
+        message: `This batch needs ${files.length} credits but you have ${params.creditsRemaining}`,
+        retryable: false
+      },
+      status: 403
+    }
+  }
+
+  // Create the batch and every conversion, reserve their credits and store each original before
+  // processing any of them
+  let batchId = ''
+  const created: { conversionId: string, file: BatchFile, originalFilePath?: string }[] = []
+  let reserved = false
+  try {
+    const batch = await createBatch({
+      user_id: userId,
+      document_type: documentType,
+      total_files: files.length
+    }, supabase)
+    batchId = batch.id
+
+    console.log(`[BATCH] Created batch ${batch.id} with ${files.length} files for user ${userId}`)
+
+    for (const file of files) {
+      const conversion = await createConversion({
+        user_id: userId,
+        batch_id: batch.id,
+        original_filename: file.fileName,
+        file_size: file.buffer.length,
+        document_type: documentType,
+        status: 'pending'
+      }, supabase)
+      created.push({ conversionId: conversion.id, file })
+    }
+
+    // One credit per file; fails as a whole if the balance changed since it was checked
+    await reserveConversionCredits(userId, created.map(entry => entry.conversionId), 'batch_started')
+    reserved = true
+
+    for (const entry of created) {
+      entry.originalFilePath = await uploadOriginalFile(userId, entry.conversionId, entry.file.buffer, entry.file.contentType, supabase)
+      await supabase
+        .from('conversions')
+        .update({ original_file_path: entry.originalFilePath })
+        .eq('id', entry.conversionId)
+    }
+  } catch (createError) {
+    console.error(`[BATCH] Failed to create batch ${batchId || '(none)'}, rolling back:`, createError)
+
+    // Refund before the conversions, and with them their reservations, are deleted
+    if (reserved) {
+      await releaseConversionCredits(created.map(entry => entry.conversionId), 'batch_create_failed_refund')
+    }
+
+    for (const entry of created) {
+      if (!entry.originalFilePath) continue
+      try {
+        await deleteOriginalFile(entry.originalFilePath, supabase)
+      } catch (storageError) {
+        console.error(`[BATCH] Failed to remove original ${entry.originalFilePath}:`, storageError)
+      }
+    }
+
+    if (batchId) {
+      try {
+        await deleteBatch(batchId, created.map(entry => entry.conversionId))
+      } catch (deleteError) {
+        console.error(`[BATCH] Failed to delete batch ${batchId}:`, deleteError)
+      }
+    }
+
+    if (createError instanceof InsufficientCreditsError) {
+      return {
+        success: false,
+        error: { code: 'INSUFFICIENT_CREDITS', message: `Your balance no longer covers the ${files.length} credits this batch needs`, retryable: false },
+        status: 403
+      }
+    }
+
+    return {
+      success: false,
+      error: { code: 'BATCH_CREATE_FAILED', message: 'Failed to store the uploaded files. No credits were charged. Please try again.', retryable: true },
+      status: 500
+    }
+  }
+
+  // Hand each conversion to the job queue. Permanent failures refund their own credit;
+  // anything else is retried by the job worker.
+  const conversions: BatchConversionResponse['conversions'] = []
+  for (const { conversionId, file } of created) {
+    await trackEvent(
+      userId,
+      'conversion_start',
+      conversionId,
+      {
+        file_name: file.fileName,
+        file_size: file.buffer.length,
+        document_type: documentType,
+        subscription_tier: params.subscriptionTier,
+        batch_id: batchId
+      }
+    )
+
+    let status: ConversionStatus = 'processing'
+    try {
+      const outcome = await enqueueConversion({
+        conversionId,
+        userId,
+        documentType,
+        fileBuffer: file.buffer
+      })
+
+      if (outcome.status === 'dead') {
+        status = 'failed'
+      } else if (outcome.status === 'retrying') {
+        status = 'pending'
+      } else if (outcome.status === 'succeeded' && outcome.result.status === 'completed') {
+        status = 'completed'
+      }
+    } catch (enqueueError) {
+      // The job stays claimed; the worker picks it up again once the claim lock expires
+      console.error(`[BATCH] Failed to dispatch conversion ${conversionId}:`, enqueueError)
+      status = 'pending'
+    }
+
+    conversions.push({ conversionId, fileName: file.fileName, status })
+  }
+
+  const failedCount = conversions.filter(c => c.status === 'failed').length
+
+  return {
+    success: true,
+    data: {
+      success: true,
+      batchId,
+      conversions,
+      message: failedCount > 0
+        ? `${files.length - failedCount} of ${files.length} files started processing. Credits for failed files were refunded.`
+        : `${files.length} files uploaded successfully. Processing started.`
+    }
+  }
+}
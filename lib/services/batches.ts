@@ -0,0 +1,53 @@
+import type { BatchSummary, SubscriptionTier } from '@/lib/supabase/types'
+
+// Most files a single batch upload may contain, per plan. Free plans upload one file at a time.
+export const BATCH_FILE_LIMITS: Record<SubscriptionTier, number> = {
+  free: 1,
+  pro: 5,
+  business: 10
+}
+
+export function getBatchFileLimit(tier: SubscriptionTier | string | null | undefined) {
+  return BATCH_FILE_LIMITS[tier as SubscriptionTier] ?? BATCH_FILE_LIMITS.free
+}
+
+// A batch is processing while any conversion is unfinished, then completed, failed, or partial when
+// only some of its conversions succeeded
+export function summarizeBatch(conversions: { status: string }[]): BatchSummary {
+  const count = (status: string) => conversions.filter(c => c.status === status).length
+
+  const summary = {
+    total: conversions.length,
+    pending: count('pending'),
+    processing: count('processing'),
+    completed: count('completed'),
+    failed: count('failed')
+  }
+
+  let status: BatchSummary['status']
+  if (summary.pending > 0 || summary.processing > 0) {
+    status = 'processing'
+  } else if (summary.failed === 0) {
+    status = 'completed'
+  } else if (summary.completed === 0) {
+    status = 'failed'
+  } else {
+    status = 'partial'
+  }
+
+  return { status, ...summary }
+}
+
+// Limits for ZIP uploads, which expand into one conversion per PDF inside
+export const ARCHIVE_LIMITS = {
+  maxArchiveSize: 50 * 1024 * 1024, // the uploaded ZIP itself
+  maxEntries: 100, // files in the archive, PDF or not
+  maxTotalSize: 200 * 1024 * 1024, // all entries once unpacked
+  maxDepth: 3 // folder levels above a file, e.g. 2024/03/a.pdf is depth 2
+}
+
+export const ARCHIVE_CONTENT_TYPES = ['application/zip', 'application/x-zip-compressed']
+
+export function isArchiveFile(file: { name: string, type: string }) {
+  return ARCHIVE_CONTENT_TYPES.includes(file.type) || /\.zip$/i.test(file.name)
+}
@@ -0,0 +1,83 @@
+import type { ConversionProgress, ConversionStatus, ProgressStage } from '@/lib/supabase/types'
+
+interface ProgressInput {
+  status: ConversionStatus | string
+  created_at: string
+  started_at?: string | null
+  file_size?: number | null
+  progress_stage?: string | null
+  progress_percent?: number | null
+  progress_message?: string | null
+}
+
+export const PROGRESS_STAGES: { id: ProgressStage, label: string, description: string }[] = [
+  { id: 'validation', label: 'Validation', description: 'Checking the uploaded PDF' },
+  { id: 'pdf_parse', label: 'PDF Parsing', description: 'Reading pages and tables from the PDF' },
+  { id: 'ai_extraction', label: 'Data Extraction', description: 'Extracting transactions from the tables' },
+  { id: 'sheet_population', label: 'Sheet Population', description: 'Writing the results to the spreadsheet' }
+]
+
+export function isProgressStage(value: unknown): value is ProgressStage {
+  return PROGRESS_STAGES.some(stage => stage.id === value)
+}
+
+export function getStageIndex(stage: ProgressStage) {
+  return PROGRESS_STAGES.findIndex(s => s.id === stage)
+}
+
+// Whether `next` moves forward from `current`. Callbacks can arrive out of order, and an older
+// update must not move the stepper backwards.
+export function isProgressAhead(current: ConversionProgress | null, next: ConversionProgress) {
+  if (!current) return true
+  const stageDelta = getStageIndex(next.stage) - getStageIndex(current.stage)
+  return stageDelta > 0 || (stageDelta === 0 && next.percent >= current.percent)
+}
+
+// Progress the backend has reported, if any
+export function getReportedProgress(conversion: ProgressInput): ConversionProgress | null {
+  if (!isProgressStage(conversion.progress_stage)) return null
+  return {
+    stage: conversion.progress_stage,
+    percent: conversion.progress_percent ?? 0,
+    message: conversion.progress_message ?? null
+  }
+}
+
+// Guess progress from how long a conversion has been processing, for backends that don't report it
+function estimateProcessingPercent(conversion: ProgressInput, now: number) {
+  const processingStarted = new Date(conversion.started_at || conversion.created_at)
+  const processingTime = now - processingStarted.getTime()
+  const estimatedTotalTime = Math.max(30000, (conversion.file_size || 1000000) / 1000000 * 30000) // ~30s per MB, minimum 30s
+  return Math.round(Math.min(95, Math.max(10, (processingTime / estimatedTotalTime) * 80 + 10)))
+}
+
+// Stage, percent and message for any conversion: what the backend reported while processing,
+// an estimate when it reports nothing, and fixed values before and after processing
+export function getConversionProgress(conversion: ProgressInput, now = Date.now()): ConversionProgress {
+  const reported = getReportedProgress(conversion)
+
+  switch (conversion.status) {
+    case 'pending':
+      return { stage: 'validation', percent: 0, message: 'Queued for processing' }
+    case 'completed':
+      return { stage: 'sheet_population', percent: 100, message: 'Completed' }
+    case 'failed':
+      // Keep the stage it failed in so the stepper can show where it stopped
+      return { stage: reported?.stage ?? 'validation', percent: reported?.percent ?? 0, message: 'Failed' }
+  }
+
+  if (reported) return reported
+
+  const percent = estimateProcessingPercent(conversion, now)
+  const stageIndex = Math.min(PROGRESS_STAGES.length - 1, Math.floor(percent / (100 / PROGRESS_STAGES.length)))
+  return { stage: PROGRESS_STAGES[stageIndex].id, percent, message: null }
+}
+
+// Flattened progress for list views: a percentage and a human-readable stage.
+// Shared by the batch status route and the realtime store so both report the same numbers.
+export function estimateConversionProgress(conversion: ProgressInput, now = Date.now()) {
+  const progress = getConversionProgress(conversion, now)
+  const stage = PROGRESS_STAGES[getStageIndex(progress.stage)]
+
+  return { progress: progress.percent, currentStage: progress.message || stage.description }
+}
@@ -0,0 +1,49 @@
+import { createServiceClient, SupabaseServerClient } from '@/lib/supabase/server'
+import { ConversionStatus, Database } from '@/lib/supabase/types'
+
+type ConversionUpdate = Database['public']['Tables']['conversions']['Update']
+
+// Legal status changes. A conversion is queued, picked up, then finishes exactly once;
+// only a user retry moves a failed conversion back to the queue.
+export const CONVERSION_STATUS_TRANSITIONS: Record<ConversionStatus, ConversionStatus[]> = {
+  pending: ['processing', 'failed'],
+  processing: ['completed', 'failed'],
+  completed: [],
+  failed: ['pending']
+}
+
+export function canTransition(from: ConversionStatus, to: ConversionStatus) {
+  return CONVERSION_STATUS_TRANSITIONS[from].includes(to)
+}
+
+// Statuses a conversion may be in for a move to `to` to be legal
+export function getSourceStatuses(to: ConversionStatus) {
+  return (Object.keys(CONVERSION_STATUS_TRANSITIONS) as ConversionStatus[])
+    .filter(from => canTransition(from, to))
+}
+
+// Move a conversion to a new status only if the change is legal from its current status. The check is part
+// of the UPDATE, so two writers racing (e.g. a webhook and the watchdog) cannot both win.
+// Returns the updated conversion, or null when the transition was not applied.
+export async function transitionConversion(
+  id: string,
+  to: ConversionStatus,
+  updates: Omit<ConversionUpdate, 'status'> = {},
+  client?: SupabaseServerClient
+) {
+  const supabase = client ?? createServiceClient()
+
+  const { data: conversions, error } = await supabase
+    .from('conversions')
+    .update({
+      ...updates,
+      status: to,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+    .in('status', getSourceStatuses(to))
+    .select()
+
+  if (error) throw error
+  return conversions?.[0] ?? null
+}
@@ -0,0 +1,215 @@
+import { SupabaseServerClient } from '@/lib/supabase/server'
+import { createConversion, trackEvent } from '@/lib/supabase/conversions'
+import { checkUserLimits } from '@/lib/supabase/users'
+import { InsufficientCreditsError, releaseConversionCredits, reserveConversionCredits } from '@/lib/supabase/credits'
+import { uploadOriginalFile } from '@/lib/supabase/storage'
+import { getProcessingBackend } from '@/lib/services/processing'
+import { enqueueConversion } from '@/lib/services/job-queue'
+import { BatchFile } from '@/lib/services/batch-upload'
+import { APIError, ConversionResponse, DocumentType } from '@/lib/supabase/types'
+
+export const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
+
+export interface ConversionUploadParams {
+  supabase: SupabaseServerClient
+  userId: string
+  subscriptionTier: string
+  documentType: DocumentType
+  file: BatchFile
+}
+
+export type ConversionUploadResult =
+  | { success: true, data: ConversionResponse }
+  | { success: false, error: APIError, status: number }
+
+// Create a conversion for one PDF, charge a credit, store the original and start processing it.
+// The file type must already be validated by the caller; size and credits are checked here.
+export async function createConversionUpload(params: ConversionUploadParams): Promise<ConversionUploadResult> {
+  const { supabase, userId, documentType, file } = params
+  const fileSize = file.buffer.length
+
+  if (fileSize > MAX_FILE_SIZE) {
+    return {
+      success: false,
+      error: { code: 'FILE_TOO_LARGE', message: `File size must be less than ${MAX_FILE_SIZE / 1024 / 1024}MB`, retryable: false },
+      status: 400
+    }
+  }
+
+  // Check user limits
+  const limitsCheck = await checkUserLimits(userId, supabase)
+  if (!limitsCheck.hasCredits) {
+    return {
+      success: false,
+      error: {
+        code: 'INSUFFICIENT_CREDITS',
+        message: 'You have insufficient credits for this conversion',
+        retryable: false
+      },
+      status: 403
+    }
+  }
+
+  // Check file size against user's plan limit
+  const maxFileSizeBytes = limitsCheck.maxFileSize * 1024 * 1024
+  if (fileSize > maxFileSizeBytes) {
+    return {
+      success: false,
+      error: {
+        code: 'FILE_TOO_LARGE',
+        message: `File size exceeds the ${limitsCheck.maxFileSize}MB limit for your plan`,
+        retryable: false
+      },
+      status: 400
+    }
+  }
+
+  // Create conversion record
+  const conversion = await createConversion({
+    user_id: userId,
+    original_filename: file.fileName,
+    file_size: fileSize,
+    document_type: documentType,
+    status: 'pending'
+  }, supabase)
+
+  if (!conversion) {
+    return {
+      success: false,
+      error: { code: 'CONVERSION_CREATE_FAILED', message: 'Please try again', retryable: true },
+      status: 500
+    }
+  }
+
+  // Reserve the credit before doing any work; it is refunded if processing is given up
+  try {
+    await reserveConversionCredits(userId, [conversion.id], 'conversion_started')
+  } catch (creditError) {
+    if (!(creditError instanceof InsufficientCreditsError)) throw creditError
+
+    await supabase
+      .from('conversions')
+      .update({
+        status: 'failed',
+        error_message: 'Insufficient credits'
+      })
+      .eq('id', conversion.id)
+
+    return {
+      success: false,
+      error: {
+        code: 'INSUFFICIENT_CREDITS',
+        message: 'You have insufficient credits for this conversion',
+        retryable: false
+      },
+      status: 403
+    }
+  }
+
+  // Keep the original PDF so the conversion can be reprocessed on retry
+  try {
+    const originalFilePath = await uploadOriginalFile(userId, conversion.id, file.buffer, file.contentType, supabase)
+    await supabase
+      .from('conversions')
+      .update({ original_file_path: originalFilePath })
+      .eq('id', conversion.id)
+  } catch (storageError) {
+    console.error('Original file upload error:', storageError)
+
+    await supabase
+      .from('conversions')
+      .update({
+        status: 'failed',
+        error_message: 'Failed to store the uploaded file'
+      })
+      .eq('id', conversion.id)
+
+    await releaseConversionCredits([conversion.id], 'conversion_create_failed_refund')
+
+    return {
+      success: false,
+      error: { code: 'STORAGE_UPLOAD_FAILED', message: 'Failed to store the uploaded file. Please try again.', retryable: true },
+      status: 500
+    }
+  }
+
+  // Track conversion start event
+  await trackEvent(
+    userId,
+    'conversion_start',
+    conversion.id,
+    {
+      file_name: file.fileName,
+      file_size: fileSize,
+      document_type: documentType,
+      subscription_tier: params.subscriptionTier
+    },
+    supabase
+  )
+
+  // Queue the conversion and make the first attempt now; transient failures are retried by the job worker
+  const outcome = await enqueueConversion({
+    conversionId: conversion.id,
+    userId,
+    documentType,
+    fileBuffer: file.buffer
+  })
+
+  // Only permanent failures end up here on the first attempt; the credit has already been refunded
+  if (outcome.status === 'dead') {
+    return {
+      success: false,
+      error: {
+        code: 'PROCESSING_FAILED',
+        message: `Conversion failed: ${outcome.error}`,
+        retryable: false,
+        details: {
+          conversionId: conversion.id,
+          ...(process.env.NODE_ENV === 'development' ? {
+            backend: getProcessingBackend(documentType)?.name,
+            documentType,
+            error: outcome.error
+          } : {})
+        }
+      },
+      status: 422
+    }
+  }
+
+  if (outcome.status === 'succeeded' && outcome.result.status === 'completed') {
+    return {
+      success: true,
+      data: {
+        success: true,
+        conversionId: conversion.id,
+        status: 'completed',
+        message: `File converted successfully. ${outcome.result.message || ''}`.trim(),
+        estimatedTime: 0
+      }
+    }
+  }
+
+  if (outcome.status === 'retrying') {
+    return {
+      success: true,
+      data: {
+        success: true,
+        conversionId: conversion.id,
+        status: 'pending',
+        message: 'The processing service is temporarily unavailable. Your conversion is queued and will be retried automatically.',
+        estimatedTime: new Date(outcome.nextRunAt).getTime() - Date.now()
+      }
+    }
+  }
+
+  return {
+    success: true,
+    data: {
+      success: true,
+      conversionId: conversion.id,
+      status: 'processing',
+      message: 'File uploaded successfully. Processing started.',
+      estimatedTime: Math.ceil(fileSize / (1024 * 1024)) * 30000 // Rough estimate: 30s per MB
+    }
+  }
+}
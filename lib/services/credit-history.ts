@@ -0,0 +1,34 @@
+// Ledger reasons as shown in the credit history. Used by the settings page and the CSV export,
+// so nothing here may depend on server-only modules.
+
+export const MAX_CREDIT_HISTORY_EXPORT = 10000
+
+const CREDIT_REASON_LABELS: Record<string, string> = {
+  conversion_started: 'Conversion',
+  batch_started: 'Batch upload',
+  conversion_retry: 'Conversion retry',
+  conversion_failed_refund: 'Refund: processing failed',
+  conversion_timeout_refund: 'Refund: processing timed out',
+  conversion_create_failed_refund: 'Refund: upload could not be stored',
+  batch_create_failed_refund: 'Refund: batch could not be stored',
+  opening_balance: 'Opening balance',
+  manual_adjustment: 'Adjustment'
+}
+
+const TIER_LABELS: Record<string, string> = {
+  free: 'Free',
+  pro: 'Pro',
+  business: 'Business'
+}
+
+export function getCreditReasonLabel(reason: string) {
+  if (CREDIT_REASON_LABELS[reason]) return CREDIT_REASON_LABELS[reason]
+
+  const refill = reason.match(/^monthly_refill_(\w+)$/)
+  if (refill) return `Monthly refill (${TIER_LABELS[refill[1]] ?? refill[1]} plan)`
+
+  const planChange = reason.match(/^plan_change_(\w+)$/)
+  if (planChange) return `Plan change (${TIER_LABELS[planChange[1]] ?? planChange[1]} plan)`
+
+  return reason
+}
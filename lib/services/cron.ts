@@ -0,0 +1,17 @@
+import { NextRequest } from 'next/server'
+import crypto from 'crypto'
+
+const CRON_SECRET = process.env.CRON_SECRET
+
+// Scheduled routes are called with `Authorization: Bearer <CRON_SECRET>`.
+// Without a secret they are only reachable in development.
+export function isAuthorizedCronRequest(request: NextRequest) {
+  if (!CRON_SECRET) {
+    return process.env.NODE_ENV === 'development'
+  }
+
+  const provided = Buffer.from(request.headers.get('authorization') || '')
+  const expected = Buffer.from(`Bearer ${CRON_SECRET}`)
+
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected)
+}
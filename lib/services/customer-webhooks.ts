@@ -0,0 +1,259 @@
+import crypto from 'crypto'
+import dns from 'dns'
+import https from 'https'
+import net from 'net'
+import {
+  claimWebhookDeliveries,
+  createClaimedWebhookDeliveries,
+  getSubscribedWebhookEndpoints,
+  getWebhookEndpointForDelivery,
+  updateWebhookDelivery,
+  WebhookDeliveryRow
+} from '@/lib/supabase/webhook-endpoints'
+import { toPublicConversion } from '@/lib/services/public-api'
+import { signWebhookPayload } from '@/lib/services/webhook-signature'
+import { isInternalHostname, isPrivateAddress } from '@/lib/validation'
+import { ConversionWebhookEvent, Database, Json, WebhookEventType } from '@/lib/supabase/types'
+
+type Conversion = Database['public']['Tables']['conversions']['Row']
+
+export const MAX_WEBHOOK_ENDPOINTS = 5
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000
+// Wait before the 2nd, 3rd, ... attempt; deliveries are given up after the last one
+const RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000, 2 * 60 * 60 * 1000, 6 * 60 * 60 * 1000]
+const MAX_RESPONSE_BODY_LENGTH = 1000
+
+export type DeliveryOutcome = 'succeeded' | 'retrying' | 'failed'
+
+export function generateWebhookSecret() {
+  return 'whsec_' + crypto.randomBytes(24).toString('base64url')
+}
+
+export function getWebhookEventType(status: string): WebhookEventType | null {
+  if (status === 'completed') return 'conversion.completed'
+  if (status === 'failed') return 'conversion.failed'
+  return null
+}
+
+// Delay before the next attempt after `attempt` failed, with jitter so retries to one endpoint spread out
+export function getRetryDelay(attempt: number) {
+  const delay = RETRY_DELAYS_MS[Math.min(attempt - 1, RETRY_DELAYS_MS.length - 1)]
+  return Math.round(delay * (0.8 + Math.random() * 0.4))
+}
+
+export function buildConversionEvent(conversion: Conversion, type: WebhookEventType): ConversionWebhookEvent {
+  return {
+    id: crypto.randomUUID(),
+    type,
+    createdAt: new Date().toISOString(),
+    data: {
+      conversion: toPublicConversion(conversion)
+    }
+  }
+}
+
+class WebhookRequestError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WebhookRequestError'
+  }
+}
+
+// Resolves like dns.lookup, but refuses private addresses. It runs when the connection is opened, so the
+// address that was checked is the one connected to, even if the host's DNS changes in between.
+const lookupPublicAddress: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) return callback(error, address, family)
+
+    const addresses = typeof address === 'string' ? [address] : address.map(entry => entry.address)
+    const privateAddress = addresses.find(isPrivateAddress)
+    if (privateAddress) {
+      return callback(
+        new WebhookRequestError(`${hostname} resolves to the private address ${privateAddress}`),
+        address,
+        family
+      )
+    }
+    callback(null, address, family)
+  })
+}
+
+// POST to a customer endpoint. Redirects are not followed and only the start of the response body is kept.
+function postToEndpoint(endpointUrl: string, headers: Record<string, string>, body: string) {
+  return new Promise<{ status: number, body: string }>((resolve, reject) => {
+    const url = new URL(endpointUrl)
+    if (url.protocol !== 'https:' || isInternalHostname(url.hostname) || isPrivateAddress(url.hostname)) {
+      reject(new WebhookRequestError('The endpoint URL is not a public https:// URL'))
+      return
+    }
+
+    const request = https.request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+      lookup: lookupPublicAddress
+    }, response => {
+      let responseBody = ''
+      response.setEncoding('utf8')
+      response.on('data', (chunk: string) => {
+        if (responseBody.length < MAX_RESPONSE_BODY_LENGTH) responseBody += chunk
+      })
+      response.on('end', () => {
+        clearTimeout(timeout)
+        resolve({ status: response.statusCode ?? 0, body: responseBody.slice(0, MAX_RESPONSE_BODY_LENGTH) })
+      })
+      response.on('error', reject)
+    })
+
+    const timeout = setTimeout(() => {
+      request.destroy(new WebhookRequestError(`No response within ${DELIVERY_TIMEOUT_MS / 1000} seconds`))
+    }, DELIVERY_TIMEOUT_MS)
+
+    request.on('error', error => {
+      clearTimeout(timeout)
+      reject(error)
+    })
+    request.end(body)
+  })
+}
+
+// Make one attempt at a claimed delivery and record the result. Only 2xx responses count as delivered;
+// redirects are not followed, and hosts that resolve to a private address are refused.
+export async function attemptWebhookDelivery(delivery: WebhookDeliveryRow): Promise<DeliveryOutcome> {
+  const endpoint = await getWebhookEndpointForDelivery(delivery.endpoint_id)
+
+  if (!endpoint || !endpoint.enabled) {
+    await updateWebhookDelivery(delivery.id, {
+      status: 'failed',
+      locked_at: null,
+      next_attempt_at: null,
+      last_error: 'The endpoint is disabled'
+    })
+    return 'failed'
+  }
+
+  const body = JSON.stringify(delivery.payload)
+  const timestamp = Math.floor(Date.now() / 1000).toString()
+  const startedAt = Date.now()
+
+  let responseStatus: number | null = null
+  let responseBody: string | null = null
+  let errorMessage: string | null = null
+
+  try {
+    const response = await postToEndpoint(endpoint.url, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'pdf-excel-converter-webhooks/1.0',
+      'x-webhook-id': delivery.event_id,
+      'x-webhook-timestamp': timestamp,
+      'x-webhook-signature': signWebhookPayload(body, timestamp, endpoint.secret)
+    }, body)
+
+    responseStatus = response.status
+    responseBody = response.body
+    if (response.status < 200 || response.status >= 300) {
+      errorMessage = `Endpoint responded with ${response.status}`
+    }
+  } catch (requestError) {
+    errorMessage = requestError instanceof Error ? requestError.message : 'Request failed'
+  }
+
+  const result = {
+    locked_at: null,
+    response_status: responseStatus,
+    response_body: responseBody,
+    duration_ms: Date.now() - startedAt
+  }
+
+  if (!errorMessage) {
+    await updateWebhookDelivery(delivery.id, {
+      ...result,
+      status: 'succeeded',
+      next_attempt_at: null,
+      last_error: null,
+      delivered_at: new Date().toISOString()
+    })
+    console.log(`[WEBHOOKS] Delivered ${delivery.event_type} ${delivery.event_id} to endpoint ${endpoint.id}`)
+    return 'succeeded'
+  }
+
+  console.error(`[WEBHOOKS] Attempt ${delivery.attempts}/${delivery.max_attempts} of delivery ${delivery.id} failed: ${errorMessage}`)
+
+  if (delivery.attempts >= delivery.max_attempts) {
+    await updateWebhookDelivery(delivery.id, {
+      ...result,
+      status: 'failed',
+      next_attempt_at: null,
+      last_error: errorMessage
+    })
+    return 'failed'
+  }
+
+  await updateWebhookDelivery(delivery.id, {
+    ...result,
+    status: 'pending',
+    next_attempt_at: new Date(Date.now() + getRetryDelay(delivery.attempts)).toISOString(),
+    last_error: errorMessage
+  })
+  return 'retrying'
+}
+
+// Attempt claimed deliveries side by side. A delivery whose attempt throws stays claimed and is picked up
+// again by the worker once its lock expires.
+async function attemptWebhookDeliveries(deliveries: WebhookDeliveryRow[]) {
+  const summary = { succeeded: 0, retrying: 0, failed: 0 }
+
+  await Promise.all(deliveries.map(async delivery => {
+    try {
+      summary[await attemptWebhookDelivery(delivery)]++
+    } catch (deliveryError) {
+      console.error(`[WEBHOOKS] Unexpected error delivering ${delivery.id}:`, deliveryError)
+    }
+  }))
+
+  return summary
+}
+
+// Notify the owner's endpoints that a conversion finished. Call after the conversion reached its final status.
+export async function dispatchConversionEvent(conversion: Conversion) {
+  const type = getWebhookEventType(conversion.status)
+  if (!type || !conversion.user_id) return null
+
+  const endpoints = await getSubscribedWebhookEndpoints(conversion.user_id, type)
+  if (endpoints.length === 0) return null
+
+  const event = buildConversionEvent(conversion, type)
+  const deliveries = await createClaimedWebhookDeliveries(endpoints.map(endpoint => ({
+    endpoint_id: endpoint.id,
+    user_id: endpoint.user_id,
+    conversion_id: conversion.id,
+    event_id: event.id,
+    event_type: type,
+    payload: event as unknown as Json
+  })))
+
+  return attemptWebhookDeliveries(deliveries)
+}
+
+// Send a delivery's event again as a new delivery with the same event ID, so receivers can deduplicate it
+export async function resendWebhookDelivery(original: WebhookDeliveryRow) {
+  const [delivery] = await createClaimedWebhookDeliveries([{
+    endpoint_id: original.endpoint_id,
+    user_id: original.user_id,
+    conversion_id: original.conversion_id,
+    event_id: original.event_id,
+    event_type: original.event_type,
+    payload: original.payload,
+    resent_from: original.id
+  }])
+
+  const outcome = await attemptWebhookDelivery(delivery)
+  return { delivery, outcome }
+}
+
+// Retry due deliveries. Called by the webhooks worker route.
+export async function drainWebhookDeliveries(batchSize = 20) {
+  const deliveries = await claimWebhookDeliveries(batchSize)
+  const summary = await attemptWebhookDeliveries(deliveries)
+  return { claimed: deliveries.length, ...summary }
+}
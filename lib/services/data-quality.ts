@@ -0,0 +1,132 @@
+import type { ConversionDetails, QualityWarning, ReconciliationRow, TransactionData } from '@/lib/supabase/types'
+import { checkNpwp } from '@/lib/validation/npwp'
+import { parseTanggal } from './excel-generator'
+
+// Differences below one rupiah are rounding in the source document
+const SUM_TOLERANCE = 1
+
+function getCompanyKey(nama: string) {
+  return nama.trim().toUpperCase()
+}
+
+function formatRupiah(amount: number) {
+  return `Rp ${amount.toLocaleString('id-ID')}`
+}
+
+function describeRows(transactions: TransactionData[], rows: number[]) {
+  const numbers = rows.map(index => transactions[index].no || index + 1)
+  return numbers.length > 5
+    ? `rows ${numbers.slice(0, 5).join(', ')} and ${numbers.length - 5} more`
+    : `row${numbers.length === 1 ? '' : 's'} ${numbers.join(', ')}`
+}
+
+// Compare each company's totalPajak with the withheld tax of its transactions
+export function reconcileSummaries(details: ConversionDetails): ReconciliationRow[] {
+  const transactionTotals = new Map<string, { total: number, count: number }>()
+  details.transaction_data.forEach(transaction => {
+    const key = getCompanyKey(transaction.nama)
+    const entry = transactionTotals.get(key) || { total: 0, count: 0 }
+    entry.total += Number(transaction.pajak_penghasilan) || 0
+    entry.count++
+    transactionTotals.set(key, entry)
+  })
+
+  return details.summaries.map(summary => {
+    const entry = transactionTotals.get(getCompanyKey(summary.json.nama)) || { total: 0, count: 0 }
+    const summaryTotal = Number(summary.json.totalPajak) || 0
+    return {
+      nama: summary.json.nama,
+      summaryTotal,
+      transactionTotal: entry.total,
+      difference: summaryTotal - entry.total,
+      transactionCount: entry.count
+    }
+  })
+}
+
+// Check stored extraction results for inconsistencies the extractor does not catch itself.
+// Warnings are informational: the results are kept either way.
+export function checkDataQuality(details: ConversionDetails): QualityWarning[] {
+  const transactions = details.transaction_data
+  const warnings: QualityWarning[] = []
+
+  reconcileSummaries(details)
+    .filter(row => Math.abs(row.difference) >= SUM_TOLERANCE)
+    .forEach(row => {
+      warnings.push({
+        type: 'sum_mismatch',
+        message: `Total pajak for ${row.nama} is ${formatRupiah(row.summaryTotal)} but its ${row.transactionCount} transactions add up to ${formatRupiah(row.transactionTotal)}`,
+        rows: transactions
+          .map((transaction, index) => getCompanyKey(transaction.nama) === getCompanyKey(row.nama) ? index : -1)
+          .filter(index => index !== -1),
+        company: row.nama,
+        expected: row.summaryTotal,
+        actual: row.transactionTotal
+      })
+    })
+
+  // Rows are numbered consecutively in the source; a jump usually means rows were skipped during extraction
+  const gapRows = transactions
+    .map((transaction, index) => {
+      if (index === 0) return -1
+      return Number(transaction.no) !== Number(transactions[index - 1].no) + 1 ? index : -1
+    })
+    .filter(index => index !== -1)
+  if (gapRows.length > 0) {
+    warnings.push({
+      type: 'row_sequence_gap',
+      message: `Row numbers do not follow on from the previous row at ${describeRows(transactions, gapRows)}; rows may be missing`,
+      rows: gapRows
+    })
+  }
+
+  const rowsByNomor = new Map<string, number[]>()
+  transactions.forEach((transaction, index) => {
+    const nomor = String(transaction.nomor ?? '').trim()
+    if (!nomor) return
+    rowsByNomor.set(nomor, [...(rowsByNomor.get(nomor) || []), index])
+  })
+  rowsByNomor.forEach((rows, nomor) => {
+    if (rows.length < 2) return
+    warnings.push({
+      type: 'duplicate_nomor',
+      message: `Nomor ${nomor} appears on ${describeRows(transactions, rows)}`,
+      rows
+    })
+  })
+
+  const negativeRows = transactions
+    .map((transaction, index) => Number(transaction.rupiah) < 0 || Number(transaction.pajak_penghasilan) < 0 ? index : -1)
+    .filter(index => index !== -1)
+  if (negativeRows.length > 0) {
+    warnings.push({
+      type: 'negative_amount',
+      message: `Negative amounts on ${describeRows(transactions, negativeRows)}`,
+      rows: negativeRows
+    })
+  }
+
+  const invalidDateRows = transactions
+    .map((transaction, index) => parseTanggal(transaction.tanggal) ? -1 : index)
+    .filter(index => index !== -1)
+  if (invalidDateRows.length > 0) {
+    warnings.push({
+      type: 'invalid_tanggal',
+      message: `Tanggal is missing or not a valid dd/mm/yyyy date on ${describeRows(transactions, invalidDateRows)}`,
+      rows: invalidDateRows
+    })
+  }
+
+  const missingNpwpRows = transactions
+    .map((transaction, index) => checkNpwp(transaction.npwp).issue === 'missing' ? index : -1)
+    .filter(index => index !== -1)
+  if (missingNpwpRows.length > 0) {
+    warnings.push({
+      type: 'missing_npwp',
+      message: `NPWP is missing on ${describeRows(transactions, missingNpwpRows)}`,
+      rows: missingNpwpRows
+    })
+  }
+
+  return warnings
+}
@@ -0,0 +1,334 @@
+import ExcelJS from 'exceljs'
+import { CompanySummary, ConsolidatedReport, ConversionDetails, IndomaretInvoice, ReportBreakdownRow, TransactionData } from '@/lib/supabase/types'
+import { checkNpwp, NPWP_ISSUE_MESSAGES } from '@/lib/validation/npwp'
+import { checkInvoiceTotals, describeInvoiceIssue } from './indomaret'
+
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+const RUPIAH_FORMAT = '"Rp" #,##0'
+const DATE_FORMAT = 'dd/mm/yyyy'
+
+const HEADER_FILL: ExcelJS.Fill = {
+  type: 'pattern',
+  pattern: 'solid',
+  fgColor: { argb: 'FFDBEAFE' }
+}
+
+const INVALID_FILL: ExcelJS.Fill = {
+  type: 'pattern',
+  pattern: 'solid',
+  fgColor: { argb: 'FFFEE2E2' }
+}
+
+// Parse SPT dates (dd/mm/yyyy) into UTC dates so Excel does not shift them by timezone
+export function parseTanggal(value: string): Date | null {
+  const match = /^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/.exec(value?.trim() || '')
+  if (!match) return null
+
+  const [, day, month, year] = match.map(Number)
+  const date = new Date(Date.UTC(year, month - 1, day))
+
+  // Reject overflowing values like 31/02/2024
+  if (date.getUTCDate() !== day || date.getUTCMonth() !== month - 1) return null
+  return date
+}
+
+// Collect every income type across all companies, in first-seen order
+export function getIncomeTypes(summaries: CompanySummary[]) {
+  const types: string[] = []
+  summaries.forEach(summary => {
+    Object.keys(summary.json.perJenis || {}).forEach(type => {
+      if (!types.includes(type)) types.push(type)
+    })
+  })
+  return types
+}
+
+function styleHeaderRow(worksheet: ExcelJS.Worksheet) {
+  const header = worksheet.getRow(1)
+  header.font = { bold: true }
+  header.fill = HEADER_FILL
+  header.alignment = { vertical: 'middle' }
+
+  worksheet.views = [{ state: 'frozen', ySplit: 1 }]
+  worksheet.autoFilter = {
+    from: { row: 1, column: 1 },
+    to: { row: 1, column: worksheet.columnCount }
+  }
+}
+
+const SOURCE_FILE_COLUMN = { header: 'File', key: 'file', width: 32 }
+
+// `sourceFiles` holds the originating PDF for each row; when given, a File column is added
+function addSummarySheet(workbook: ExcelJS.Workbook, summaries: CompanySummary[], sourceFiles?: string[]) {
+  const worksheet = workbook.addWorksheet('Ringkasan')
+  const incomeTypes = getIncomeTypes(summaries)
+  const hasNpwp = summaries.some(summary => summary.json.npwp !== undefined)
+
+  worksheet.columns = [
+    { header: 'No', key: 'no', width: 6 },
+    ...(sourceFiles ? [SOURCE_FILE_COLUMN] : []),
+    { header: 'Nama', key: 'nama', width: 40 },
+    ...(hasNpwp ? [{ header: 'NPWP', key: 'npwp', width: 24 }] : []),
+    { header: 'Total Pajak', key: 'totalPajak', width: 20, style: { numFmt: RUPIAH_FORMAT } },
+    ...incomeTypes.map(type => ({
+      header: type,
+      key: `jenis:${type}`,
+      width: Math.min(Math.max(type.length + 4, 16), 40),
+      style: { numFmt: RUPIAH_FORMAT }
+    }))
+  ]
+
+  summaries.forEach((summary, index) => {
+    const row: Record<string, string | number | null> = {
+      no: index + 1,
+      file: sourceFiles?.[index] ?? null,
+      nama: summary.json.nama,
+      npwp: summary.json.npwp ?? null,
+      totalPajak: Number(summary.json.totalPajak) || 0
+    }
+    incomeTypes.forEach(type => {
+      const amount = summary.json.perJenis?.[type]
+      row[`jenis:${type}`] = amount === undefined ? null : Number(amount) || 0
+    })
+    worksheet.addRow(row)
+  })
+
+  styleHeaderRow(worksheet)
+  return worksheet
+}
+
+function addTransactionSheet(workbook: ExcelJS.Workbook, transactions: TransactionData[], sourceFiles?: string[]) {
+  const worksheet = workbook.addWorksheet('Transaksi')
+
+  worksheet.columns = [
+    { header: 'No', key: 'no', width: 6 },
+    ...(sourceFiles ? [SOURCE_FILE_COLUMN] : []),
+    { header: 'Nama', key: 'nama', width: 40 },
+    { header: 'NPWP', key: 'npwp', width: 24 },
+    { header: 'Jenis Penghasilan', key: 'jenis_penghasilan', width: 32 },
+    { header: 'Rupiah', key: 'rupiah', width: 20, style: { numFmt: RUPIAH_FORMAT } },
+    { header: 'Pajak Penghasilan', key: 'pajak_penghasilan', width: 20, style: { numFmt: RUPIAH_FORMAT } },
+    { header: 'Nomor', key: 'nomor', width: 24 },
+    { header: 'Tanggal', key: 'tanggal', width: 14, style: { numFmt: DATE_FORMAT } },
+    { header: 'Status NPWP', key: 'npwpStatus', width: 40 }
+  ]
+
+  transactions.forEach((transaction, index) => {
+    const npwp = checkNpwp(transaction.npwp)
+    const row = worksheet.addRow({
+      // Numbering restarts in every file, so merged rows are numbered again
+      no: sourceFiles ? index + 1 : transaction.no,
+      file: sourceFiles?.[index] ?? null,
+      nama: transaction.nama,
+      // Keep NPWP as text so leading zeros survive
+      npwp: npwp.formatted,
+      jenis_penghasilan: transaction.jenis_penghasilan,
+      rupiah: Number(transaction.rupiah) || 0,
+      pajak_penghasilan: Number(transaction.pajak_penghasilan) || 0,
+      nomor: String(transaction.nomor ?? ''),
+      // Fall back to the raw string when the date cannot be parsed
+      tanggal: parseTanggal(transaction.tanggal) ?? transaction.tanggal,
+      npwpStatus: npwp.issue ? NPWP_ISSUE_MESSAGES[npwp.issue] : 'Valid'
+    })
+
+    if (npwp.issue) {
+      row.getCell('npwp').fill = INVALID_FILL
+    }
+  })
+
+  styleHeaderRow(worksheet)
+  return worksheet
+}
+
+export function buildConversionWorkbook(details: ConversionDetails) {
+  const workbook = new ExcelJS.Workbook()
+  workbook.creator = 'PDF to Excel'
+  workbook.created = new Date()
+
+  addSummarySheet(workbook, details.summaries)
+  addTransactionSheet(workbook, details.transaction_data)
+
+  return workbook
+}
+
+export async function generateConversionWorkbook(details: ConversionDetails): Promise<Buffer> {
+  const workbook = buildConversionWorkbook(details)
+  const buffer = await workbook.xlsx.writeBuffer()
+  return Buffer.from(buffer)
+}
+
+function addBreakdownSheet(workbook: ExcelJS.Workbook, rows: ReportBreakdownRow[]) {
+  const worksheet = workbook.addWorksheet('Per Jenis')
+
+  worksheet.columns = [
+    { header: 'NPWP', key: 'npwp', width: 24 },
+    { header: 'Nama', key: 'nama', width: 40 },
+    { header: 'Jenis Penghasilan', key: 'jenisPenghasilan', width: 32 },
+    { header: 'Jumlah Transaksi', key: 'transactionCount', width: 18 },
+    { header: 'Rupiah', key: 'rupiah', width: 20, style: { numFmt: RUPIAH_FORMAT } },
+    { header: 'Pajak Penghasilan', key: 'pajakPenghasilan', width: 20, style: { numFmt: RUPIAH_FORMAT } }
+  ]
+
+  rows.forEach(row => worksheet.addRow(row))
+
+  styleHeaderRow(worksheet)
+  return worksheet
+}
+
+function addSourcesSheet(workbook: ExcelJS.Workbook, sources: ConsolidatedReport['sources']) {
+  const worksheet = workbook.addWorksheet('Sumber')
+
+  worksheet.columns = [
+    { header: 'No', key: 'no', width: 6 },
+    { header: 'File', key: 'fileName', width: 40 },
+    { header: 'Jumlah Transaksi', key: 'transactionCount', width: 18 },
+    { header: 'Conversion ID', key: 'conversionId', width: 38 }
+  ]
+
+  sources.forEach((source, index) => worksheet.addRow({ no: index + 1, ...source }))
+
+  styleHeaderRow(worksheet)
+  return worksheet
+}
+
+// Consolidated report: totals per NPWP, a per-jenis breakdown, every merged transaction and the files used
+export function buildReportWorkbook(report: Omit<ConsolidatedReport, 'skipped'>) {
+  const workbook = new ExcelJS.Workbook()
+  workbook.creator = 'PDF to Excel'
+  workbook.created = new Date()
+
+  addSummarySheet(workbook, report.summaries)
+  addBreakdownSheet(workbook, report.breakdown)
+  addTransactionSheet(workbook, report.transactions, report.transactions.map(t => t.fileName))
+  addSourcesSheet(workbook, report.sources)
+
+  return workbook
+}
+
+export async function generateReportWorkbook(report: Omit<ConsolidatedReport, 'skipped'>): Promise<Buffer> {
+  const workbook = buildReportWorkbook(report)
+  const buffer = await workbook.xlsx.writeBuffer()
+  return Buffer.from(buffer)
+}
+
+export interface WorkbookSource {
+  fileName: string
+  details: ConversionDetails
+}
+
+// One workbook holding the results of several conversions, with each row tagged by the file it came from
+export function buildMergedWorkbook(sources: WorkbookSource[]) {
+  const workbook = new ExcelJS.Workbook()
+  workbook.creator = 'PDF to Excel'
+  workbook.created = new Date()
+
+  const summaries = sources.flatMap(source => source.details.summaries)
+  const transactions = sources.flatMap(source => source.details.transaction_data)
+
+  addSummarySheet(workbook, summaries, sources.flatMap(source => source.details.summaries.map(() => source.fileName)))
+  addTransactionSheet(workbook, transactions, sources.flatMap(source => source.details.transaction_data.map(() => source.fileName)))
+
+  return workbook
+}
+
+export async function generateMergedWorkbook(sources: WorkbookSource[]): Promise<Buffer> {
+  const workbook = buildMergedWorkbook(sources)
+  const buffer = await workbook.xlsx.writeBuffer()
+  return Buffer.from(buffer)
+}
+
+function addInvoiceSheet(workbook: ExcelJS.Workbook, invoices: IndomaretInvoice[]) {
+  const worksheet = workbook.addWorksheet('Faktur')
+
+  worksheet.columns = [
+    { header: 'No', key: 'no', width: 6 },
+    { header: 'Kode Toko', key: 'kode_toko', width: 12 },
+    { header: 'Nama Toko', key: 'nama_toko', width: 32 },
+    { header: 'Nomor Faktur', key: 'nomor_faktur', width: 24 },
+    { header: 'Tanggal', key: 'tanggal', width: 14, style: { numFmt: DATE_FORMAT } },
+    { header: 'Jumlah Item', key: 'itemCount', width: 12 },
+    { header: 'Subtotal', key: 'subtotal', width: 20, style: { numFmt: RUPIAH_FORMAT } },
+    { header: 'PPN', key: 'total_ppn', width: 18, style: { numFmt: RUPIAH_FORMAT } },
+    { header: 'Total', key: 'total', width: 20, style: { numFmt: RUPIAH_FORMAT } },
+    { header: 'Status', key: 'status', width: 48 }
+  ]
+
+  invoices.forEach((invoice, index) => {
+    const issues = checkInvoiceTotals(invoice)
+    const row = worksheet.addRow({
+      no: index + 1,
+      kode_toko: invoice.kode_toko,
+      nama_toko: invoice.nama_toko,
+      nomor_faktur: invoice.nomor_faktur,
+      tanggal: parseTanggal(invoice.tanggal) ?? invoice.tanggal,
+      itemCount: invoice.items.length,
+      subtotal: invoice.subtotal,
+      total_ppn: invoice.total_ppn,
+      total: invoice.total,
+      status: issues.length > 0 ? issues.map(issue => describeInvoiceIssue(issue, invoice)).join('; ') : 'Valid'
+    })
+
+    if (issues.length > 0) {
+      row.getCell('status').fill = INVALID_FILL
+    }
+  })
+
+  styleHeaderRow(worksheet)
+  return worksheet
+}
+
+function addInvoiceItemSheet(workbook: ExcelJS.Workbook, invoices: IndomaretInvoice[]) {
+  const worksheet = workbook.addWorksheet('Item')
+
+  worksheet.columns = [
+    { header: 'Nomor Faktur', key: 'nomor_faktur', width: 24 },
+    { header: 'Kode Toko', key: 'kode_toko', width: 12 },
+    { header: 'No', key: 'no', width: 6 },
+    // Keep SKUs as text so leading zeros survive
+    { header: 'SKU', key: 'sku', width: 14 },
+    { header: 'Nama Barang', key: 'nama_barang', width: 40 },
+    { header: 'Qty', key: 'qty', width: 8 },
+    { header: 'Harga Satuan', key: 'harga_satuan', width: 18, style: { numFmt: RUPIAH_FORMAT } },
+    { header: 'Diskon', key: 'diskon', width: 16, style: { numFmt: RUPIAH_FORMAT } },
+    { header: 'Jumlah', key: 'jumlah', width: 20, style: { numFmt: RUPIAH_FORMAT } },
+    { header: 'PPN', key: 'ppn', width: 16, style: { numFmt: RUPIAH_FORMAT } }
+  ]
+
+  invoices.forEach(invoice => {
+    invoice.items.forEach(item => {
+      worksheet.addRow({
+        nomor_faktur: invoice.nomor_faktur,
+        kode_toko: invoice.kode_toko,
+        no: item.no,
+        sku: String(item.sku),
+        nama_barang: item.nama_barang,
+        qty: item.qty,
+        harga_satuan: item.harga_satuan,
+        diskon: item.diskon,
+        jumlah: item.jumlah,
+        ppn: item.ppn
+      })
+    })
+  })
+
+  styleHeaderRow(worksheet)
+  return worksheet
+}
+
+export function buildInvoiceWorkbook(invoices: IndomaretInvoice[]) {
+  const workbook = new ExcelJS.Workbook()
+  workbook.creator = 'PDF to Excel'
+  workbook.created = new Date()
+
+  addInvoiceSheet(workbook, invoices)
+  addInvoiceItemSheet(workbook, invoices)
+
+  return workbook
+}
+
+export async function generateInvoiceWorkbook(invoices: IndomaretInvoice[]): Promise<Buffer> {
+  const workbook = buildInvoiceWorkbook(invoices)
+  const buffer = await workbook.xlsx.writeBuffer()
+  return Buffer.from(buffer)
+}
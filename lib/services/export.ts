@@ -0,0 +1,321 @@
+import {
+  ConversionDetails,
+  CreditHistoryEntry,
+  Database,
+  ExportFormat,
+  ExportOptions,
+  IndomaretInvoice,
+  TransactionData
+} from '@/lib/supabase/types'
+import { parseConversionDetails, parseConversionInvoices } from '@/lib/supabase/conversions'
+import {
+  generateConversionWorkbook,
+  generateInvoiceWorkbook,
+  getIncomeTypes,
+  parseTanggal,
+  XLSX_CONTENT_TYPE
+} from './excel-generator'
+import { generateConversionOds, generateInvoiceOds, ODS_CONTENT_TYPE } from './ods-generator'
+import { checkInvoiceTotals, describeInvoiceIssue } from './indomaret'
+import { getCreditReasonLabel } from './credit-history'
+import { checkNpwp, NPWP_ISSUE_MESSAGES } from '@/lib/validation/npwp'
+
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string, extension: string }> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  xlsx: { contentType: XLSX_CONTENT_TYPE, extension: 'xlsx' },
+  ods: { contentType: ODS_CONTENT_TYPE, extension: 'ods' },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' }
+}
+
+export function isExportFormat(value: string | null): value is ExportFormat {
+  return value !== null && value in EXPORT_FORMATS
+}
+
+// Content-Disposition for a file name derived from an upload. Quotes would end the header value early and
+// characters above U+00FF make the Headers constructor throw, so the plain `filename` gets an ASCII copy
+// and the real name goes in the RFC 5987 `filename*` parameter.
+export function getContentDisposition(type: 'inline' | 'attachment', fileName: string) {
+  const asciiName = fileName
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]|["\\]/gu, '_')
+    .trim() || 'download'
+  const encodedName = encodeURIComponent(fileName)
+    .replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+
+  return `${type}; filename="${asciiName}"; filename*=UTF-8''${encodedName}`
+}
+
+type CsvValue = string | number | null | undefined
+
+function formatCsvNumber(value: number, decimalFormat: 'id' | 'en') {
+  const text = Number.isFinite(value) ? String(value) : ''
+  return decimalFormat === 'id' ? text.replace('.', ',') : text
+}
+
+function escapeCsvValue(value: string, delimiter: string) {
+  if (value.includes(delimiter) || /["\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
+
+function toCsvLine(values: CsvValue[], options: Required<ExportOptions>) {
+  return values
+    .map(value => {
+      if (value === null || value === undefined) return ''
+      if (typeof value === 'number') {
+        return escapeCsvValue(formatCsvNumber(value, options.decimalFormat), options.delimiter)
+      }
+      return escapeCsvValue(value, options.delimiter)
+    })
+    .join(options.delimiter) + '\r\n'
+}
+
+export function resolveCsvOptions(options: ExportOptions = {}): Required<ExportOptions> {
+  const decimalFormat = options.decimalFormat || 'en'
+  return {
+    decimalFormat,
+    // A decimal comma cannot share the comma delimiter, so Indonesian exports default to semicolons
+    delimiter: options.delimiter || (decimalFormat === 'id' ? ';' : ','),
+    sheet: options.sheet || 'transactions'
+  }
+}
+
+function* csvLines(details: ConversionDetails, options: Required<ExportOptions>): Generator<string> {
+  if (options.sheet === 'summaries') {
+    const incomeTypes = getIncomeTypes(details.summaries)
+    yield toCsvLine(['No', 'Nama', 'Total Pajak', ...incomeTypes], options)
+
+    for (const [index, summary] of details.summaries.entries()) {
+      yield toCsvLine([
+        index + 1,
+        summary.json.nama,
+        Number(summary.json.totalPajak) || 0,
+        ...incomeTypes.map(type => summary.json.perJenis?.[type])
+      ], options)
+    }
+    return
+  }
+
+  yield toCsvLine(['No', 'Nama', 'NPWP', 'Jenis Penghasilan', 'Rupiah', 'Pajak Penghasilan', 'Nomor', 'Tanggal', 'Status NPWP'], options)
+
+  for (const transaction of details.transaction_data) {
+    const npwp = checkNpwp(transaction.npwp)
+    yield toCsvLine([
+      transaction.no,
+      transaction.nama,
+      npwp.formatted,
+      transaction.jenis_penghasilan,
+      Number(transaction.rupiah) || 0,
+      Number(transaction.pajak_penghasilan) || 0,
+      String(transaction.nomor ?? ''),
+      transaction.tanggal,
+      npwp.issue ? NPWP_ISSUE_MESSAGES[npwp.issue] : 'Valid'
+    ], options)
+  }
+}
+
+// `summaries` exports one row per invoice, `transactions` one row per line item
+function* invoiceCsvLines(invoices: IndomaretInvoice[], options: Required<ExportOptions>): Generator<string> {
+  if (options.sheet === 'summaries') {
+    yield toCsvLine(['No', 'Kode Toko', 'Nama Toko', 'Nomor Faktur', 'Tanggal', 'Jumlah Item', 'Subtotal', 'PPN', 'Total', 'Status'], options)
+
+    for (const [index, invoice] of invoices.entries()) {
+      const issues = checkInvoiceTotals(invoice)
+      yield toCsvLine([
+        index + 1,
+        invoice.kode_toko,
+        invoice.nama_toko,
+        invoice.nomor_faktur,
+        invoice.tanggal,
+        invoice.items.length,
+        invoice.subtotal,
+        invoice.total_ppn,
+        invoice.total,
+        issues.length > 0 ? issues.map(issue => describeInvoiceIssue(issue, invoice)).join('; ') : 'Valid'
+      ], options)
+    }
+    return
+  }
+
+  yield toCsvLine(['Nomor Faktur', 'Kode Toko', 'Tanggal', 'No', 'SKU', 'Nama Barang', 'Qty', 'Harga Satuan', 'Diskon', 'Jumlah', 'PPN'], options)
+
+  for (const invoice of invoices) {
+    for (const item of invoice.items) {
+      yield toCsvLine([
+        invoice.nomor_faktur,
+        invoice.kode_toko,
+        invoice.tanggal,
+        item.no,
+        item.sku,
+        item.nama_barang,
+        item.qty,
+        item.harga_satuan,
+        item.diskon,
+        item.jumlah,
+        item.ppn
+      ], options)
+    }
+  }
+}
+
+function* creditHistoryCsvLines(entries: CreditHistoryEntry[], options: Required<ExportOptions>): Generator<string> {
+  yield toCsvLine(['Date', 'Description', 'Reason', 'Conversion ID', 'File Name', 'Change', 'Balance'], options)
+
+  for (const entry of entries) {
+    yield toCsvLine([
+      entry.createdAt,
+      getCreditReasonLabel(entry.reason),
+      entry.reason,
+      entry.conversionId,
+      entry.fileName,
+      entry.delta,
+      entry.balanceAfter
+    ], options)
+  }
+}
+
+// Stream CSV rows so large transaction lists are not held in memory as one string
+function streamCsvLines(lines: Generator<string>) {
+  const encoder = new TextEncoder()
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      // BOM so Excel detects UTF-8
+      controller.enqueue(encoder.encode('\uFEFF'))
+    },
+    pull(controller) {
+      const next = lines.next()
+      if (next.done) {
+        controller.close()
+      } else {
+        controller.enqueue(encoder.encode(next.value))
+      }
+    }
+  })
+}
+
+export function createCsvStream(details: ConversionDetails, options: ExportOptions = {}) {
+  return streamCsvLines(csvLines(details, resolveCsvOptions(options)))
+}
+
+export function createInvoiceCsvStream(invoices: IndomaretInvoice[], options: ExportOptions = {}) {
+  return streamCsvLines(invoiceCsvLines(invoices, resolveCsvOptions(options)))
+}
+
+export function createCreditHistoryCsvStream(entries: CreditHistoryEntry[], options: ExportOptions = {}) {
+  return streamCsvLines(creditHistoryCsvLines(entries, resolveCsvOptions(options)))
+}
+
+function normalizeTransaction(transaction: TransactionData) {
+  const date = parseTanggal(transaction.tanggal)
+  const npwp = checkNpwp(transaction.npwp)
+  return {
+    no: Number(transaction.no) || 0,
+    nama: transaction.nama,
+    npwp: npwp.formatted,
+    npwpValid: npwp.valid,
+    npwpIssue: npwp.issue ?? null,
+    jenisPenghasilan: transaction.jenis_penghasilan,
+    rupiah: Number(transaction.rupiah) || 0,
+    pajakPenghasilan: Number(transaction.pajak_penghasilan) || 0,
+    nomor: String(transaction.nomor ?? ''),
+    tanggal: date ? date.toISOString().slice(0, 10) : null,
+    tanggalRaw: transaction.tanggal,
+    source: transaction.source ?? null
+  }
+}
+
+// Flatten the n8n `json` wrapper and use ISO dates for machine consumers
+export function normalizeConversionDetails(details: ConversionDetails) {
+  return {
+    summaries: details.summaries.map(summary => ({
+      nama: summary.json.nama,
+      totalPajak: Number(summary.json.totalPajak) || 0,
+      perJenis: summary.json.perJenis || {}
+    })),
+    transactions: details.transaction_data.map(normalizeTransaction)
+  }
+}
+
+// Invoices with ISO dates and the result of the totals check
+export function normalizeInvoices(invoices: IndomaretInvoice[]) {
+  return invoices.map(invoice => {
+    const date = parseTanggal(invoice.tanggal)
+    const issues = checkInvoiceTotals(invoice)
+    return {
+      kodeToko: invoice.kode_toko,
+      namaToko: invoice.nama_toko,
+      nomorFaktur: invoice.nomor_faktur,
+      tanggal: date ? date.toISOString().slice(0, 10) : null,
+      tanggalRaw: invoice.tanggal,
+      items: invoice.items.map(item => ({
+        no: item.no,
+        sku: item.sku,
+        namaBarang: item.nama_barang,
+        qty: item.qty,
+        hargaSatuan: item.harga_satuan,
+        diskon: item.diskon,
+        jumlah: item.jumlah,
+        ppn: item.ppn
+      })),
+      subtotal: invoice.subtotal,
+      totalPpn: invoice.total_ppn,
+      total: invoice.total,
+      totalsValid: issues.length === 0,
+      totalsIssues: issues.map(issue => describeInvoiceIssue(issue, invoice))
+    }
+  })
+}
+
+type Conversion = Database['public']['Tables']['conversions']['Row']
+
+export interface ConversionExport {
+  body: BodyInit
+  contentType: string
+  fileName: string
+}
+
+// Build the export file for a conversion's stored results, or null when nothing was extracted
+export async function buildConversionExport(
+  conversion: Conversion,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): Promise<ConversionExport | null> {
+  const details = parseConversionDetails(conversion)
+  // Indomaret conversions store invoices instead of SPT summaries and transactions
+  const invoices = details ? null : parseConversionInvoices(conversion)
+
+  if (!details && !invoices) return null
+
+  const { contentType, extension } = EXPORT_FORMATS[format]
+  const baseName = conversion.original_filename.replace(/\.pdf$/i, '')
+  const fileName = format === 'csv' && options.sheet === 'summaries'
+    ? `${baseName}-${invoices ? 'faktur' : 'ringkasan'}.${extension}`
+    : `${baseName}.${extension}`
+
+  let body: BodyInit
+  switch (format) {
+    case 'csv':
+      body = details ? createCsvStream(details, options) : createInvoiceCsvStream(invoices ?? [], options)
+      break
+    case 'xlsx':
+      body = new Uint8Array(details ? await generateConversionWorkbook(details) : await generateInvoiceWorkbook(invoices ?? []))
+      break
+    case 'ods':
+      body = new Uint8Array(details ? await generateConversionOds(details) : await generateInvoiceOds(invoices ?? []))
+      break
+    case 'json':
+      body = new TextEncoder().encode(JSON.stringify({
+        conversionId: conversion.id,
+        originalFilename: conversion.original_filename,
+        documentType: conversion.document_type,
+        createdAt: conversion.created_at,
+        ...(details ? normalizeConversionDetails(details) : { invoices: normalizeInvoices(invoices ?? []) })
+      }, null, 2))
+      break
+  }
+
+  return { body, contentType, fileName }
+}
@@ -0,0 +1,66 @@
+import type { IndomaretInvoice, IndomaretLineItem, InvoiceTotalsIssue } from '@/lib/supabase/types'
+
+// Differences below one rupiah are rounding in the source document
+const TOTALS_TOLERANCE = 1
+
+export function getLineAmount(item: Pick<IndomaretLineItem, 'qty' | 'harga_satuan' | 'diskon'>) {
+  return item.qty * item.harga_satuan - item.diskon
+}
+
+// Invoice totals as they follow from the line items
+export function totalInvoiceItems(items: Pick<IndomaretLineItem, 'jumlah' | 'ppn'>[]) {
+  const subtotal = items.reduce((sum, item) => sum + item.jumlah, 0)
+  const totalPpn = items.reduce((sum, item) => sum + item.ppn, 0)
+  return { subtotal, total_ppn: totalPpn, total: subtotal + totalPpn }
+}
+
+// Compare the printed line amounts and totals with what the other amounts add up to
+export function checkInvoiceTotals(invoice: IndomaretInvoice): InvoiceTotalsIssue[] {
+  const issues: InvoiceTotalsIssue[] = []
+  const differs = (expected: number, actual: number) => Math.abs(expected - actual) >= TOTALS_TOLERANCE
+
+  invoice.items.forEach((item, index) => {
+    const expected = getLineAmount(item)
+    if (differs(expected, item.jumlah)) {
+      issues.push({ field: 'jumlah', item: index, expected, actual: item.jumlah })
+    }
+  })
+
+  const computed = totalInvoiceItems(invoice.items)
+  if (differs(computed.subtotal, invoice.subtotal)) {
+    issues.push({ field: 'subtotal', expected: computed.subtotal, actual: invoice.subtotal })
+  }
+  if (differs(computed.total_ppn, invoice.total_ppn)) {
+    issues.push({ field: 'total_ppn', expected: computed.total_ppn, actual: invoice.total_ppn })
+  }
+  if (differs(invoice.subtotal + invoice.total_ppn, invoice.total)) {
+    issues.push({ field: 'total', expected: invoice.subtotal + invoice.total_ppn, actual: invoice.total })
+  }
+
+  return issues
+}
+
+export function summarizeInvoices(invoices: IndomaretInvoice[]) {
+  return {
+    invoiceCount: invoices.length,
+    storeCount: new Set(invoices.map(invoice => invoice.kode_toko)).size,
+    itemCount: invoices.reduce((sum, invoice) => sum + invoice.items.length, 0),
+    subtotal: invoices.reduce((sum, invoice) => sum + invoice.subtotal, 0),
+    totalPpn: invoices.reduce((sum, invoice) => sum + invoice.total_ppn, 0),
+    total: invoices.reduce((sum, invoice) => sum + invoice.total, 0)
+  }
+}
+
+const TOTALS_FIELD_LABELS: Record<InvoiceTotalsIssue['field'], string> = {
+  jumlah: 'Line amount',
+  subtotal: 'Subtotal',
+  total_ppn: 'PPN',
+  total: 'Total'
+}
+
+export function describeInvoiceIssue(issue: InvoiceTotalsIssue, invoice: IndomaretInvoice) {
+  const label = issue.item !== undefined
+    ? `${TOTALS_FIELD_LABELS[issue.field]} of item ${invoice.items[issue.item]?.no ?? issue.item + 1}`
+    : TOTALS_FIELD_LABELS[issue.field]
+  return `${label} is Rp ${issue.actual.toLocaleString('id-ID')} but should be Rp ${issue.expected.toLocaleString('id-ID')}`
+}
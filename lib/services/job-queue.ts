@@ -0,0 +1,185 @@
+import { createServiceClient } from '@/lib/supabase/server'
+import { trackEvent } from '@/lib/supabase/conversions'
+import { releaseConversionCredits } from '@/lib/supabase/credits'
+import { downloadOriginalFile } from '@/lib/supabase/storage'
+import { claimProcessingJobs, createClaimedProcessingJob, ProcessingJob, updateProcessingJob } from '@/lib/supabase/jobs'
+import { DispatchResult, getProcessingBackend, ProcessingError } from '@/lib/services/processing'
+import { transitionConversion } from '@/lib/services/conversion-status'
+import { dispatchConversionEvent } from '@/lib/services/customer-webhooks'
+import { DocumentType } from '@/lib/supabase/types'
+
+const BASE_BACKOFF_MS = 30 * 1000
+const MAX_BACKOFF_MS = 30 * 60 * 1000
+
+export type JobOutcome =
+  | { status: 'succeeded', result: DispatchResult }
+  | { status: 'retrying', error: string, nextRunAt: string }
+  | { status: 'dead', error: string }
+  | { status: 'skipped', reason: string }
+
+export interface EnqueueParams {
+  conversionId: string
+  userId: string
+  documentType: DocumentType
+  fileBuffer: Buffer
+}
+
+// Exponential backoff (30s, 1m, 2m, ...) capped at 30 minutes, with jitter so retries don't arrive together
+export function getBackoffDelay(attempt: number) {
+  const delay = Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempt - 1, 0), MAX_BACKOFF_MS)
+  return Math.round(delay * (0.8 + Math.random() * 0.4))
+}
+
+// Give up on a job: fail the conversion and return the credit that was charged for it
+async function deadLetterJob(job: ProcessingJob, errorMessage: string) {
+  const supabase = createServiceClient()
+
+  await updateProcessingJob(job.id, {
+    status: 'dead',
+    locked_at: null,
+    last_error: errorMessage
+  })
+
+  const failed = await transitionConversion(job.conversion_id, 'failed', {
+    error_message: `Failed to process: ${errorMessage}`,
+    completed_at: new Date().toISOString()
+  }, supabase)
+
+  // Someone else (a webhook or the watchdog) already finished the conversion and settled its credit
+  if (!failed) {
+    console.log(`[JOB QUEUE] Job ${job.id} dead-lettered; conversion ${job.conversion_id} was already finished`)
+    return
+  }
+
+  await releaseConversionCredits([job.conversion_id], 'conversion_failed_refund')
+
+  try {
+    await trackEvent(job.user_id, 'conversion_failed', job.conversion_id, {
+      error: errorMessage,
+      attempts: job.attempts,
+      dead_lettered: true
+    }, supabase)
+  } catch (trackError) {
+    console.error('Failed to track event:', trackError)
+  }
+
+  try {
+    await dispatchConversionEvent(failed)
+  } catch (dispatchError) {
+    console.error('Failed to dispatch customer webhooks:', dispatchError)
+  }
+
+  console.log(`[JOB QUEUE] Job ${job.id} dead-lettered after ${job.attempts} attempts: ${errorMessage}`)
+}
+
+// Run one claimed job. The file buffer is only passed by the request that uploaded it;
+// later attempts read the stored original.
+export async function runProcessingJob(job: ProcessingJob, fileBuffer?: Buffer): Promise<JobOutcome> {
+  const supabase = createServiceClient()
+
+  const { data: conversion, error: fetchError } = await supabase
+    .from('conversions')
+    .select('*')
+    .eq('id', job.conversion_id)
+    .single()
+
+  // PGRST116 means no row; any other error is transient and leaves the job to be reclaimed
+  if (fetchError && fetchError.code !== 'PGRST116') throw fetchError
+
+  // The conversion was deleted or already finished (e.g. by a late webhook); nothing left to do
+  if (!conversion || !['pending', 'processing'].includes(conversion.status)) {
+    await updateProcessingJob(job.id, { status: 'succeeded', locked_at: null })
+    return { status: 'skipped', reason: conversion ? `Conversion is ${conversion.status}` : 'Conversion not found' }
+  }
+
+  const documentType = job.document_type as DocumentType
+  const backend = getProcessingBackend(documentType)
+
+  try {
+    if (!backend) {
+      throw new ProcessingError(`Processing for ${documentType} documents is not configured`)
+    }
+
+    let buffer = fileBuffer
+    if (!buffer) {
+      if (!conversion.original_file_path) {
+        throw new ProcessingError('The original file is no longer available', false)
+      }
+      buffer = await downloadOriginalFile(conversion.original_file_path, supabase)
+    }
+
+    // Mark the conversion as picked up before dispatching, so a fast callback finds it processing
+    if (conversion.status === 'pending') {
+      const started = await transitionConversion(conversion.id, 'processing', {
+        started_at: new Date().toISOString(),
+        progress_stage: 'validation',
+        progress_percent: 0,
+        progress_message: `Sending to ${backend.name}`,
+        progress_updated_at: new Date().toISOString()
+      }, supabase)
+
+      if (!started) {
+        await updateProcessingJob(job.id, { status: 'succeeded', locked_at: null })
+        return { status: 'skipped', reason: 'Conversion is no longer pending' }
+      }
+    }
+
+    console.log(`[JOB QUEUE] Attempt ${job.attempts}/${job.max_attempts} for conversion ${job.conversion_id} via ${backend.name}`)
+
+    const result = await backend.dispatch({
+      conversionId: conversion.id,
+      userId: job.user_id,
+      fileName: conversion.original_filename,
+      fileSize: conversion.file_size || buffer.length,
+      documentType,
+      fileBuffer: buffer
+    })
+
+    await updateProcessingJob(job.id, { status: 'succeeded', locked_at: null, last_error: null })
+    return { status: 'succeeded', result }
+
+  } catch (dispatchError) {
+    const errorMessage = dispatchError instanceof Error ? dispatchError.message : 'Unknown error'
+    const retryable = !(dispatchError instanceof ProcessingError) || dispatchError.retryable
+    console.error(`[JOB QUEUE] Attempt ${job.attempts} for job ${job.id} failed:`, errorMessage)
+
+    if (!retryable || job.attempts >= job.max_attempts) {
+      await deadLetterJob(job, errorMessage)
+      return { status: 'dead', error: errorMessage }
+    }
+
+    const nextRunAt = new Date(Date.now() + getBackoffDelay(job.attempts)).toISOString()
+    await updateProcessingJob(job.id, {
+      status: 'queued',
+      run_at: nextRunAt,
+      locked_at: null,
+      last_error: errorMessage
+    })
+
+    return { status: 'retrying', error: errorMessage, nextRunAt }
+  }
+}
+
+// Queue a conversion and make the first attempt right away with the uploaded file
+export async function enqueueConversion(params: EnqueueParams) {
+  const job = await createClaimedProcessingJob(params.conversionId, params.userId, params.documentType)
+  return runProcessingJob(job, params.fileBuffer)
+}
+
+// Process due jobs one at a time. Called by the worker route.
+export async function drainProcessingJobs(batchSize = 10) {
+  const jobs = await claimProcessingJobs(batchSize)
+  const summary = { claimed: jobs.length, succeeded: 0, retrying: 0, dead: 0, skipped: 0 }
+
+  for (const job of jobs) {
+    try {
+      const outcome = await runProcessingJob(job)
+      summary[outcome.status]++
+    } catch (error) {
+      // Leave the job running; the claim lock expires and another worker picks it up
+      console.error(`[JOB QUEUE] Unexpected error running job ${job.id}:`, error)
+    }
+  }
+
+  return summary
+}
@@ -0,0 +1,184 @@
+import JSZip from 'jszip'
+import { ConversionDetails, IndomaretInvoice } from '@/lib/supabase/types'
+import { checkNpwp, NPWP_ISSUE_MESSAGES } from '@/lib/validation/npwp'
+import { getIncomeTypes, parseTanggal } from './excel-generator'
+import { checkInvoiceTotals, describeInvoiceIssue } from './indomaret'
+
+export const ODS_CONTENT_TYPE = 'application/vnd.oasis.opendocument.spreadsheet'
+
+type OdsCell =
+  | { type: 'string', value: string }
+  | { type: 'float', value: number, currency?: boolean }
+  | { type: 'date', value: Date }
+  | { type: 'empty' }
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+const text = (value: unknown): OdsCell => ({ type: 'string', value: String(value ?? '') })
+const rupiah = (value: unknown): OdsCell => ({ type: 'float', value: Number(value) || 0, currency: true })
+const number = (value: unknown): OdsCell => ({ type: 'float', value: Number(value) || 0 })
+const tanggal = (value: string): OdsCell => {
+  const date = parseTanggal(value)
+  return date ? { type: 'date', value: date } : text(value)
+}
+
+function renderCell(cell: OdsCell) {
+  switch (cell.type) {
+    case 'string':
+      return `<table:table-cell office:value-type="string"><text:p>${escapeXml(cell.value)}</text:p></table:table-cell>`
+    case 'float':
+      return `<table:table-cell${cell.currency ? ' table:style-name="ceRupiah"' : ''} office:value-type="float" office:value="${cell.value}"><text:p>${cell.value}</text:p></table:table-cell>`
+    case 'date': {
+      const iso = cell.value.toISOString().slice(0, 10)
+      return `<table:table-cell table:style-name="ceDate" office:value-type="date" office:date-value="${iso}"><text:p>${iso}</text:p></table:table-cell>`
+    }
+    default:
+      return '<table:table-cell/>'
+  }
+}
+
+function renderTable(name: string, header: string[], rows: OdsCell[][]) {
+  const headerRow = `<table:table-row table:style-name="roHeader">${header
+    .map(h => `<table:table-cell table:style-name="ceHeader" office:value-type="string"><text:p>${escapeXml(h)}</text:p></table:table-cell>`)
+    .join('')}</table:table-row>`
+
+  return `<table:table table:name="${escapeXml(name)}">` +
+    `<table:table-column table:number-columns-repeated="${header.length}"/>` +
+    `<table:table-header-rows>${headerRow}</table:table-header-rows>` +
+    rows.map(row => `<table:table-row>${row.map(renderCell).join('')}</table:table-row>`).join('') +
+    '</table:table>'
+}
+
+function buildContentXml(details: ConversionDetails) {
+  const incomeTypes = getIncomeTypes(details.summaries)
+
+  const summaryTable = renderTable(
+    'Ringkasan',
+    ['No', 'Nama', 'Total Pajak', ...incomeTypes],
+    details.summaries.map((summary, index) => [
+      { type: 'float', value: index + 1 },
+      text(summary.json.nama),
+      rupiah(summary.json.totalPajak),
+      ...incomeTypes.map((type): OdsCell => {
+        const amount = summary.json.perJenis?.[type]
+        return amount === undefined ? { type: 'empty' } : rupiah(amount)
+      })
+    ])
+  )
+
+  const transactionTable = renderTable(
+    'Transaksi',
+    ['No', 'Nama', 'NPWP', 'Jenis Penghasilan', 'Rupiah', 'Pajak Penghasilan', 'Nomor', 'Tanggal', 'Status NPWP'],
+    details.transaction_data.map(transaction => {
+      const date = parseTanggal(transaction.tanggal)
+      const npwp = checkNpwp(transaction.npwp)
+      return [
+        { type: 'float', value: Number(transaction.no) || 0 },
+        text(transaction.nama),
+        text(npwp.formatted),
+        text(transaction.jenis_penghasilan),
+        rupiah(transaction.rupiah),
+        rupiah(transaction.pajak_penghasilan),
+        text(transaction.nomor),
+        date ? { type: 'date', value: date } : text(transaction.tanggal),
+        text(npwp.issue ? NPWP_ISSUE_MESSAGES[npwp.issue] : 'Valid')
+      ]
+    })
+  )
+
+  return wrapContentXml(summaryTable + transactionTable)
+}
+
+function buildInvoiceContentXml(invoices: IndomaretInvoice[]) {
+  const invoiceTable = renderTable(
+    'Faktur',
+    ['No', 'Kode Toko', 'Nama Toko', 'Nomor Faktur', 'Tanggal', 'Jumlah Item', 'Subtotal', 'PPN', 'Total', 'Status'],
+    invoices.map((invoice, index) => {
+      const issues = checkInvoiceTotals(invoice)
+      return [
+        number(index + 1),
+        text(invoice.kode_toko),
+        text(invoice.nama_toko),
+        text(invoice.nomor_faktur),
+        tanggal(invoice.tanggal),
+        number(invoice.items.length),
+        rupiah(invoice.subtotal),
+        rupiah(invoice.total_ppn),
+        rupiah(invoice.total),
+        text(issues.length > 0 ? issues.map(issue => describeInvoiceIssue(issue, invoice)).join('; ') : 'Valid')
+      ]
+    })
+  )
+
+  const itemTable = renderTable(
+    'Item',
+    ['Nomor Faktur', 'Kode Toko', 'No', 'SKU', 'Nama Barang', 'Qty', 'Harga Satuan', 'Diskon', 'Jumlah', 'PPN'],
+    invoices.flatMap(invoice => invoice.items.map(item => [
+      text(invoice.nomor_faktur),
+      text(invoice.kode_toko),
+      number(item.no),
+      text(item.sku),
+      text(item.nama_barang),
+      number(item.qty),
+      rupiah(item.harga_satuan),
+      rupiah(item.diskon),
+      rupiah(item.jumlah),
+      rupiah(item.ppn)
+    ]))
+  )
+
+  return wrapContentXml(invoiceTable + itemTable)
+}
+
+function wrapContentXml(tables: string) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-content
+  xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"
+  xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"
+  xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"
+  xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"
+  xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"
+  xmlns:number="urn:oasis:names:tc:opendocument:xmlns:datastyle:1.0"
+  office:version="1.2">
+<office:automatic-styles>
+  <number:number-style style:name="nRupiah"><number:text>Rp </number:text><number:number number:decimal-places="0" number:grouping="true"/></number:number-style>
+  <number:date-style style:name="nDate"><number:day number:style="long"/><number:text>/</number:text><number:month number:style="long"/><number:text>/</number:text><number:year number:style="long"/></number:date-style>
+  <style:style style:name="roHeader" style:family="table-row"/>
+  <style:style style:name="ceHeader" style:family="table-cell"><style:table-cell-properties fo:background-color="#dbeafe"/><style:text-properties fo:font-weight="bold"/></style:style>
+  <style:style style:name="ceRupiah" style:family="table-cell" style:data-style-name="nRupiah"/>
+  <style:style style:name="ceDate" style:family="table-cell" style:data-style-name="nDate"/>
+</office:automatic-styles>
+<office:body><office:spreadsheet>${tables}</office:spreadsheet></office:body>
+</office:document-content>`
+}
+
+const MANIFEST_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.2">
+  <manifest:file-entry manifest:full-path="/" manifest:media-type="${ODS_CONTENT_TYPE}"/>
+  <manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>
+</manifest:manifest>`
+
+function packageOds(contentXml: string): Promise<Buffer> {
+  const zip = new JSZip()
+
+  // The mimetype entry must come first and be stored uncompressed
+  zip.file('mimetype', ODS_CONTENT_TYPE, { compression: 'STORE' })
+  zip.file('content.xml', contentXml)
+  zip.file('META-INF/manifest.xml', MANIFEST_XML)
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+}
+
+export async function generateConversionOds(details: ConversionDetails): Promise<Buffer> {
+  return packageOds(buildContentXml(details))
+}
+
+export async function generateInvoiceOds(invoices: IndomaretInvoice[]): Promise<Buffer> {
+  return packageOds(buildInvoiceContentXml(invoices))
+}
@@ -0,0 +1,56 @@
+import { DispatchParams, DispatchResult, ProcessingBackend } from './types'
+
+export interface FakeBackendOptions {
+  // Make every dispatch throw with this message
+  failWith?: string
+  healthy?: boolean
+}
+
+export interface FakeProcessingBackend extends ProcessingBackend {
+  dispatched: Map<string, DispatchParams>
+  cancelled: string[]
+  reset(): void
+}
+
+// In-memory backend for tests and local UI work. Records dispatches without touching the database.
+export function createFakeBackend(options: FakeBackendOptions = {}): FakeProcessingBackend {
+  const dispatched = new Map<string, DispatchParams>()
+  const cancelled: string[] = []
+
+  return {
+    name: 'fake',
+    config: {},
+    dispatched,
+    cancelled,
+
+    isConfigured() {
+      return true
+    },
+
+    async dispatch(params: DispatchParams): Promise<DispatchResult> {
+      if (options.failWith) {
+        throw new Error(options.failWith)
+      }
+
+      console.log(`[FAKE BACKEND] Accepted ${params.documentType} conversion ${params.conversionId}`)
+      dispatched.set(params.conversionId, params)
+      return { status: 'processing', message: 'Accepted by fake backend' }
+    },
+
+    async cancel(conversionId: string) {
+      if (!dispatched.delete(conversionId)) return false
+      cancelled.push(conversionId)
+      return true
+    },
+
+    async health() {
+      const healthy = options.healthy ?? true
+      return { healthy, message: healthy ? undefined : 'Fake backend marked unhealthy' }
+    },
+
+    reset() {
+      dispatched.clear()
+      cancelled.length = 0
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { DocumentType } from '@/lib/supabase/types'
+import { createN8NBackend } from './n8n-backend'
+import { localParserBackend } from './local-backend'
+import { createFakeBackend } from './fake-backend'
+import { ProcessingBackend } from './types'
+
+export type { BackendHealth, DispatchParams, DispatchResult, ProcessingBackend } from './types'
+export { createFakeBackend } from './fake-backend'
+export { ProcessingError } from './types'
+
+// Backends per document type, in order of preference. The first configured one handles the conversion.
+const registry: Record<DocumentType, ProcessingBackend[]> = {
+  spt: [
+    createN8NBackend('n8n-spt', 'N8N_WEBHOOK_URL'),
+    localParserBackend
+  ],
+  indomaret: [
+    createN8NBackend('n8n-indomaret', 'N8N_WEBHOOK_INDOMARET_URL')
+  ]
+}
+
+// How long a conversion may stay in 'processing' before the watchdog fails it
+export const PROCESSING_SLA_MS: Record<DocumentType, number> = {
+  spt: 10 * 60 * 1000,
+  indomaret: 15 * 60 * 1000
+}
+
+// PROCESSING_BACKEND=fake routes every document type to one shared in-memory backend
+const fakeBackend = process.env.PROCESSING_BACKEND === 'fake' ? createFakeBackend() : null
+
+export const DOCUMENT_TYPES = Object.keys(registry) as DocumentType[]
+
+export function isDocumentType(value: unknown): value is DocumentType {
+  return typeof value === 'string' && value in registry
+}
+
+// Put a backend in front of the existing ones for a document type
+export function registerProcessingBackend(documentType: DocumentType, backend: ProcessingBackend) {
+  registry[documentType] = [backend, ...registry[documentType].filter(existing => existing.name !== backend.name)]
+}
+
+export function getProcessingBackend(documentType: DocumentType): ProcessingBackend | null {
+  if (fakeBackend) return fakeBackend
+  return registry[documentType]?.find(backend => backend.isConfigured()) ?? null
+}
+
+// Registry state for the debug endpoint, including a live health check of each configured backend
+export async function describeProcessingBackends() {
+  const entries = await Promise.all(
+    DOCUMENT_TYPES.map(async documentType => {
+      const active = getProcessingBackend(documentType)
+      const backends = await Promise.all(
+        registry[documentType].map(async backend => ({
+          name: backend.name,
+          configured: backend.isConfigured(),
+          config: backend.config,
+          health: backend.isConfigured() ? await backend.health() : null
+        }))
+      )
+      return [documentType, { active: active?.name ?? null, backends }] as const
+    })
+  )
+
+  return Object.fromEntries(entries)
+}
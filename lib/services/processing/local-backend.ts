@@ -0,0 +1,103 @@
+import { createServiceClient } from '@/lib/supabase/server'
+import { trackEvent, updateConversionDetails, updateConversionProgress } from '@/lib/supabase/conversions'
+import { commitConversionCredit } from '@/lib/supabase/credits'
+import { LocalParseResult, parseDocument } from '@/lib/services/spt-parser'
+import { transitionConversion } from '@/lib/services/conversion-status'
+import { dispatchConversionEvent } from '@/lib/services/customer-webhooks'
+import { DispatchParams, DispatchResult, ProcessingBackend, ProcessingError } from './types'
+
+// Parse the PDF in-process and complete the conversion. Throws when the document cannot be parsed.
+async function processConversionLocally(params: DispatchParams) {
+  // Service client so this also works from the queue worker, outside a user request
+  const supabase = createServiceClient()
+
+  await updateConversionProgress(params.conversionId, {
+    stage: 'pdf_parse',
+    percent: 20,
+    message: 'Reading the PDF text layer'
+  }, supabase)
+
+  let result: LocalParseResult
+  try {
+    result = await parseDocument(params.fileBuffer, params.documentType)
+  } catch (parseError) {
+    // Parsing is deterministic, so running it again would fail the same way
+    throw new ProcessingError(parseError instanceof Error ? parseError.message : 'Failed to parse document', false)
+  }
+
+  await updateConversionProgress(params.conversionId, {
+    stage: 'sheet_population',
+    percent: 90,
+    message: `Saving ${result.totalRows} transactions`
+  }, supabase)
+
+  await updateConversionDetails(params.conversionId, result.summaries, result.transaction_data, supabase)
+
+  const completed = await transitionConversion(params.conversionId, 'completed', {
+    completed_at: new Date().toISOString(),
+    download_url: `/api/download/${params.conversionId}`,
+    error_message: null,
+    tables_extracted: result.tablesExtracted,
+    total_rows: result.totalRows,
+    processing_time_ms: result.processingTimeMs
+  }, supabase)
+
+  // The watchdog failed it while we were parsing; the credit has already been refunded
+  if (!completed) {
+    throw new ProcessingError('The conversion is no longer processing', false)
+  }
+
+  try {
+    await commitConversionCredit(params.conversionId)
+  } catch (creditError) {
+    console.error('Failed to commit conversion credit:', creditError)
+  }
+
+  try {
+    await trackEvent(params.userId, 'conversion_success', params.conversionId, {
+      file_name: params.fileName,
+      processing_time: result.processingTimeMs,
+      pages: result.pages,
+      tables: result.tablesExtracted,
+      processor: 'local'
+    }, supabase)
+  } catch (trackError) {
+    console.error('Failed to track event:', trackError)
+  }
+
+  try {
+    await dispatchConversionEvent(completed)
+  } catch (dispatchError) {
+    console.error('Failed to dispatch customer webhooks:', dispatchError)
+  }
+
+  return result
+}
+
+// Text-layer parser running in-process, so the conversion is already complete when dispatch returns
+export const localParserBackend: ProcessingBackend = {
+  name: 'local-parser',
+  config: {},
+
+  isConfigured() {
+    return true
+  },
+
+  async dispatch(params: DispatchParams): Promise<DispatchResult> {
+    const result = await processConversionLocally(params)
+    return {
+      status: 'completed',
+      totalRows: result.totalRows,
+      message: `${result.totalRows} transactions extracted.`
+    }
+  },
+
+  async cancel() {
+    // Parsing completes within the dispatch call, so there is never anything in flight
+    return false
+  },
+
+  async health() {
+    return { healthy: true }
+  }
+}
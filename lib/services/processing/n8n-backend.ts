@@ -0,0 +1,116 @@
+import { BackendHealth, DispatchParams, DispatchResult, ProcessingBackend, ProcessingError } from './types'
+
+const N8N_WEBHOOK_SECRET = process.env.N8N_WEBHOOK_SECRET
+const HEALTH_TIMEOUT_MS = 5000
+
+// Send a file to the n8n workflow for processing. Throws when the webhook rejects the request.
+async function dispatchToN8N(webhookUrl: string, params: DispatchParams) {
+  console.log(`Sending file to ${params.documentType} webhook: ${params.fileName} (${params.fileSize} bytes)`)
+
+  const webhookPayload = {
+    conversionId: params.conversionId,
+    userId: params.userId,
+    fileName: params.fileName,
+    fileSize: params.fileSize,
+    documentType: params.documentType,
+    fileData: params.fileBuffer.toString('base64'),
+    callbackUrl: `${process.env.NEXT_PUBLIC_APP_URL}/api/webhooks/n8n`,
+    secret: N8N_WEBHOOK_SECRET
+  }
+
+  console.log('Webhook URL:', webhookUrl)
+  console.log('Document Type:', params.documentType)
+  console.log('Auth header will be:', N8N_WEBHOOK_SECRET ? '[REDACTED]' : 'NOT_SET')
+
+  const webhookResponse = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `${N8N_WEBHOOK_SECRET}`
+    },
+    body: JSON.stringify(webhookPayload)
+  })
+
+  if (!webhookResponse.ok) {
+    const errorText = await webhookResponse.text()
+    console.error('Webhook response error:', webhookResponse.status, errorText)
+    // Client errors mean the payload was rejected and will be rejected again; timeouts and rate limits are transient
+    const retryable = webhookResponse.status >= 500 || webhookResponse.status === 408 || webhookResponse.status === 429
+    throw new ProcessingError(`Webhook failed: ${webhookResponse.status} ${webhookResponse.statusText}`, retryable)
+  }
+
+  // Handle webhook response - it might not be JSON
+  const responseText = await webhookResponse.text()
+  console.log('Webhook raw response:', responseText)
+
+  try {
+    const webhookResult = JSON.parse(responseText)
+    console.log('Webhook parsed response:', webhookResult)
+    return webhookResult
+  } catch {
+    console.log('Webhook response is not JSON, treating as success')
+    return { success: true, message: responseText }
+  }
+}
+
+// n8n workflow reached over HTTP. Completion is reported back through /api/webhooks/n8n.
+export function createN8NBackend(name: string, urlEnvVar: string): ProcessingBackend {
+  const getUrl = () => process.env[urlEnvVar]
+
+  return {
+    name,
+    config: {
+      [urlEnvVar]: getUrl() || 'NOT_SET',
+      N8N_WEBHOOK_SECRET: N8N_WEBHOOK_SECRET ? '[REDACTED]' : 'NOT_SET'
+    },
+
+    isConfigured() {
+      return !!getUrl()
+    },
+
+    async dispatch(params: DispatchParams): Promise<DispatchResult> {
+      const webhookUrl = getUrl()
+      if (!webhookUrl) {
+        throw new ProcessingError(`${urlEnvVar} is not configured`)
+      }
+
+      const webhookResult = await dispatchToN8N(webhookUrl, params)
+      return {
+        status: 'processing',
+        message: typeof webhookResult?.message === 'string' ? webhookResult.message : undefined
+      }
+    },
+
+    async cancel() {
+      // The n8n workflow exposes no way to stop an execution once it has started
+      return false
+    },
+
+    async health(): Promise<BackendHealth> {
+      const webhookUrl = getUrl()
+      if (!webhookUrl) {
+        return { healthy: false, message: `${urlEnvVar} is not configured` }
+      }
+
+      const startTime = Date.now()
+      try {
+        const response = await fetch(webhookUrl, {
+          method: 'HEAD',
+          signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS)
+        })
+        // n8n answers 404/405 for HEAD on a live webhook; only server errors mean it is down
+        return {
+          healthy: response.status < 500,
+          message: `HTTP ${response.status}`,
+          latencyMs: Date.now() - startTime
+        }
+      } catch (error) {
+        return {
+          healthy: false,
+          message: error instanceof Error ? error.message : 'Unreachable',
+          latencyMs: Date.now() - startTime
+        }
+      }
+    }
+  }
+}
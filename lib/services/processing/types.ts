@@ -0,0 +1,44 @@
+import { DocumentType } from '@/lib/supabase/types'
+
+export interface DispatchParams {
+  conversionId: string
+  userId: string
+  fileName: string
+  fileSize: number
+  documentType: DocumentType
+  fileBuffer: Buffer
+}
+
+export interface DispatchResult {
+  // 'processing' means the backend will report completion later (e.g. via webhook callback);
+  // 'completed' means the conversion row has already been finalized
+  status: 'processing' | 'completed'
+  message?: string
+  totalRows?: number
+}
+
+export interface BackendHealth {
+  healthy: boolean
+  message?: string
+  latencyMs?: number
+}
+
+export interface ProcessingBackend {
+  name: string
+  // Non-secret settings shown on the debug endpoint
+  config: Record<string, string>
+  isConfigured(): boolean
+  // Start processing a conversion. Throws when the backend rejects the request.
+  dispatch(params: DispatchParams): Promise<DispatchResult>
+  // Stop an in-flight conversion. Returns false when the backend cannot cancel work it has accepted.
+  cancel(conversionId: string): Promise<boolean>
+  health(): Promise<BackendHealth>
+}
+
+// Thrown by backends to say whether the job queue should try the dispatch again
+export class ProcessingError extends Error {
+  constructor(message: string, public retryable = true) {
+    super(message)
+    this.name = 'ProcessingError'
+  }
+}
@@ -0,0 +1,25 @@
+import { ConversionStatus, Database, DocumentType, PublicConversion } from '@/lib/supabase/types'
+
+type Conversion = Database['public']['Tables']['conversions']['Row']
+
+export type PublicConversionSource = Pick<
+  Conversion,
+  'id' | 'status' | 'document_type' | 'original_filename' | 'file_size' | 'total_rows' | 'error_message' | 'batch_id' | 'created_at' | 'completed_at'
+>
+
+// The stable /api/v1 representation of a conversion; extracted data is only available through the download
+export function toPublicConversion(conversion: PublicConversionSource): PublicConversion {
+  return {
+    id: conversion.id,
+    status: conversion.status as ConversionStatus,
+    documentType: conversion.document_type as DocumentType,
+    originalFilename: conversion.original_filename,
+    fileSize: conversion.file_size,
+    totalRows: conversion.total_rows,
+    errorMessage: conversion.error_message,
+    batchId: conversion.batch_id,
+    createdAt: conversion.created_at,
+    completedAt: conversion.completed_at,
+    downloadUrl: conversion.status === 'completed' ? `/api/v1/conversions/${conversion.id}/download` : null
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { takeRateLimitToken } from '@/lib/supabase/rate-limits'
+import { APIError, RateLimitScope } from '@/lib/supabase/types'
+
+export interface RateLimitSubject {
+  userId?: string | null
+  apiKeyId?: string | null
+  ip?: string | null
+}
+
+export type RateLimitResult =
+  | { success: true, headers: Record<string, string> }
+  | { success: false, error: APIError, status: number, headers: Record<string, string> }
+
+export function getClientIp(request: NextRequest) {
+  return request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.ip || null
+}
+
+// Every response after the limiter ran carries its headers, since the request used up a token either way
+export function withRateLimitHeaders(response: NextResponse, headers: Record<string, string>) {
+  Object.entries(headers).forEach(([name, value]) => response.headers.set(name, value))
+  return response
+}
+
+// API keys get their own bucket so integrations do not eat into the owner's dashboard limit
+function getBucketKey(scope: RateLimitScope, subject: RateLimitSubject) {
+  if (subject.apiKeyId) return `${scope}:key:${subject.apiKeyId}`
+  if (subject.userId) return `${scope}:user:${subject.userId}`
+  return `${scope}:ip:${subject.ip || 'unknown'}`
+}
+
+// Take one request from the caller's bucket for `scope`, with the limits of the user's plan.
+// Pass the returned headers on the route's response. If the limiter itself fails the request is let through.
+export async function checkRateLimit(scope: RateLimitScope, subject: RateLimitSubject): Promise<RateLimitResult> {
+  const bucket = getBucketKey(scope, subject)
+
+  let state
+  try {
+    state = await takeRateLimitToken(bucket, scope, subject.userId)
+  } catch (limitError) {
+    console.error(`[RATE LIMIT] Failed to check ${bucket}, allowing the request:`, limitError)
+    return { success: true, headers: {} }
+  }
+
+  if (!state || state.bucket_limit === null) {
+    return { success: true, headers: {} }
+  }
+
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(state.bucket_limit),
+    'RateLimit-Remaining': String(state.remaining ?? 0),
+    'RateLimit-Reset': String(state.reset_seconds ?? 0)
+  }
+
+  if (state.allowed) {
+    return { success: true, headers }
+  }
+
+  console.log(`[RATE LIMIT] ${bucket} exceeded, retry in ${state.retry_after_seconds}s`)
+
+  return {
+    success: false,
+    error: {
+      code: 'RATE_LIMITED',
+      message: `Too many requests. Please try again in ${state.retry_after_seconds} second${state.retry_after_seconds === 1 ? '' : 's'}.`,
+      details: { scope, limit: state.bucket_limit, retryAfter: state.retry_after_seconds },
+      retryable: true
+    },
+    status: 429,
+    headers: { ...headers, 'Retry-After': String(state.retry_after_seconds) }
+  }
+}
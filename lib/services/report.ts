@@ -0,0 +1,78 @@
+import type {
+  CompanySummary,
+  ConsolidatedReport,
+  ConversionDetails,
+  ReportBreakdownRow,
+  ReportTransaction
+} from '@/lib/supabase/types'
+import { formatNpwp, normalizeNpwp } from '@/lib/validation/npwp'
+
+export const MAX_REPORT_CONVERSIONS = 50
+
+export interface ReportInput {
+  conversionId: string
+  fileName: string
+  details: ConversionDetails
+}
+
+// Rows without a usable NPWP are grouped by company name instead
+function getCompanyKey(transaction: { npwp: string, nama: string }) {
+  const digits = normalizeNpwp(transaction.npwp)
+  return digits ? `npwp:${digits}` : `nama:${transaction.nama.trim().toUpperCase()}`
+}
+
+// Merge the transactions of several conversions and total them again per NPWP and per
+// jenis penghasilan, ignoring the per-file summaries. Inputs are used in the order given.
+export function buildConsolidatedReport(inputs: ReportInput[]): Omit<ConsolidatedReport, 'skipped'> {
+  const transactions: ReportTransaction[] = []
+  const summaries = new Map<string, CompanySummary>()
+  const breakdown = new Map<string, ReportBreakdownRow>()
+
+  inputs.forEach(input => {
+    input.details.transaction_data.forEach(transaction => {
+      const rupiah = Number(transaction.rupiah) || 0
+      const pajak = Number(transaction.pajak_penghasilan) || 0
+      const jenis = transaction.jenis_penghasilan || 'Lainnya'
+      const companyKey = getCompanyKey(transaction)
+      const npwp = formatNpwp(transaction.npwp)
+
+      transactions.push({ ...transaction, no: transactions.length + 1, fileName: input.fileName })
+
+      const summary = summaries.get(companyKey) || { json: { nama: transaction.nama, npwp, totalPajak: 0, perJenis: {} } }
+      summary.json.totalPajak += pajak
+      summary.json.perJenis[jenis] = (summary.json.perJenis[jenis] || 0) + pajak
+      summaries.set(companyKey, summary)
+
+      const breakdownKey = `${companyKey}|${jenis}`
+      const row = breakdown.get(breakdownKey) || {
+        npwp,
+        nama: transaction.nama,
+        jenisPenghasilan: jenis,
+        transactionCount: 0,
+        rupiah: 0,
+        pajakPenghasilan: 0
+      }
+      row.transactionCount++
+      row.rupiah += rupiah
+      row.pajakPenghasilan += pajak
+      breakdown.set(breakdownKey, row)
+    })
+  })
+
+  return {
+    sources: inputs.map(input => ({
+      conversionId: input.conversionId,
+      fileName: input.fileName,
+      transactionCount: input.details.transaction_data.length
+    })),
+    summaries: Array.from(summaries.values()),
+    breakdown: Array.from(breakdown.values()),
+    transactions,
+    totals: {
+      transactions: transactions.length,
+      companies: summaries.size,
+      rupiah: transactions.reduce((sum, t) => sum + (Number(t.rupiah) || 0), 0),
+      pajakPenghasilan: transactions.reduce((sum, t) => sum + (Number(t.pajak_penghasilan) || 0), 0)
+    }
+  }
+}
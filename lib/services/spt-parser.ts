@@ -0,0 +1,265 @@
+import pdfParse from 'pdf-parse'
+import { CompanySummary, ConversionDetails, DocumentType, TransactionData, TransactionSource } from '@/lib/supabase/types'
+import { formatNpwp } from '@/lib/validation/npwp'
+import { parseTanggal } from './excel-generator'
+
+export interface LocalParseResult extends ConversionDetails {
+  pages: number
+  tablesExtracted: number
+  totalRows: number
+  processingTimeMs: number
+}
+
+// One line of the PDF text layer and where it sits on its page (see TransactionSource)
+interface TextLine {
+  text: string
+  page: number
+  bbox: [number, number, number, number]
+}
+
+type TextParser = (lines: TextLine[]) => TransactionData[]
+
+// NPWP is either the formatted 15-digit form (01.234.567.8-901.000) or 15/16 bare digits
+const NPWP_PATTERN = String.raw`\d{2}\.\d{3}\.\d{3}\.\d-\d{3}\.\d{3}|\d{15,16}`
+// Indonesian amounts use dots for thousands and a comma for decimals (1.234.567,50)
+const AMOUNT_PATTERN = String.raw`\d{1,3}(?:\.\d{3})+(?:,\d{1,2})?|\d+(?:,\d{1,2})?`
+const DATE_PATTERN = String.raw`\d{1,2}[/-]\d{1,2}[/-]\d{4}`
+
+// One row of the "Daftar Bukti Pemotongan" table:
+// No  Nama  NPWP  Jenis Penghasilan  Bruto  PPh  Nomor  Tanggal
+const TABLE_ROW_REGEX = new RegExp(
+  String.raw`^(\d+)\.?\s+(.+?)\s+(${NPWP_PATTERN})\s+(.+?)\s+(${AMOUNT_PATTERN})\s+(${AMOUNT_PATTERN})\s+(\S+)\s+(${DATE_PATTERN})$`
+)
+
+// "Label : value" lines on a single bukti potong
+const FIELD_LABELS: Array<[keyof TransactionData, RegExp]> = [
+  ['npwp', /^NPWP(?:\s*\/\s*NIK)?$/i],
+  ['nama', /^Nama(?:\s+(?:Penerima Penghasilan|Wajib Pajak))?$/i],
+  ['nomor', /^Nomor(?:\s+Bukti\s+(?:Potong|Pemotongan))?$/i],
+  ['tanggal', /^Tanggal(?:\s+Bukti\s+(?:Potong|Pemotongan))?$/i],
+  ['jenis_penghasilan', /^(?:Jenis Penghasilan|Kode Objek Pajak)$/i],
+  ['rupiah', /^(?:Penghasilan Bruto|Jumlah Bruto|Dasar Pengenaan Pajak)(?:\s*\(Rp\))?$/i],
+  ['pajak_penghasilan', /^(?:PPh(?: yang)? Dipotong|Pajak Penghasilan)(?:\s*\(Rp\))?$/i]
+]
+
+export function parseRupiah(value: string): number {
+  const normalized = value.trim().replace(/^Rp\.?\s*/i, '').replace(/\./g, '').replace(',', '.')
+  const amount = Number(normalized)
+  return Number.isFinite(amount) ? amount : 0
+}
+
+interface PdfTextItem {
+  str: string
+  transform: number[]
+  width: number
+  height: number
+}
+
+interface PdfPage {
+  pageNumber: number
+  view: number[]
+  getTextContent(options: object): Promise<{ items: PdfTextItem[] }>
+}
+
+const roundFraction = (value: number) => Math.round(Math.min(Math.max(value, 0), 1) * 10000) / 10000
+
+// Same line grouping as pdf-parse's default renderer (items sharing a baseline form one line),
+// but also records each line's page and bounding box
+function createLineCollector() {
+  const lines: TextLine[] = []
+
+  const pagerender = async (page: PdfPage) => {
+    const { items } = await page.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false })
+    const [viewLeft, viewBottom, viewRight, viewTop] = page.view
+    const pageWidth = viewRight - viewLeft
+    const pageHeight = viewTop - viewBottom
+
+    const groups: PdfTextItem[][] = []
+    let lastY: number | undefined
+    for (const item of items) {
+      const y = item.transform[5]
+      if (lastY === undefined || y === lastY) {
+        if (groups.length === 0) groups.push([])
+        groups[groups.length - 1].push(item)
+      } else {
+        groups.push([item])
+      }
+      lastY = y
+    }
+
+    groups.forEach(group => {
+      const left = Math.min(...group.map(item => item.transform[4]))
+      const right = Math.max(...group.map(item => item.transform[4] + item.width))
+      const baseline = Math.min(...group.map(item => item.transform[5]))
+      // Older text layers report a zero height; fall back to the font size from the transform
+      const height = Math.max(...group.map(item => item.height || Math.abs(item.transform[3])))
+
+      lines.push({
+        text: group.map(item => item.str).join(''),
+        page: page.pageNumber,
+        bbox: [
+          roundFraction((left - viewLeft) / pageWidth),
+          roundFraction((viewTop - baseline - height) / pageHeight),
+          roundFraction((right - viewLeft) / pageWidth),
+          roundFraction((viewTop - baseline) / pageHeight)
+        ]
+      })
+    })
+
+    return groups.map(group => group.map(item => item.str).join('')).join('\n')
+  }
+
+  return { lines, pagerender }
+}
+
+function getLines(lines: TextLine[]): TextLine[] {
+  return lines
+    .map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }))
+    .filter(line => line.text)
+}
+
+// The area covered by several lines, on the page of the first one
+function getSource(lines: TextLine[]): TransactionSource {
+  const page = lines[0].page
+  const onPage = lines.filter(line => line.page === page)
+  return {
+    page,
+    bbox: [
+      Math.min(...onPage.map(line => line.bbox[0])),
+      Math.min(...onPage.map(line => line.bbox[1])),
+      Math.max(...onPage.map(line => line.bbox[2])),
+      Math.max(...onPage.map(line => line.bbox[3]))
+    ]
+  }
+}
+
+function parseTableRows(textLines: TextLine[]): TransactionData[] {
+  const transactions: TransactionData[] = []
+
+  for (const line of getLines(textLines)) {
+    const match = TABLE_ROW_REGEX.exec(line.text)
+    if (!match || !parseTanggal(match[8])) continue
+
+    const [, no, nama, npwp, jenis, rupiah, pajak, nomor, tanggal] = match
+    transactions.push({
+      no: Number(no),
+      nama,
+      npwp: formatNpwp(npwp),
+      jenis_penghasilan: jenis,
+      rupiah: parseRupiah(rupiah),
+      pajak_penghasilan: parseRupiah(pajak),
+      nomor,
+      tanggal,
+      source: getSource([line])
+    })
+  }
+
+  return transactions
+}
+
+type FieldBlock = {
+  fields: Partial<Record<keyof TransactionData, string>>
+  lines: TextLine[]
+}
+
+function parseFieldBlocks(textLines: TextLine[]): TransactionData[] {
+  const blocks: FieldBlock[] = []
+  let current: FieldBlock = { fields: {}, lines: [] }
+
+  for (const line of getLines(textLines)) {
+    const separator = line.text.indexOf(':')
+    if (separator === -1) continue
+
+    const label = line.text.slice(0, separator).trim()
+    const value = line.text.slice(separator + 1).trim()
+    const field = FIELD_LABELS.find(([, pattern]) => pattern.test(label))?.[0]
+    if (!field || !value) continue
+
+    // A repeated label means the next bukti potong has started
+    if (current.fields[field] !== undefined) {
+      blocks.push(current)
+      current = { fields: {}, lines: [] }
+    }
+    current.fields[field] = value
+    current.lines.push(line)
+  }
+  blocks.push(current)
+
+  return blocks
+    .filter(({ fields }) => fields.nama && fields.npwp && fields.pajak_penghasilan)
+    .map(({ fields, lines }, index) => ({
+      no: index + 1,
+      nama: fields.nama!,
+      npwp: formatNpwp(fields.npwp!),
+      jenis_penghasilan: fields.jenis_penghasilan || '',
+      rupiah: parseRupiah(fields.rupiah || '0'),
+      pajak_penghasilan: parseRupiah(fields.pajak_penghasilan!),
+      nomor: fields.nomor || '',
+      tanggal: fields.tanggal || '',
+      source: getSource(lines)
+    }))
+}
+
+// SPT attachments are usually a table of bukti potong; single bukti potong PDFs use labelled fields
+function parseSptText(lines: TextLine[]): TransactionData[] {
+  const rows = parseTableRows(lines)
+  return rows.length > 0 ? rows : parseFieldBlocks(lines)
+}
+
+const TEXT_PARSERS: Partial<Record<DocumentType, TextParser>> = {
+  spt: parseSptText
+}
+
+export function hasLocalParser(documentType: DocumentType) {
+  return documentType in TEXT_PARSERS
+}
+
+// Group transactions by company, summing withheld tax overall and per income type
+export function summarizeTransactions(transactions: TransactionData[]): CompanySummary[] {
+  const summaries = new Map<string, CompanySummary>()
+
+  transactions.forEach(transaction => {
+    const key = transaction.nama.toUpperCase()
+    const summary = summaries.get(key) || { json: { nama: transaction.nama, totalPajak: 0, perJenis: {} } }
+    const jenis = transaction.jenis_penghasilan || 'Lainnya'
+
+    summary.json.totalPajak += transaction.pajak_penghasilan
+    summary.json.perJenis[jenis] = (summary.json.perJenis[jenis] || 0) + transaction.pajak_penghasilan
+    summaries.set(key, summary)
+  })
+
+  return Array.from(summaries.values())
+}
+
+// Extract transactions from a text-layer PDF. Scanned documents without a text layer still need the n8n pipeline.
+export async function parseDocument(fileBuffer: Buffer, documentType: DocumentType): Promise<LocalParseResult> {
+  const parseText = TEXT_PARSERS[documentType]
+  if (!parseText) {
+    throw new Error(`No local parser is available for ${documentType} documents`)
+  }
+
+  const startTime = Date.now()
+  const collector = createLineCollector()
+  const pdf = await pdfParse(fileBuffer, { pagerender: collector.pagerender })
+
+  if (!pdf.text.trim()) {
+    throw new Error('The PDF has no text layer. Scanned documents cannot be processed locally.')
+  }
+
+  const transactions = parseText(collector.lines)
+  if (transactions.length === 0) {
+    throw new Error('No transactions were found in the document')
+  }
+
+  const summaries = summarizeTransactions(transactions)
+  console.log(`Local parser extracted ${transactions.length} transactions for ${summaries.length} companies from ${pdf.numpages} pages`)
+
+  return {
+    summaries,
+    transaction_data: transactions,
+    pages: pdf.numpages,
+    tablesExtracted: 1,
+    totalRows: transactions.length,
+    processingTimeMs: Date.now() - startTime
+  }
+}
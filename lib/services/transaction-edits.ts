@@ -0,0 +1,176 @@
+import { SupabaseServerClient } from '@/lib/supabase/server'
+import { parseConversionDetails, updateConversionDetails } from '@/lib/supabase/conversions'
+import { recordTransactionEdits } from '@/lib/supabase/transaction-edits'
+import { summarizeTransactions } from '@/lib/services/spt-parser'
+import { reconcileSummaries } from '@/lib/services/data-quality'
+import {
+  APIError,
+  CompanySummary,
+  Database,
+  QualityWarning,
+  ReconciliationRow,
+  TransactionChange,
+  TransactionData,
+  TransactionEdit
+} from '@/lib/supabase/types'
+
+type Conversion = Database['public']['Tables']['conversions']['Row']
+
+export interface ApplyTransactionChangesParams {
+  supabase: SupabaseServerClient
+  conversion: Conversion
+  user: { id: string, email?: string | null }
+  changes: TransactionChange[]
+  revertsEditId?: string // set when the changes undo an earlier edit
+}
+
+export type ApplyTransactionChangesResult =
+  | {
+    success: true
+    data: {
+      summaries: CompanySummary[]
+      transactionData: TransactionData[]
+      qualityWarnings: QualityWarning[]
+      reconciliation: ReconciliationRow[]
+      edits: TransactionEdit[]
+    }
+  }
+  | { success: false, error: APIError, status: number }
+
+function isSameValue(a: unknown, b: unknown) {
+  return String(a ?? '') === String(b ?? '')
+}
+
+// Recompute the tax totals of each company after an edit. Everything else the extractor stored on a
+// summary, such as its NPWP, is kept; companies that no longer have rows are dropped and companies that
+// only appear through the edit are added at the end.
+function resummarizeTransactions(previous: CompanySummary[], transactions: TransactionData[]): CompanySummary[] {
+  const totals = new Map(summarizeTransactions(transactions).map(summary => [summary.json.nama.toUpperCase(), summary]))
+
+  const summaries: CompanySummary[] = []
+  previous.forEach(summary => {
+    const key = summary.json.nama.toUpperCase()
+    const recomputed = totals.get(key)
+    if (!recomputed) return
+
+    summaries.push({
+      ...summary,
+      json: { ...summary.json, totalPajak: recomputed.json.totalPajak, perJenis: recomputed.json.perJenis }
+    })
+    totals.delete(key)
+  })
+
+  return [...summaries, ...totals.values()]
+}
+
+// Apply manual corrections to a completed conversion's transactions, recompute the company summaries
+// and record one history entry per changed field. Changes that leave a value as it was are ignored.
+export async function applyTransactionChanges(params: ApplyTransactionChangesParams): Promise<ApplyTransactionChangesResult> {
+  const { supabase, conversion, user, changes } = params
+
+  const details = conversion.status === 'completed' ? parseConversionDetails(conversion) : null
+  if (!details) {
+    return {
+      success: false,
+      error: { code: 'CONVERSION_NOT_EDITABLE', message: 'Only completed conversions with extracted data can be edited', retryable: false },
+      status: 409
+    }
+  }
+
+  const violations = changes
+    .map((change, index) => ({ change, index }))
+    .filter(({ change }) => change.row >= details.transaction_data.length)
+    .map(({ change, index }) => ({
+      field: `changes.${index}.row`,
+      message: `Row ${change.row} does not exist; the conversion has ${details.transaction_data.length} rows`,
+      code: 'out_of_range'
+    }))
+  if (violations.length > 0) {
+    return {
+      success: false,
+      error: { code: 'VALIDATION_FAILED', message: `Invalid changes: ${violations[0].message}`, details: { violations }, retryable: false },
+      status: 400
+    }
+  }
+
+  const transactions = details.transaction_data.map(transaction => ({ ...transaction }))
+  const applied: { row: number, field: TransactionChange['field'], oldValue: string | number | null, newValue: string | number | null }[] = []
+
+  changes.forEach(change => {
+    const transaction = transactions[change.row]
+    const oldValue = transaction[change.field]
+    if (isSameValue(oldValue, change.value)) return
+
+    // The schema guarantees amounts are numbers and text fields are strings
+    Object.assign(transaction, { [change.field]: change.value })
+    applied.push({ row: change.row, field: change.field, oldValue, newValue: change.value })
+  })
+
+  if (applied.length === 0) {
+    return {
+      success: true,
+      data: {
+        summaries: details.summaries,
+        transactionData: details.transaction_data,
+        qualityWarnings: (conversion.quality_warnings as unknown as QualityWarning[] | null) ?? [],
+        reconciliation: reconcileSummaries(details),
+        edits: []
+      }
+    }
+  }
+
+  const summaries = resummarizeTransactions(details.summaries, transactions)
+
+  // Only save over the data we read, so two concurrent edits cannot silently overwrite each other.
+  // A file produced by the extractor no longer matches, so downloads are generated from the stored data.
+  const updated = await updateConversionDetails(conversion.id, summaries, transactions, supabase, {
+    ifUpdatedAt: conversion.updated_at,
+    downloadUrl: `/api/download/${conversion.id}`
+  })
+  if (!updated) {
+    return {
+      success: false,
+      error: { code: 'CONVERSION_MODIFIED', message: 'The conversion was changed by another request. Reload and try again.', retryable: true },
+      status: 409
+    }
+  }
+
+  let edits: TransactionEdit[]
+  try {
+    edits = await recordTransactionEdits(applied.map(edit => ({
+      conversion_id: conversion.id,
+      user_id: user.id,
+      user_email: user.email ?? null,
+      row_index: edit.row,
+      field: edit.field,
+      old_value: edit.oldValue,
+      new_value: edit.newValue,
+      reverts_edit_id: params.revertsEditId ?? null
+    })), supabase)
+  } catch (historyError) {
+    // An edit without history cannot be reverted, so put the previous data back
+    console.error(`[EDIT] Failed to record history for conversion ${conversion.id}, restoring previous data:`, historyError)
+    await updateConversionDetails(conversion.id, details.summaries, details.transaction_data, supabase, {
+      ifUpdatedAt: updated.updated_at,
+      downloadUrl: conversion.download_url
+    })
+    return {
+      success: false,
+      error: { code: 'UPDATE_FAILED', message: 'Failed to save your changes. Please try again.', retryable: true },
+      status: 500
+    }
+  }
+
+  console.log(`[EDIT] User ${user.id} changed ${applied.length} fields on conversion ${conversion.id}${params.revertsEditId ? ` (revert of ${params.revertsEditId})` : ''}`)
+
+  return {
+    success: true,
+    data: {
+      summaries,
+      transactionData: transactions,
+      qualityWarnings: (updated.quality_warnings as unknown as QualityWarning[] | null) ?? [],
+      reconciliation: reconcileSummaries({ summaries, transaction_data: transactions }),
+      edits
+    }
+  }
+}
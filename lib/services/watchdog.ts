@@ -0,0 +1,96 @@
+import { createServiceClient } from '@/lib/supabase/server'
+import { trackEvent } from '@/lib/supabase/conversions'
+import { releaseConversionCredits } from '@/lib/supabase/credits'
+import { getProcessingBackend, PROCESSING_SLA_MS } from '@/lib/services/processing'
+import { dispatchConversionEvent } from '@/lib/services/customer-webhooks'
+import { transitionConversion } from '@/lib/services/conversion-status'
+import { DocumentType } from '@/lib/supabase/types'
+
+export const TIMEOUT_ERROR_CODE = 'TIMEOUT'
+
+export interface WatchdogResult {
+  checked: number
+  timedOut: string[]
+  errors: { conversionId: string, error: string }[]
+}
+
+function formatMinutes(ms: number) {
+  return `${Math.round(ms / 60000)} minutes`
+}
+
+// Fail conversions that have been processing longer than their document type's SLA and refund their credit
+export async function sweepStuckConversions(now = new Date()): Promise<WatchdogResult> {
+  const supabase = createServiceClient()
+  const shortestSla = Math.min(...Object.values(PROCESSING_SLA_MS))
+
+  // created_at never comes after started_at, so this is a superset of the overdue rows
+  const { data: candidates, error } = await supabase
+    .from('conversions')
+    .select('id, user_id, original_filename, document_type, started_at, created_at')
+    .eq('status', 'processing')
+    .lt('created_at', new Date(now.getTime() - shortestSla).toISOString())
+
+  if (error) throw error
+
+  const result: WatchdogResult = { checked: candidates.length, timedOut: [], errors: [] }
+
+  for (const conversion of candidates) {
+    const documentType = (conversion.document_type || 'spt') as DocumentType
+    const slaMs = PROCESSING_SLA_MS[documentType] ?? shortestSla
+    const startedAt = new Date(conversion.started_at || conversion.created_at)
+    const elapsedMs = now.getTime() - startedAt.getTime()
+
+    if (elapsedMs <= slaMs) continue
+
+    try {
+      // A webhook that completes the conversion mid-sweep wins, and the transition is skipped
+      const failed = await transitionConversion(conversion.id, 'failed', {
+        error_code: TIMEOUT_ERROR_CODE,
+        error_message: `Processing timed out after ${formatMinutes(slaMs)}. Your credit has been refunded.`,
+        completed_at: now.toISOString()
+      }, supabase)
+      if (!failed) continue
+
+      console.log(`[WATCHDOG] Conversion ${conversion.id} timed out after ${formatMinutes(elapsedMs)}`)
+      result.timedOut.push(conversion.id)
+
+      if (conversion.user_id) {
+        await releaseConversionCredits([conversion.id], 'conversion_timeout_refund')
+
+        try {
+          await trackEvent(conversion.user_id, 'conversion_failed', conversion.id, {
+            file_name: conversion.original_filename,
+            error: 'Processing timed out',
+            error_code: TIMEOUT_ERROR_CODE,
+            elapsed_ms: elapsedMs,
+            sla_ms: slaMs
+          }, supabase)
+        } catch (trackError) {
+          console.error('Failed to track event:', trackError)
+        }
+      }
+
+      try {
+        await dispatchConversionEvent(failed)
+      } catch (dispatchError) {
+        console.error('Failed to dispatch customer webhooks:', dispatchError)
+      }
+
+      // Best effort: stop the backend from spending more work on it
+      const backend = getProcessingBackend(documentType)
+      if (backend) {
+        await backend.cancel(conversion.id).catch(cancelError => {
+          console.error(`[WATCHDOG] Failed to cancel ${conversion.id} on ${backend.name}:`, cancelError)
+        })
+      }
+    } catch (sweepError) {
+      console.error(`[WATCHDOG] Failed to time out conversion ${conversion.id}:`, sweepError)
+      result.errors.push({
+        conversionId: conversion.id,
+        error: sweepError instanceof Error ? sweepError.message : 'Unknown error'
+      })
+    }
+  }
+
+  return result
+}
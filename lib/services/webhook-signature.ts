@@ -0,0 +1,24 @@
+import crypto from 'crypto'
+
+// Webhooks in both directions are signed the same way: the hex HMAC-SHA256 of `<timestamp>.<raw body>`,
+// sent as `x-webhook-signature` next to `x-webhook-timestamp`. The timestamp is signed with the body so it
+// cannot be swapped on a replay.
+export function signWebhookPayload(payload: string, timestamp: string, secret: string) {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${payload}`)
+    .digest('hex')
+}
+
+export function verifyWebhookSignature(payload: string, timestamp: string, signature: string, secret: string): boolean {
+  if (!signature || !secret) return false
+
+  const expectedSignature = signWebhookPayload(payload, timestamp, secret)
+
+  if (signature.length !== expectedSignature.length) return false
+
+  return crypto.timingSafeEqual(
+    Buffer.from(signature),
+    Buffer.from(expectedSignature)
+  )
+}
@@ -0,0 +1,85 @@
+'use client'
+
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+import type { Database } from '@/lib/supabase/types'
+import { useConversionStore } from './conversion-store'
+
+type ConversionRow = Database['public']['Tables']['conversions']['Row']
+
+// One channel per browser tab, shared by every component watching the same user's conversions
+let channel: RealtimeChannel | null = null
+let channelUserId: string | null = null
+let subscriberCount = 0
+
+function handleChange(payload: RealtimePostgresChangesPayload<ConversionRow>) {
+  const store = useConversionStore.getState()
+
+  if (payload.eventType === 'DELETE') {
+    if (payload.old.id) store.removeConversion(payload.old.id)
+    return
+  }
+
+  console.log(`[REALTIME] Conversion ${payload.new.id} ${payload.eventType.toLowerCase()}: ${payload.new.status}`)
+  store.applyRealtimeChange(payload.new)
+}
+
+function openChannel(userId: string) {
+  const supabase = createClient()
+  const store = useConversionStore.getState()
+
+  store.setRealtimeStatus('connecting')
+
+  channel = supabase
+    .channel(`conversions:${userId}`)
+    .on<ConversionRow>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'conversions', filter: `user_id=eq.${userId}` },
+      handleChange
+    )
+    .subscribe((status, error) => {
+      // The client rejoins on its own after a drop; polling covers the gap until it does
+      if (status === 'SUBSCRIBED') {
+        useConversionStore.getState().setRealtimeStatus('connected')
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+        if (error) console.error('[REALTIME] Channel error:', error)
+        useConversionStore.getState().setRealtimeStatus('disconnected')
+      }
+    })
+  channelUserId = userId
+}
+
+function closeChannel() {
+  if (!channel) return
+
+  const closing = channel
+  channel = null
+  channelUserId = null
+  subscriberCount = 0
+
+  createClient().removeChannel(closing)
+  useConversionStore.getState().setRealtimeStatus('idle')
+}
+
+// Stream changes to the user's conversions into the store. Returns a function that releases the
+// subscription; the channel closes when the last subscriber releases it.
+export function subscribeToConversions(userId: string) {
+  if (channel && channelUserId !== userId) {
+    closeChannel()
+  }
+  if (!channel) {
+    openChannel(userId)
+  }
+  subscriberCount++
+
+  let released = false
+  return () => {
+    if (released) return
+    released = true
+
+    subscriberCount = Math.max(0, subscriberCount - 1)
+    if (subscriberCount === 0) {
+      closeChannel()
+    }
+  }
+}
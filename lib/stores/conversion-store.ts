@@ -2,7 +2,13 @@
 
 import { create } from 'zustand'
 import { subscribeWithSelector } from 'zustand/middleware'
-import type { ConversionStatus } from '@/lib/supabase/types'
+import { estimateConversionProgress } from '@/lib/services/conversion-progress'
+import type { ConversionStatus, Database } from '@/lib/supabase/types'
+
+type ConversionRow = Database['public']['Tables']['conversions']['Row']
+
+// State of the Supabase Realtime channel; polling only runs while it is not connected
+export type RealtimeStatus = 'idle' | 'connecting' | 'connected' | 'disconnected'
 
 export interface ConversionData {
   id: string
@@ -39,6 +45,7 @@ interface ConversionStore {
   activePolling: Set<string>
   pollingManager: NodeJS.Timeout | null
   lastBatchFetch: number
+  realtimeStatus: RealtimeStatus
   loading: Map<string, boolean>
   errors: Map<string, string>
 
@@ -69,6 +76,10 @@ interface ConversionStore {
   stopPolling: (conversionId?: string) => void
   isPollingActive: (id: string) => boolean
 
+  // Realtime
+  setRealtimeStatus: (status: RealtimeStatus) => void
+  applyRealtimeChange: (row: ConversionRow) => void
+
   // Batch operations
   fetchMultipleConversions: (ids: string[]) => Promise<ConversionData[]>
   fetchUserConversions: (userId: string) => Promise<ConversionData[]>
@@ -90,6 +101,7 @@ export const useConversionStore = create<ConversionStore>()(
     activePolling: new Set(),
     pollingManager: null,
     lastBatchFetch: 0,
+    realtimeStatus: 'idle',
     loading: new Map(),
     errors: new Map(),
 
@@ -262,18 +274,23 @@ export const useConversionStore = create<ConversionStore>()(
       if (state.pollingManager) {
         console.log(`[POLLING MANAGER] Clearing existing polling manager`)
         clearInterval(state.pollingManager)
+        set({ pollingManager: null })
       }
 
-      // Start new polling manager
-      console.log(`[POLLING MANAGER] Setting up interval every ${MIN_POLLING_INTERVAL}ms`)
-      const pollingManager = setInterval(async () => {
-        console.log(`[POLLING MANAGER] Interval triggered - calling refreshActiveConversions`)
-        await get().refreshActiveConversions()
-      }, MIN_POLLING_INTERVAL)
-
-      set({ pollingManager })
-      
-      console.log(`[POLLING MANAGER] Started polling for ${conversionIds.length} conversions`)
+      // Realtime pushes updates while connected; the interval is only a fallback
+      if (state.realtimeStatus === 'connected') {
+        console.log(`[POLLING MANAGER] Realtime connected, not starting interval`)
+      } else {
+        console.log(`[POLLING MANAGER] Setting up interval every ${MIN_POLLING_INTERVAL}ms`)
+        const pollingManager = setInterval(async () => {
+          console.log(`[POLLING MANAGER] Interval triggered - calling refreshActiveConversions`)
+          await get().refreshActiveConversions()
+        }, MIN_POLLING_INTERVAL)
+
+        set({ pollingManager })
+        
+        console.log(`[POLLING MANAGER] Started polling for ${conversionIds.length} conversions`)
+      }
       
       // Trigger immediate first refresh
       setTimeout(async () => {
@@ -311,6 +328,59 @@ export const useConversionStore = create<ConversionStore>()(
       return get().activePolling.has(id)
     },
 
+    // Realtime
+    setRealtimeStatus: (status: RealtimeStatus) => {
+      const state = get()
+      if (state.realtimeStatus === status) return
+
+      console.log(`[REALTIME] Channel ${status}`)
+      set({ realtimeStatus: status })
+
+      const watchedIds = Array.from(state.activePolling)
+
+      if (status === 'connected') {
+        if (state.pollingManager) {
+          console.log(`[POLLING MANAGER] Realtime connected, stopping fallback polling`)
+          clearInterval(state.pollingManager)
+          set({ pollingManager: null })
+        }
+
+        // Catch up on changes missed while the channel was down
+        if (watchedIds.length > 0) {
+          set({ lastBatchFetch: 0 })
+          get().clearCache()
+          get().refreshActiveConversions()
+        }
+      } else if (watchedIds.length > 0 && !state.pollingManager) {
+        console.log(`[POLLING MANAGER] Realtime ${status}, falling back to polling`)
+        get().startPolling(watchedIds)
+      }
+    },
+
+    applyRealtimeChange: (row: ConversionRow) => {
+      const state = get()
+      const existing = state.conversions.get(row.id)
+
+      // Ignore events older than what we already have (e.g. a poll that raced the push)
+      if (existing && new Date(existing.updated_at).getTime() > new Date(row.updated_at).getTime()) {
+        return
+      }
+
+      state.setConversion({
+        ...existing,
+        ...row,
+        status: row.status as ConversionStatus,
+        ...estimateConversionProgress(row)
+      } as ConversionData)
+
+      // Cached batch responses are now stale
+      state.clearCache()
+
+      if ((row.status === 'completed' || row.status === 'failed') && state.activePolling.has(row.id)) {
+        state.stopPolling(row.id)
+      }
+    },
+
     // Batch operations
     fetchMultipleConversions: async (ids: string[]) => {
       const state = get()
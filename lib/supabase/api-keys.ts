@@ -0,0 +1,100 @@
+import { createClient, createServiceClient, SupabaseServerClient } from './server'
+import { ApiKey, ApiKeyScope, Database } from './types'
+
+type ApiKeyRow = Database['public']['Tables']['api_keys']['Row']
+type ApiKeyInsert = Database['public']['Tables']['api_keys']['Insert']
+
+export function toApiKey(row: ApiKeyRow): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.key_prefix,
+    scopes: row.scopes as ApiKeyScope[],
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at,
+    createdAt: row.created_at
+  }
+}
+
+// Users have no insert access to api_keys, so keys are created with the service role. Callers must set
+// user_id to the signed-in user.
+export async function createApiKey(data: ApiKeyInsert) {
+  const supabase = createServiceClient()
+
+  const { data: apiKey, error } = await supabase
+    .from('api_keys')
+    .insert(data)
+    .select()
+    .single()
+
+  if (error) throw error
+  return apiKey
+}
+
+export async function getUserApiKeys(userId: string, client?: SupabaseServerClient) {
+  const supabase = client ?? createClient()
+
+  const { data: apiKeys, error } = await supabase
+    .from('api_keys')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return apiKeys
+}
+
+export async function countActiveApiKeys(userId: string, client?: SupabaseServerClient) {
+  const supabase = client ?? createClient()
+
+  const { count, error } = await supabase
+    .from('api_keys')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+
+  if (error) throw error
+  return count ?? 0
+}
+
+// Returns null when the key does not exist, belongs to someone else or was already revoked
+export async function revokeApiKey(id: string, userId: string, client?: SupabaseServerClient) {
+  const supabase = client ?? createClient()
+
+  const { data: apiKey, error } = await supabase
+    .from('api_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  return apiKey
+}
+
+// Look a presented key up by its hash. Runs before there is any user context, so it uses the service role.
+export async function findApiKeyByHash(keyHash: string) {
+  const supabase = createServiceClient()
+
+  const { data: apiKey, error } = await supabase
+    .from('api_keys')
+    .select('*')
+    .eq('key_hash', keyHash)
+    .maybeSingle()
+
+  if (error) throw error
+  return apiKey
+}
+
+export async function touchApiKey(id: string, ip: string | null) {
+  const supabase = createServiceClient()
+
+  const { error } = await supabase
+    .from('api_keys')
+    .update({ last_used_at: new Date().toISOString(), last_used_ip: ip })
+    .eq('id', id)
+
+  if (error) throw error
+}
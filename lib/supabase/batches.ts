@@ -0,0 +1,66 @@
+import { createClient, createServiceClient, SupabaseServerClient } from './server'
+import { Database } from './types'
+
+type BatchInsert = Database['public']['Tables']['batches']['Insert']
+
+export async function createBatch(data: BatchInsert, client?: SupabaseServerClient) {
+  const supabase = client ?? createClient()
+
+  const { data: batch, error } = await supabase
+    .from('batches')
+    .insert(data)
+    .select()
+    .single()
+
+  if (error) throw error
+  return batch
+}
+
+export async function getBatch(id: string, client?: SupabaseServerClient) {
+  const supabase = client ?? createClient()
+
+  const { data: batch, error } = await supabase
+    .from('batches')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw error
+  return batch
+}
+
+// Conversions in a batch, in upload order
+export async function getBatchConversions(batchId: string, client?: SupabaseServerClient) {
+  const supabase = client ?? createClient()
+
+  const { data: conversions, error } = await supabase
+    .from('conversions')
+    .select('*')
+    .eq('batch_id', batchId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return conversions
+}
+
+// Remove a batch that could not be fully created, together with the conversions already created for it.
+// Users cannot delete rows under RLS, so this runs with the service role.
+export async function deleteBatch(id: string, conversionIds: string[]) {
+  const supabase = createServiceClient()
+
+  if (conversionIds.length > 0) {
+    const { error: conversionsError } = await supabase
+      .from('conversions')
+      .delete()
+      .in('id', conversionIds)
+
+    if (conversionsError) throw conversionsError
+  }
+
+  const { error } = await supabase
+    .from('batches')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+}
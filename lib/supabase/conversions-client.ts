@@ -155,7 +155,7 @@ export async function deleteConversion(id: string) {
   // First check if the conversion exists and get user_id for validation
   const { data: existingConversion, error: fetchError } = await supabase
     .from('conversions')
-    .select('id, user_id, original_filename, status')
+    .select('id, user_id, original_filename, status, original_file_path')
     .eq('id', id)
     .single()
   
@@ -209,6 +209,17 @@ export async function deleteConversion(id: string) {
   
   console.log(`[DELETE] Successfully deleted conversion and ${deletedConversions.length > 1 ? 'multiple records' : '1 record'}`)
   
+  // Remove the stored original upload
+  if (existingConversion.original_file_path) {
+    const { error: storageError } = await supabase.storage
+      .from('originals')
+      .remove([existingConversion.original_file_path])
+    
+    if (storageError) {
+      console.warn('[DELETE] Failed to remove original file (non-critical):', storageError)
+    }
+  }
+  
   // Log the deletion for audit purposes
   try {
     await supabase
@@ -232,56 +243,38 @@ export async function deleteConversion(id: string) {
 }
 
 export async function retryConversion(id: string) {
-  const supabase = createClient()
-  
   console.log(`[CREDIT SYSTEM] Retrying conversion ${id}`)
   
-  // Get conversion details first to check current status
-  const { data: existingConversion, error: fetchError } = await supabase
-    .from('conversions')
-    .select('status, user_id, original_filename')
-    .eq('id', id)
-    .single()
-  
-  if (fetchError) throw fetchError
-  
-  // Only allow retry for failed conversions
-  if (existingConversion.status !== 'failed') {
-    throw new Error('Can only retry failed conversions')
-  }
-  
-  // Validate user_id exists
-  if (!existingConversion.user_id) {
-    throw new Error('Conversion has no associated user')
-  }
-  
-  // Check if user has credits before allowing retry
-  const { data: profile, error: profileError } = await supabase
-    .from('user_profiles')
-    .select('credits_remaining')
-    .eq('id', existingConversion.user_id)
-    .single()
+  // Retries are handled server-side so the stored original can be re-dispatched
+  const response = await fetch(`/api/conversion/${id}/retry`, {
+    method: 'POST',
+    headers: {
+      'Accept': 'application/json'
+    }
+  })
   
-  if (profileError) throw profileError
+  const result = await response.json().catch(() => ({}))
   
-  if ((profile.credits_remaining || 0) < 1) {
-    throw new Error('Insufficient credits to retry conversion')
+  if (!response.ok) {
+    throw new Error(result.message || 'Failed to retry conversion')
   }
   
-  // Update conversion status to pending
-  const { data: conversion, error } = await supabase
+  console.log(`[CREDIT SYSTEM] Conversion ${id} queued for retry`)
+  return result
+}
+
+// Completed conversions without their extracted data, for pickers such as the report builder
+export async function getCompletedConversions(userId: string, limit = 100) {
+  const supabase = createClient()
+
+  const { data: conversions, error } = await supabase
     .from('conversions')
-    .update({
-      status: 'pending',
-      error_message: null,
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', id)
-    .select()
-    .single()
-  
+    .select('id, original_filename, created_at, total_rows, batch_id')
+    .eq('user_id', userId)
+    .eq('status', 'completed')
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
   if (error) throw error
-  
-  console.log(`[CREDIT SYSTEM] Conversion ${id} queued for retry`)
-  return conversion
-}
\ No newline at end of file
+  return conversions
+}
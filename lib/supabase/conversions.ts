@@ -1,13 +1,14 @@
-import { createClient } from './server'
-import { Database } from './types'
-import { ConversionStatus, ConversionRequest, EventType, CompanySummary, TransactionData } from './types'
+import { createClient, SupabaseServerClient } from './server'
+import { Database, Json } from './types'
+import { ConversionStatus, ConversionRequest, EventType, CompanySummary, TransactionData, ConversionDetails, ConversionProgress, QualityWarning, IndomaretInvoice } from './types'
+import { checkDataQuality } from '@/lib/services/data-quality'
 
 type Conversion = Database['public']['Tables']['conversions']['Row']
 type ConversionInsert = Database['public']['Tables']['conversions']['Insert']
 type ConversionUpdate = Database['public']['Tables']['conversions']['Update']
 
-export async function createConversion(data: ConversionInsert) {
-  const supabase = createClient()
+export async function createConversion(data: ConversionInsert, client?: SupabaseServerClient) {
+  const supabase = client ?? createClient()
   
   const { data: conversion, error } = await supabase
     .from('conversions')
@@ -19,8 +20,8 @@ export async function createConversion(data: ConversionInsert) {
   return conversion
 }
 
-export async function getConversion(id: string) {
-  const supabase = createClient()
+export async function getConversion(id: string, client?: SupabaseServerClient) {
+  const supabase = client ?? createClient()
   
   const { data: conversion, error } = await supabase
     .from('conversions')
@@ -70,6 +71,77 @@ export async function getUserConversions(userId: string, limit = 10) {
   return conversions
 }
 
+// Like getConversion, but scoped to one user and null when there is no such conversion. Used with the
+// service role client, where row level security does not apply.
+export async function getUserConversion(id: string, userId: string, client?: SupabaseServerClient) {
+  const supabase = client ?? createClient()
+
+  const { data: conversion, error } = await supabase
+    .from('conversions')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return conversion
+}
+
+export const CONVERSION_LIST_COLUMNS =
+  'id, status, document_type, original_filename, file_size, total_rows, error_message, batch_id, created_at, completed_at'
+
+export interface ConversionListOptions {
+  limit: number
+  offset: number
+  status?: ConversionStatus
+  batchId?: string
+}
+
+// One page of a user's conversions, newest first, without the extracted data
+export async function listUserConversions(
+  userId: string,
+  { limit, offset, status, batchId }: ConversionListOptions,
+  client?: SupabaseServerClient
+) {
+  const supabase = client ?? createClient()
+
+  let query = supabase
+    .from('conversions')
+    .select(CONVERSION_LIST_COLUMNS, { count: 'exact' })
+    .eq('user_id', userId)
+
+  if (status) {
+    query = query.eq('status', status)
+  }
+  if (batchId) {
+    query = query.eq('batch_id', batchId)
+  }
+
+  const { data: conversions, count, error } = await query
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1)
+
+  if (error) throw error
+  return { conversions, total: count ?? 0 }
+}
+
+// Delete one of a user's conversions. Returns the deleted row, or null when there was nothing to delete.
+// Jobs, edits and analytics rows go with it; removing the stored original is up to the caller.
+export async function deleteUserConversion(id: string, userId: string, client?: SupabaseServerClient) {
+  const supabase = client ?? createClient()
+
+  const { data: conversion, error } = await supabase
+    .from('conversions')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  return conversion
+}
+
 export async function deleteExpiredConversions() {
   const supabase = createClient()
   
@@ -116,9 +188,10 @@ export async function trackEvent(
   userId: string,
   eventType: EventType,
   conversionId?: string,
-  metadata?: Record<string, any>
+  metadata?: Record<string, any>,
+  client?: SupabaseServerClient
 ) {
-  const supabase = createClient()
+  const supabase = client ?? createClient()
   
   const { error } = await supabase
     .from('usage_analytics')
@@ -149,25 +222,130 @@ export async function getUserAnalytics(userId: string, days = 30) {
   return analytics
 }
 
-// Helper function to update conversion with summary and transaction data
+// Helper function to update conversion with summary and transaction data.
+// Data quality warnings are recomputed from the same data so they never go stale.
+// With `ifUpdatedAt`, the update only applies if the row is unchanged since it was read; returns null otherwise.
+// `downloadUrl` replaces the stored download link, e.g. when an external file no longer matches the data.
 export async function updateConversionDetails(
   id: string,
   summaries: CompanySummary[],
-  transactionData: TransactionData[]
+  transactionData: TransactionData[],
+  client?: SupabaseServerClient,
+  options: { ifUpdatedAt?: string, downloadUrl?: string | null } = {}
 ) {
-  const supabase = createClient()
-  
-  const { data: conversion, error } = await supabase
+  const supabase = client ?? createClient()
+  const qualityWarnings = checkDataQuality({ summaries, transaction_data: transactionData })
+
+  if (qualityWarnings.length > 0) {
+    console.log(`Conversion ${id} has ${qualityWarnings.length} data quality warnings: ${qualityWarnings.map(w => w.type).join(', ')}`)
+  }
+
+  let query = supabase
     .from('conversions')
     .update({
       summaries: summaries as any,
       transaction_data: transactionData as any,
+      quality_warnings: qualityWarnings as unknown as Json,
+      quality_checked_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+      ...(options.downloadUrl !== undefined && { download_url: options.downloadUrl })
+    })
+    .eq('id', id)
+
+  if (options.ifUpdatedAt) {
+    query = query.eq('updated_at', options.ifUpdatedAt)
+  }
+
+  const { data: conversion, error } = await query
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  if (!conversion && !options.ifUpdatedAt) throw new Error(`Conversion ${id} not found`)
+  return conversion
+}
+
+// Store extracted Indomaret invoices on a conversion
+export async function updateConversionInvoices(
+  id: string,
+  invoices: IndomaretInvoice[],
+  client?: SupabaseServerClient
+) {
+  const supabase = client ?? createClient()
+
+  const { data: conversion, error } = await supabase
+    .from('conversions')
+    .update({
+      invoice_data: invoices as unknown as Json,
       updated_at: new Date().toISOString()
     })
     .eq('id', id)
     .select()
     .single()
-  
+
   if (error) throw error
   return conversion
-}
\ No newline at end of file
+}
+
+// Record stage-level progress for a conversion that is still processing.
+// Returns false when the conversion has already left processing.
+export async function updateConversionProgress(
+  id: string,
+  progress: ConversionProgress,
+  client?: SupabaseServerClient
+) {
+  const supabase = client ?? createClient()
+
+  const { data: conversions, error } = await supabase
+    .from('conversions')
+    .update({
+      progress_stage: progress.stage,
+      progress_percent: Math.round(progress.percent),
+      progress_message: progress.message,
+      progress_updated_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+    .eq('status', 'processing')
+    .select('id')
+
+  if (error) throw error
+  return conversions.length > 0
+}
+
+// Read stored summaries and transaction data from a conversion row, if both are present
+export function parseConversionDetails(
+  conversion: Pick<Conversion, 'summaries' | 'transaction_data'>
+): ConversionDetails | null {
+  if (!Array.isArray(conversion.summaries) || !Array.isArray(conversion.transaction_data)) {
+    return null
+  }
+  
+  return {
+    summaries: conversion.summaries as unknown as CompanySummary[],
+    transaction_data: conversion.transaction_data as unknown as TransactionData[]
+  }
+}
+
+// Read stored Indomaret invoices from a conversion row, if present
+export function parseConversionInvoices(
+  conversion: Pick<Conversion, 'invoice_data'>
+): IndomaretInvoice[] | null {
+  if (!Array.isArray(conversion.invoice_data)) {
+    return null
+  }
+
+  return conversion.invoice_data as unknown as IndomaretInvoice[]
+}
+
+// Stored data quality warnings; rows saved before the checks existed are checked on read
+export function getQualityWarnings(
+  conversion: Pick<Conversion, 'summaries' | 'transaction_data' | 'quality_warnings'>
+): QualityWarning[] | null {
+  if (Array.isArray(conversion.quality_warnings)) {
+    return conversion.quality_warnings as unknown as QualityWarning[]
+  }
+
+  const details = parseConversionDetails(conversion)
+  return details ? checkDataQuality(details) : null
+}
@@ -0,0 +1,127 @@
+import { createClient, createServiceClient, SupabaseServerClient } from './server'
+import { CreditHistoryEntry, CreditLedgerEntry, Database } from './types'
+
+type CreditLedgerRow = Database['public']['Tables']['credit_ledger']['Row']
+
+// Credits only change through the ledger functions in supabase/migrations/016_credit_ledger.sql, which
+// update the balance and record the change in one transaction. They are restricted to the service role;
+// users read their own ledger with their session.
+
+export class InsufficientCreditsError extends Error {
+  constructor(message = 'Insufficient credits') {
+    super(message)
+    this.name = 'InsufficientCreditsError'
+  }
+}
+
+function toCreditError(error: { message: string }) {
+  if (error.message === 'INSUFFICIENT_CREDITS') {
+    return new InsufficientCreditsError()
+  }
+  return error
+}
+
+export function toCreditLedgerEntry(row: CreditLedgerRow): CreditLedgerEntry {
+  return {
+    id: row.id,
+    delta: row.delta,
+    balanceAfter: row.balance_after,
+    reason: row.reason,
+    conversionId: row.conversion_id,
+    createdAt: row.created_at
+  }
+}
+
+// Charge one credit per conversion, all or nothing. Returns the new balance.
+// Throws InsufficientCreditsError when the balance does not cover every conversion.
+export async function reserveConversionCredits(userId: string, conversionIds: string[], reason: string) {
+  const supabase = createServiceClient()
+
+  console.log(`[CREDIT SYSTEM] Reserving ${conversionIds.length} credit(s) for user ${userId} (${reason})`)
+
+  const { data: balance, error } = await supabase.rpc('reserve_conversion_credits', {
+    target_user_id: userId,
+    conversion_ids: conversionIds,
+    credit_reason: reason
+  })
+
+  if (error) throw toCreditError(error)
+  return balance
+}
+
+// Keep the credit of a finished conversion. Returns false when it had no open reservation.
+export async function commitConversionCredit(conversionId: string) {
+  const supabase = createServiceClient()
+
+  const { data: committed, error } = await supabase.rpc('commit_conversion_credit', {
+    target_conversion_id: conversionId
+  })
+
+  if (error) throw error
+  return committed
+}
+
+// Refund the open reservations of these conversions. Returns how many were refunded; conversions whose
+// credit was already committed or refunded are skipped.
+export async function releaseConversionCredits(conversionIds: string[], reason: string) {
+  const supabase = createServiceClient()
+
+  const { data: released, error } = await supabase.rpc('release_conversion_credits', {
+    conversion_ids: conversionIds,
+    credit_reason: reason
+  })
+
+  if (error) throw error
+
+  console.log(`[CREDIT SYSTEM] Refunded ${released} of ${conversionIds.length} reserved credit(s) (${reason})`)
+  return released
+}
+
+// Set the balance outright, recording the difference. Returns the new balance.
+export async function setCreditBalance(userId: string, balance: number, reason: string) {
+  const supabase = createServiceClient()
+
+  console.log(`[CREDIT SYSTEM] Setting credits for user ${userId} to ${balance} (${reason})`)
+
+  const { data: newBalance, error } = await supabase.rpc('set_credit_balance', {
+    target_user_id: userId,
+    target_balance: balance,
+    credit_reason: reason
+  })
+
+  if (error) throw error
+  return newBalance
+}
+
+export interface CreditHistoryQuery {
+  from?: string
+  to?: string
+  limit: number
+  offset: number
+}
+
+// A user's ledger entries, newest first, with the file names of their conversions
+export async function getCreditHistory(userId: string, query: CreditHistoryQuery, client?: SupabaseServerClient) {
+  const supabase = client ?? createClient()
+
+  let request = supabase
+    .from('credit_ledger')
+    .select('*, conversions(original_filename)', { count: 'exact' })
+    .eq('user_id', userId)
+
+  if (query.from) request = request.gte('created_at', query.from)
+  if (query.to) request = request.lt('created_at', query.to)
+
+  const { data: rows, count, error } = await request
+    .order('created_at', { ascending: false })
+    .range(query.offset, query.offset + query.limit - 1)
+
+  if (error) throw error
+
+  const entries: CreditHistoryEntry[] = rows.map(({ conversions, ...row }) => ({
+    ...toCreditLedgerEntry(row),
+    fileName: conversions?.original_filename ?? null
+  }))
+
+  return { entries, total: count ?? entries.length }
+}
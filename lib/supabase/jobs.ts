@@ -0,0 +1,82 @@
+import { createServiceClient } from './server'
+import { Database, DocumentType } from './types'
+
+export type ProcessingJob = Database['public']['Tables']['processing_jobs']['Row']
+type ProcessingJobUpdate = Database['public']['Tables']['processing_jobs']['Update']
+
+// Jobs are only written by the server, so every helper uses the service role client
+
+// Create a job already claimed by the caller, so the request that enqueued it can make the first attempt
+export async function createClaimedProcessingJob(
+  conversionId: string,
+  userId: string,
+  documentType: DocumentType,
+  maxAttempts = 5
+) {
+  const supabase = createServiceClient()
+  const now = new Date().toISOString()
+
+  const { data: job, error } = await supabase
+    .from('processing_jobs')
+    .insert({
+      conversion_id: conversionId,
+      user_id: userId,
+      document_type: documentType,
+      status: 'running',
+      attempts: 1,
+      max_attempts: maxAttempts,
+      run_at: now,
+      locked_at: now
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  return job
+}
+
+export async function claimProcessingJobs(batchSize: number, lockTimeoutSeconds = 300) {
+  const supabase = createServiceClient()
+
+  const { data: jobs, error } = await supabase.rpc('claim_processing_jobs', {
+    batch_size: batchSize,
+    lock_timeout_seconds: lockTimeoutSeconds
+  })
+
+  if (error) throw error
+  return (jobs || []) as ProcessingJob[]
+}
+
+export async function updateProcessingJob(id: string, updates: ProcessingJobUpdate) {
+  const supabase = createServiceClient()
+
+  const { data: job, error } = await supabase
+    .from('processing_jobs')
+    .update({
+      ...updates,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (error) throw error
+  return job
+}
+
+export async function getProcessingJobCounts() {
+  const supabase = createServiceClient()
+
+  const { data: jobs, error } = await supabase
+    .from('processing_jobs')
+    .select('status')
+    .in('status', ['queued', 'running', 'dead'])
+
+  if (error) throw error
+
+  return {
+    queued: jobs.filter(job => job.status === 'queued').length,
+    running: jobs.filter(job => job.status === 'running').length,
+    dead: jobs.filter(job => job.status === 'dead').length
+  }
+}
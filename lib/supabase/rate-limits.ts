@@ -0,0 +1,28 @@
+import { createServiceClient } from './server'
+import { RateLimitScope } from './types'
+
+// Buckets are only reachable with the service role; see supabase/migrations/015_rate_limits.sql
+
+export async function takeRateLimitToken(bucket: string, scope: RateLimitScope, userId?: string | null) {
+  const supabase = createServiceClient()
+
+  const { data, error } = await supabase.rpc('take_rate_limit_token', {
+    bucket,
+    scope,
+    plan_user_id: userId ?? null
+  })
+
+  if (error) throw error
+  return data?.[0] ?? null
+}
+
+export async function pruneRateLimitBuckets(maxIdleSeconds?: number) {
+  const supabase = createServiceClient()
+
+  const { data: pruned, error } = await supabase.rpc('prune_rate_limit_buckets', {
+    max_idle_seconds: maxIdleSeconds
+  })
+
+  if (error) throw error
+  return pruned ?? 0
+}
@@ -45,4 +45,7 @@ export const createServiceClient = () => {
       },
     }
   )
-}
\ No newline at end of file
+}
+
+// Either client; lets data-access helpers run outside a user request (workers, cron routes)
+export type SupabaseServerClient = ReturnType<typeof createServiceClient>
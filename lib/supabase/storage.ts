@@ -0,0 +1,47 @@
+import { createClient, SupabaseServerClient } from './server'
+
+export const ORIGINALS_BUCKET = 'originals'
+
+// Originals are keyed per user so storage policies can scope access by folder
+export function getOriginalFilePath(userId: string, conversionId: string) {
+  return `${userId}/${conversionId}.pdf`
+}
+
+export async function uploadOriginalFile(
+  userId: string,
+  conversionId: string,
+  fileBuffer: Buffer,
+  contentType = 'application/pdf',
+  client?: SupabaseServerClient
+) {
+  const supabase = client ?? createClient()
+  const path = getOriginalFilePath(userId, conversionId)
+
+  const { error } = await supabase.storage
+    .from(ORIGINALS_BUCKET)
+    .upload(path, fileBuffer, { contentType })
+
+  if (error) throw error
+  return path
+}
+
+export async function downloadOriginalFile(path: string, client?: SupabaseServerClient) {
+  const supabase = client ?? createClient()
+
+  const { data, error } = await supabase.storage
+    .from(ORIGINALS_BUCKET)
+    .download(path)
+
+  if (error) throw error
+  return Buffer.from(await data.arrayBuffer())
+}
+
+export async function deleteOriginalFile(path: string, client?: SupabaseServerClient) {
+  const supabase = client ?? createClient()
+
+  const { error } = await supabase.storage
+    .from(ORIGINALS_BUCKET)
+    .remove([path])
+
+  if (error) throw error
+}
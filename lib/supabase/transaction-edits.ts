@@ -0,0 +1,59 @@
+import { createClient, SupabaseServerClient } from './server'
+import { Database, EditableTransactionField, TransactionEdit } from './types'
+
+type TransactionEditRow = Database['public']['Tables']['transaction_edits']['Row']
+type TransactionEditInsert = Database['public']['Tables']['transaction_edits']['Insert']
+
+function toTransactionEdit(row: TransactionEditRow): TransactionEdit {
+  return {
+    id: row.id,
+    conversionId: row.conversion_id,
+    userId: row.user_id,
+    userEmail: row.user_email,
+    row: row.row_index,
+    field: row.field as EditableTransactionField,
+    oldValue: row.old_value as TransactionEdit['oldValue'],
+    newValue: row.new_value as TransactionEdit['newValue'],
+    revertsEditId: row.reverts_edit_id,
+    createdAt: row.created_at
+  }
+}
+
+export async function recordTransactionEdits(edits: TransactionEditInsert[], client?: SupabaseServerClient) {
+  const supabase = client ?? createClient()
+
+  const { data, error } = await supabase
+    .from('transaction_edits')
+    .insert(edits)
+    .select()
+
+  if (error) throw error
+  return data.map(toTransactionEdit)
+}
+
+// Newest first
+export async function getTransactionEdits(conversionId: string, client?: SupabaseServerClient) {
+  const supabase = client ?? createClient()
+
+  const { data, error } = await supabase
+    .from('transaction_edits')
+    .select('*')
+    .eq('conversion_id', conversionId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return data.map(toTransactionEdit)
+}
+
+export async function getTransactionEdit(id: string, client?: SupabaseServerClient) {
+  const supabase = client ?? createClient()
+
+  const { data, error } = await supabase
+    .from('transaction_edits')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? toTransactionEdit(data) : null
+}
@@ -59,6 +59,18 @@ export interface Database {
           download_url: string | null
           summaries: Json | null
           transaction_data: Json | null
+          original_file_path: string | null
+          batch_id: string | null
+          started_at: string | null
+          completed_at: string | null
+          error_code: string | null
+          progress_stage: string | null
+          progress_percent: number | null
+          progress_message: string | null
+          progress_updated_at: string | null
+          quality_warnings: Json | null
+          quality_checked_at: string | null
+          invoice_data: Json | null
           expires_at: string | null
           created_at: string
           updated_at: string
@@ -79,6 +91,18 @@ export interface Database {
           download_url?: string | null
           summaries?: Json | null
           transaction_data?: Json | null
+          original_file_path?: string | null
+          batch_id?: string | null
+          started_at?: string | null
+          completed_at?: string | null
+          error_code?: string | null
+          progress_stage?: string | null
+          progress_percent?: number | null
+          progress_message?: string | null
+          progress_updated_at?: string | null
+          quality_warnings?: Json | null
+          quality_checked_at?: string | null
+          invoice_data?: Json | null
           expires_at?: string | null
           created_at?: string
           updated_at?: string
@@ -99,11 +123,30 @@ export interface Database {
           download_url?: string | null
           summaries?: Json | null
           transaction_data?: Json | null
+          original_file_path?: string | null
+          batch_id?: string | null
+          started_at?: string | null
+          completed_at?: string | null
+          error_code?: string | null
+          progress_stage?: string | null
+          progress_percent?: number | null
+          progress_message?: string | null
+          progress_updated_at?: string | null
+          quality_warnings?: Json | null
+          quality_checked_at?: string | null
+          invoice_data?: Json | null
           expires_at?: string | null
           created_at?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "conversions_batch_id_fkey"
+            columns: ["batch_id"]
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          }
+        ]
       }
       usage_analytics: {
         Row: {
@@ -178,12 +221,498 @@ export interface Database {
         }
         Relationships: []
       }
+      processing_jobs: {
+        Row: {
+          id: string
+          conversion_id: string
+          user_id: string
+          document_type: string
+          status: string
+          attempts: number
+          max_attempts: number
+          run_at: string
+          locked_at: string | null
+          last_error: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          conversion_id: string
+          user_id: string
+          document_type: string
+          status?: string
+          attempts?: number
+          max_attempts?: number
+          run_at?: string
+          locked_at?: string | null
+          last_error?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          conversion_id?: string
+          user_id?: string
+          document_type?: string
+          status?: string
+          attempts?: number
+          max_attempts?: number
+          run_at?: string
+          locked_at?: string | null
+          last_error?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processing_jobs_conversion_id_fkey"
+            columns: ["conversion_id"]
+            referencedRelation: "conversions"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      webhook_events: {
+        Row: {
+          id: string
+          source: string
+          event_id: string
+          conversion_id: string | null
+          event_timestamp: string
+          received_at: string
+        }
+        Insert: {
+          id?: string
+          source: string
+          event_id: string
+          conversion_id?: string | null
+          event_timestamp: string
+          received_at?: string
+        }
+        Update: {
+          id?: string
+          source?: string
+          event_id?: string
+          conversion_id?: string | null
+          event_timestamp?: string
+          received_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_events_conversion_id_fkey"
+            columns: ["conversion_id"]
+            referencedRelation: "conversions"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      batches: {
+        Row: {
+          id: string
+          user_id: string
+          document_type: string
+          total_files: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          document_type: string
+          total_files: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          document_type?: string
+          total_files?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      transaction_edits: {
+        Row: {
+          id: string
+          conversion_id: string
+          user_id: string | null
+          user_email: string | null
+          row_index: number
+          field: string
+          old_value: Json | null
+          new_value: Json | null
+          reverts_edit_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          conversion_id: string
+          user_id?: string | null
+          user_email?: string | null
+          row_index: number
+          field: string
+          old_value?: Json | null
+          new_value?: Json | null
+          reverts_edit_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          conversion_id?: string
+          user_id?: string | null
+          user_email?: string | null
+          row_index?: number
+          field?: string
+          old_value?: Json | null
+          new_value?: Json | null
+          reverts_edit_id?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_edits_conversion_id_fkey"
+            columns: ["conversion_id"]
+            referencedRelation: "conversions"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      webhook_endpoints: {
+        Row: {
+          id: string
+          user_id: string
+          url: string
+          description: string | null
+          secret: string
+          events: string[]
+          enabled: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          url: string
+          description?: string | null
+          secret: string
+          events: string[]
+          enabled?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          url?: string
+          description?: string | null
+          secret?: string
+          events?: string[]
+          enabled?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      webhook_deliveries: {
+        Row: {
+          id: string
+          endpoint_id: string
+          user_id: string
+          conversion_id: string | null
+          event_id: string
+          event_type: string
+          payload: Json
+          status: string
+          attempts: number
+          max_attempts: number
+          next_attempt_at: string | null
+          locked_at: string | null
+          response_status: number | null
+          response_body: string | null
+          last_error: string | null
+          duration_ms: number | null
+          delivered_at: string | null
+          resent_from: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          endpoint_id: string
+          user_id: string
+          conversion_id?: string | null
+          event_id: string
+          event_type: string
+          payload: Json
+          status?: string
+          attempts?: number
+          max_attempts?: number
+          next_attempt_at?: string | null
+          locked_at?: string | null
+          response_status?: number | null
+          response_body?: string | null
+          last_error?: string | null
+          duration_ms?: number | null
+          delivered_at?: string | null
+          resent_from?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          endpoint_id?: string
+          user_id?: string
+          conversion_id?: string | null
+          event_id?: string
+          event_type?: string
+          payload?: Json
+          status?: string
+          attempts?: number
+          max_attempts?: number
+          next_attempt_at?: string | null
+          locked_at?: string | null
+          response_status?: number | null
+          response_body?: string | null
+          last_error?: string | null
+          duration_ms?: number | null
+          delivered_at?: string | null
+          resent_from?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            referencedRelation: "webhook_endpoints"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      api_keys: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          key_prefix: string
+          key_hash: string
+          scopes: string[]
+          last_used_at: string | null
+          last_used_ip: string | null
+          revoked_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          key_prefix: string
+          key_hash: string
+          scopes: string[]
+          last_used_at?: string | null
+          last_used_ip?: string | null
+          revoked_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          key_prefix?: string
+          key_hash?: string
+          scopes?: string[]
+          last_used_at?: string | null
+          last_used_ip?: string | null
+          revoked_at?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      credit_ledger: {
+        Row: {
+          id: string
+          user_id: string
+          delta: number
+          balance_after: number
+          reason: string
+          conversion_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          delta: number
+          balance_after: number
+          reason: string
+          conversion_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          delta?: number
+          balance_after?: number
+          reason?: string
+          conversion_id?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_ledger_conversion_id_fkey"
+            columns: ["conversion_id"]
+            referencedRelation: "conversions"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      credit_reservations: {
+        Row: {
+          id: string
+          user_id: string
+          conversion_id: string
+          amount: number
+          status: string
+          created_at: string
+          settled_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          conversion_id: string
+          amount?: number
+          status?: string
+          created_at?: string
+          settled_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          conversion_id?: string
+          amount?: number
+          status?: string
+          created_at?: string
+          settled_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_reservations_conversion_id_fkey"
+            columns: ["conversion_id"]
+            referencedRelation: "conversions"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      rate_limit_buckets: {
+        Row: {
+          bucket_key: string
+          tokens: number
+          updated_at: string
+        }
+        Insert: {
+          bucket_key: string
+          tokens: number
+          updated_at?: string
+        }
+        Update: {
+          bucket_key?: string
+          tokens?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_processing_jobs: {
+        Args: {
+          batch_size: number
+          lock_timeout_seconds?: number
+        }
+        Returns: {
+            id: string
+            conversion_id: string
+            user_id: string
+            document_type: string
+            status: string
+            attempts: number
+            max_attempts: number
+            run_at: string
+            locked_at: string | null
+            last_error: string | null
+            created_at: string
+            updated_at: string
+        }[]
+      }
+      claim_webhook_deliveries: {
+        Args: {
+          batch_size: number
+          lock_timeout_seconds?: number
+        }
+        Returns: Database['public']['Tables']['webhook_deliveries']['Row'][]
+      }
+      take_rate_limit_token: {
+        Args: {
+          bucket: string
+          scope: string
+          plan_user_id?: string | null
+        }
+        Returns: {
+          allowed: boolean
+          bucket_limit: number | null
+          remaining: number | null
+          reset_seconds: number | null
+          retry_after_seconds: number
+        }[]
+      }
+      prune_rate_limit_buckets: {
+        Args: {
+          max_idle_seconds?: number
+        }
+        Returns: number
+      }
+      apply_credit_change: {
+        Args: {
+          target_user_id: string
+          credit_delta: number
+          credit_reason: string
+          target_conversion_id?: string | null
+        }
+        Returns: number
+      }
+      set_credit_balance: {
+        Args: {
+          target_user_id: string
+          target_balance: number
+          credit_reason: string
+        }
+        Returns: number
+      }
+      reserve_conversion_credits: {
+        Args: {
+          target_user_id: string
+          conversion_ids: string[]
+          credit_reason: string
+        }
+        Returns: number
+      }
+      commit_conversion_credit: {
+        Args: {
+          target_conversion_id: string
+        }
+        Returns: boolean
+      }
+      release_conversion_credits: {
+        Args: {
+          conversion_ids: string[]
+          credit_reason: string
+        }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
@@ -199,8 +728,48 @@ export type ConversionStatus = 'pending' | 'processing' | 'completed' | 'failed'
 
 export type DocumentType = 'spt' | 'indomaret'
 
+// Processing stages, in order, as reported by the processing backend
+export type ProgressStage = 'validation' | 'pdf_parse' | 'ai_extraction' | 'sheet_population'
+
+export interface ConversionProgress {
+  stage: ProgressStage
+  percent: number // overall, 0-100
+  message: string | null
+}
+
+export type ProcessingJobStatus = 'queued' | 'running' | 'succeeded' | 'dead'
+
+// Derived from the statuses of a batch's conversions
+export type BatchStatus = 'processing' | 'completed' | 'partial' | 'failed'
+
+export interface BatchSummary {
+  status: BatchStatus
+  total: number
+  pending: number
+  processing: number
+  completed: number
+  failed: number
+}
+
 export type SubscriptionTier = 'free' | 'pro' | 'business'
 
+// One change to a user's credit balance, from credit_ledger
+export interface CreditLedgerEntry {
+  id: string
+  delta: number // negative for charges
+  balanceAfter: number
+  reason: string // e.g. conversion_started, conversion_failed_refund, monthly_refill_pro
+  conversionId: string | null
+  createdAt: string
+}
+
+// Ledger entry as listed in the credit history, with the file name of its conversion
+export interface CreditHistoryEntry extends CreditLedgerEntry {
+  fileName: string | null
+}
+
+export type ExportFormat = 'csv' | 'xlsx' | 'ods' | 'json'
+
 export type EventType = 'upload' | 'conversion_start' | 'conversion_success' | 'conversion_failed' | 'download'
 
 export interface ConversionRequest {
@@ -234,6 +803,22 @@ export interface ConversionResponse {
   error?: string
 }
 
+export interface BatchConversionResponse {
+  success: boolean
+  batchId: string
+  conversions: {
+    conversionId: string
+    fileName: string
+    status: ConversionStatus
+  }[]
+  // Archive entries that were skipped, with the reason for each
+  rejected?: {
+    fileName: string
+    reason: string
+  }[]
+  message?: string
+}
+
 export interface APIError {
   code: string
   message: string
@@ -251,18 +836,36 @@ export interface SubscriptionPlan {
     priorityProcessing: boolean
     apiAccess: boolean
     customRetention: number // days
+    rateLimits?: Partial<Record<RateLimitScope, RateLimitConfig>>
   }
 }
 
+// `convert` covers uploads; `status` covers status polling and the other /api/v1 calls
+export type RateLimitScope = 'convert' | 'status'
+
+// Token bucket: up to `burst` requests at once, refilled at `perMinute` requests per minute
+export interface RateLimitConfig {
+  burst: number
+  perMinute: number
+}
+
 // Conversion Detail Types
 export interface CompanySummary {
   json: {
     nama: string
+    npwp?: string // set on summaries grouped by NPWP, e.g. in consolidated reports
     totalPajak: number
     perJenis: Record<string, number>
   }
 }
 
+// Where a row was found in the original PDF. `bbox` is [left, top, right, bottom] as fractions
+// of the page size, measured from the top-left corner.
+export interface TransactionSource {
+  page: number // 1-based
+  bbox?: [number, number, number, number]
+}
+
 export interface TransactionData {
   no: number
   nama: string
@@ -272,9 +875,211 @@ export interface TransactionData {
   pajak_penghasilan: number
   nomor: string
   tanggal: string
+  source?: TransactionSource
 }
 
 export interface ConversionDetails {
   summaries: CompanySummary[]
   transaction_data: TransactionData[]
+}
+
+// Indomaret invoices (faktur). Amounts are in rupiah; `jumlah` and `subtotal` are before PPN.
+export interface IndomaretLineItem {
+  no: number
+  sku: string // PLU as printed on the invoice
+  nama_barang: string
+  qty: number
+  harga_satuan: number
+  diskon: number
+  jumlah: number // qty × harga_satuan − diskon
+  ppn: number
+}
+
+export interface IndomaretInvoice {
+  kode_toko: string
+  nama_toko: string
+  nomor_faktur: string
+  tanggal: string // dd/mm/yyyy
+  items: IndomaretLineItem[]
+  subtotal: number
+  total_ppn: number
+  total: number // subtotal + total_ppn
+}
+
+// A printed amount on an invoice that does not match the amounts it is made of
+export interface InvoiceTotalsIssue {
+  field: 'jumlah' | 'subtotal' | 'total_ppn' | 'total'
+  item?: number // index into items, for `jumlah`
+  expected: number // computed from the other amounts
+  actual: number // as printed
+}
+
+// Data quality checks run on stored extraction results
+export type QualityWarningType =
+  | 'sum_mismatch'
+  | 'row_sequence_gap'
+  | 'duplicate_nomor'
+  | 'negative_amount'
+  | 'invalid_tanggal'
+  | 'missing_npwp'
+
+export interface QualityWarning {
+  type: QualityWarningType
+  message: string
+  rows: number[] // indexes into transaction_data
+  company?: string // for sum_mismatch
+  expected?: number // the summary's totalPajak
+  actual?: number // the sum over the company's transactions
+}
+
+// Manual corrections to extracted transactions
+export type EditableTransactionField = Exclude<keyof TransactionData, 'no' | 'source'>
+
+export interface TransactionChange {
+  row: number // index into transaction_data
+  field: EditableTransactionField
+  value: string | number | null // null empties an optional field
+}
+
+export interface TransactionEdit {
+  id: string
+  conversionId: string
+  userId: string | null
+  userEmail: string | null
+  row: number
+  field: EditableTransactionField
+  oldValue: string | number | null
+  newValue: string | number | null
+  revertsEditId: string | null
+  createdAt: string
+}
+
+// Personal API keys for the public REST API
+export type ApiKeyScope = 'conversions:read' | 'conversions:write'
+
+export interface ApiKey {
+  id: string
+  name: string
+  prefix: string // first characters of the key, enough to recognise it
+  scopes: ApiKeyScope[]
+  lastUsedAt: string | null
+  revokedAt: string | null
+  createdAt: string
+}
+
+export interface CreatedApiKey extends ApiKey {
+  key: string // only returned once, when the key is created
+}
+
+// Customer webhooks fired when a conversion finishes
+export type WebhookEventType = 'conversion.completed' | 'conversion.failed'
+
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'succeeded' | 'failed'
+
+export interface WebhookEndpoint {
+  id: string
+  url: string
+  description: string | null
+  events: WebhookEventType[]
+  enabled: boolean
+  createdAt: string
+}
+
+export interface CreatedWebhookEndpoint extends WebhookEndpoint {
+  secret: string // only returned once, when the endpoint is created
+}
+
+export interface WebhookDelivery {
+  id: string
+  endpointId: string
+  conversionId: string | null
+  eventId: string
+  eventType: WebhookEventType
+  status: WebhookDeliveryStatus
+  attempts: number
+  maxAttempts: number
+  nextAttemptAt: string | null
+  responseStatus: number | null
+  responseBody: string | null
+  lastError: string | null
+  durationMs: number | null
+  deliveredAt: string | null
+  resentFrom: string | null
+  createdAt: string
+}
+
+// Body of every delivery; the same event keeps its id across retries and resends
+export interface ConversionWebhookEvent {
+  id: string
+  type: WebhookEventType
+  createdAt: string
+  data: {
+    conversion: PublicConversion
+  }
+}
+
+// Conversion as returned by /api/v1
+export interface PublicConversion {
+  id: string
+  status: ConversionStatus
+  documentType: DocumentType
+  originalFilename: string
+  fileSize: number | null
+  totalRows: number
+  errorMessage: string | null
+  batchId: string | null
+  createdAt: string
+  completedAt: string | null
+  downloadUrl: string | null
+}
+
+export interface ReconciliationRow {
+  nama: string
+  summaryTotal: number
+  transactionTotal: number
+  difference: number
+  transactionCount: number
+}
+
+// Consolidated report across several conversions
+export interface ReportTransaction extends TransactionData {
+  fileName: string // the conversion the row came from
+}
+
+export interface ReportBreakdownRow {
+  npwp: string
+  nama: string
+  jenisPenghasilan: string
+  transactionCount: number
+  rupiah: number
+  pajakPenghasilan: number
+}
+
+export interface ConsolidatedReport {
+  sources: {
+    conversionId: string
+    fileName: string
+    transactionCount: number
+  }[]
+  // Requested conversions that were left out, e.g. because they have not completed
+  skipped: {
+    conversionId: string
+    fileName: string | null
+    reason: string
+  }[]
+  summaries: CompanySummary[] // one per NPWP
+  breakdown: ReportBreakdownRow[] // one per NPWP and jenis penghasilan
+  transactions: ReportTransaction[]
+  totals: {
+    transactions: number
+    companies: number
+    rupiah: number
+    pajakPenghasilan: number
+  }
+}
+
+export interface ExportOptions {
+  delimiter?: ',' | ';' | '\t' | '|'
+  decimalFormat?: 'id' | 'en' // 'id' uses a decimal comma (1234,5)
+  sheet?: 'transactions' | 'summaries' // CSV only holds a single table
 }
\ No newline at end of file
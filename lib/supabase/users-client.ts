@@ -50,153 +50,6 @@ export async function createUserProfile(data: UserProfileInsert) {
   return profile
 }
 
-export async function updateUserCredits(userId: string, creditDelta: number, reason?: string) {
-  const supabase = createClient()
-  
-  console.log(`[CREDIT SYSTEM] Updating credits for user ${userId}: ${creditDelta > 0 ? '+' : ''}${creditDelta} (${reason || 'no reason specified'})`)
-  
-  // First get current credits
-  const { data: profile, error: fetchError } = await supabase
-    .from('user_profiles')
-    .select('credits_remaining')
-    .eq('id', userId)
-    .single()
-  
-  if (fetchError) {
-    console.error('[CREDIT SYSTEM] Failed to fetch user profile:', fetchError)
-    throw fetchError
-  }
-  
-  const currentCredits = profile.credits_remaining || 0
-  
-  // Calculate new credits (creditDelta is positive for additions, negative for deductions)
-  const newCredits = Math.max(0, currentCredits + creditDelta)
-  
-  console.log(`[CREDIT SYSTEM] Credit calculation: ${currentCredits} + (${creditDelta}) = ${newCredits}`)
-  
-  // Prevent operation if it would result in negative credits and it's a deduction
-  if (creditDelta < 0 && currentCredits + creditDelta < 0) {
-    const errorMsg = `Insufficient credits: user has ${currentCredits}, attempted to deduct ${Math.abs(creditDelta)}`
-    console.error(`[CREDIT SYSTEM] ${errorMsg}`)
-    throw new Error(errorMsg)
-  }
-  
-  // Update credits atomically
-  const { data: updatedProfile, error } = await supabase
-    .from('user_profiles')
-    .update({ 
-      credits_remaining: newCredits,
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', userId)
-    .eq('credits_remaining', currentCredits) // Optimistic locking
-    .select()
-    .single()
-  
-  if (error) {
-    console.error('[CREDIT SYSTEM] Failed to update credits:', error)
-    throw error
-  }
-  
-  if (!updatedProfile) {
-    // This means the optimistic lock failed - credits were changed by another operation
-    console.error('[CREDIT SYSTEM] Optimistic lock failed - credits were modified by another operation')
-    throw new Error('Credit operation failed due to concurrent modification. Please retry.')
-  }
-  
-  console.log(`[CREDIT SYSTEM] Credits updated successfully: ${currentCredits} -> ${newCredits}`)
-  
-  // Log the credit transaction for audit trail
-  try {
-    await supabase
-      .from('usage_analytics')
-      .insert({
-        user_id: userId,
-        event_type: 'credit_change',
-        metadata: {
-          credit_delta: creditDelta,
-          credits_before: currentCredits,
-          credits_after: newCredits,
-          reason: reason || 'unknown',
-          timestamp: new Date().toISOString()
-        }
-      })
-  } catch (logError) {
-    console.error('[CREDIT SYSTEM] Failed to log credit transaction:', logError)
-    // Don't fail the operation if logging fails
-  }
-  
-  return updatedProfile
-}
-
-export async function refillUserCredits(userId: string, subscriptionTier: SubscriptionTier) {
-  const supabase = createClient()
-  
-  console.log(`[CREDIT SYSTEM] Refilling credits for user ${userId} with ${subscriptionTier} plan`)
-  
-  // Get subscription plan details
-  const { data: plan, error: planError } = await supabase
-    .from('subscription_plans')
-    .select('credits_per_month')
-    .eq('name', subscriptionTier.charAt(0).toUpperCase() + subscriptionTier.slice(1))
-    .single()
-  
-  if (planError) {
-    console.error('[CREDIT SYSTEM] Failed to get subscription plan:', planError)
-    throw planError
-  }
-  
-  const creditsToAdd = plan.credits_per_month || 10
-  
-  // Get current credits to calculate the refill amount
-  const { data: profile, error: fetchError } = await supabase
-    .from('user_profiles')
-    .select('credits_remaining')
-    .eq('id', userId)
-    .single()
-  
-  if (fetchError) throw fetchError
-  
-  const currentCredits = profile.credits_remaining || 0
-  
-  // Set to full monthly allocation (not additive)
-  const creditDelta = creditsToAdd - currentCredits
-  
-  if (creditDelta !== 0) {
-    return await updateUserCredits(userId, creditDelta, `monthly_refill_${subscriptionTier}`)
-  }
-  
-  console.log(`[CREDIT SYSTEM] No refill needed - user already has ${currentCredits} credits`)
-  return profile
-}
-
-export async function upgradeUserSubscription(userId: string, newTier: SubscriptionTier) {
-  const supabase = createClient()
-  
-  // Get new subscription plan details
-  const { data: plan, error: planError } = await supabase
-    .from('subscription_plans')
-    .select('credits_per_month')
-    .eq('name', newTier.charAt(0).toUpperCase() + newTier.slice(1))
-    .single()
-  
-  if (planError) throw planError
-  
-  const { data: profile, error } = await supabase
-    .from('user_profiles')
-    .update({ 
-      subscription_tier: newTier,
-      credits_remaining: plan.credits_per_month || 10,
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', userId)
-    .select()
-    .single()
-  
-  if (error) throw error
-  return profile
-}
-
 export async function getSubscriptionPlans() {
   const supabase = createClient()
   
@@ -1,4 +1,5 @@
-import { createClient } from './server'
+import { createClient, createServiceClient, SupabaseServerClient } from './server'
+import { setCreditBalance, toCreditLedgerEntry } from './credits'
 import { Database } from './types'
 import { SubscriptionTier } from './types'
 
@@ -7,8 +8,8 @@ type UserProfileInsert = Database['public']['Tables']['user_profiles']['Insert']
 type UserProfileUpdate = Database['public']['Tables']['user_profiles']['Update']
 type SubscriptionPlan = Database['public']['Tables']['subscription_plans']['Row']
 
-export async function getUserProfile(userId: string) {
-  const supabase = createClient()
+export async function getUserProfile(userId: string, client?: SupabaseServerClient) {
+  const supabase = client ?? createClient()
   
   const { data: profile, error } = await supabase
     .from('user_profiles')
@@ -50,85 +51,6 @@ export async function createUserProfile(data: UserProfileInsert) {
   return profile
 }
 
-export async function updateUserCredits(userId: string, creditDelta: number, reason?: string) {
-  const supabase = createClient()
-  
-  console.log(`[CREDIT SYSTEM] Updating credits for user ${userId}: ${creditDelta > 0 ? '+' : ''}${creditDelta} (${reason || 'no reason specified'})`)
-  
-  // First get current credits
-  const { data: profile, error: fetchError } = await supabase
-    .from('user_profiles')
-    .select('credits_remaining')
-    .eq('id', userId)
-    .single()
-  
-  if (fetchError) {
-    console.error('[CREDIT SYSTEM] Failed to fetch user profile:', fetchError)
-    throw fetchError
-  }
-  
-  const currentCredits = profile.credits_remaining || 0
-  
-  // Calculate new credits (creditDelta is positive for additions, negative for deductions)
-  const newCredits = Math.max(0, currentCredits + creditDelta)
-  
-  console.log(`[CREDIT SYSTEM] Credit calculation: ${currentCredits} + (${creditDelta}) = ${newCredits}`)
-  
-  // Prevent operation if it would result in negative credits and it's a deduction
-  if (creditDelta < 0 && currentCredits + creditDelta < 0) {
-    const errorMsg = `Insufficient credits: user has ${currentCredits}, attempted to deduct ${Math.abs(creditDelta)}`
-    console.error(`[CREDIT SYSTEM] ${errorMsg}`)
-    throw new Error(errorMsg)
-  }
-  
-  // Update credits atomically
-  const { data: updatedProfile, error } = await supabase
-    .from('user_profiles')
-    .update({ 
-      credits_remaining: newCredits,
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', userId)
-    .eq('credits_remaining', currentCredits) // Optimistic locking
-    .select()
-    .single()
-  
-  if (error) {
-    console.error('[CREDIT SYSTEM] Failed to update credits:', error)
-    throw error
-  }
-  
-  if (!updatedProfile) {
-    // This means the optimistic lock failed - credits were changed by another operation
-    console.error('[CREDIT SYSTEM] Optimistic lock failed - credits were modified by another operation')
-    throw new Error('Credit operation failed due to concurrent modification. Please retry.')
-  }
-  
-  console.log(`[CREDIT SYSTEM] Credits updated successfully: ${currentCredits} -> ${newCredits}`)
-  
-  // Log the credit transaction for audit trail
-  try {
-    await supabase
-      .from('usage_analytics')
-      .insert({
-        user_id: userId,
-        event_type: 'credit_change',
-        metadata: {
-          credit_delta: creditDelta,
-          credits_before: currentCredits,
-          credits_after: newCredits,
-          reason: reason || 'unknown',
-          timestamp: new Date().toISOString()
-        }
-      })
-  } catch (logError) {
-    console.error('[CREDIT SYSTEM] Failed to log credit transaction:', logError)
-    // Don't fail the operation if logging fails
-  }
-  
-  return updatedProfile
-}
-
 export async function refillUserCredits(userId: string, subscriptionTier: SubscriptionTier) {
   const supabase = createClient()
   
@@ -146,28 +68,8 @@ export async function refillUserCredits(userId: string, subscriptionTier: Subscr
     throw planError
   }
   
-  const creditsToAdd = plan.credits_per_month || 10
-  
-  // Get current credits to calculate the refill amount
-  const { data: profile, error: fetchError } = await supabase
-    .from('user_profiles')
-    .select('credits_remaining')
-    .eq('id', userId)
-    .single()
-  
-  if (fetchError) throw fetchError
-  
-  const currentCredits = profile.credits_remaining || 0
-  
   // Set to full monthly allocation (not additive)
-  const creditDelta = creditsToAdd - currentCredits
-  
-  if (creditDelta !== 0) {
-    return await updateUserCredits(userId, creditDelta, `monthly_refill_${subscriptionTier}`)
-  }
-  
-  console.log(`[CREDIT SYSTEM] No refill needed - user already has ${currentCredits} credits`)
-  return profile
+  return await setCreditBalance(userId, plan.credits_per_month || 10, `monthly_refill_${subscriptionTier}`)
 }
 
 export async function upgradeUserSubscription(userId: string, newTier: SubscriptionTier) {
@@ -182,19 +84,19 @@ export async function upgradeUserSubscription(userId: string, newTier: Subscript
   
   if (planError) throw planError
   
-  const { data: profile, error } = await supabase
+  // Users cannot change their own tier, so the plan change is written with the service role
+  const { error } = await createServiceClient()
     .from('user_profiles')
     .update({ 
       subscription_tier: newTier,
-      credits_remaining: plan.credits_per_month || 10,
       updated_at: new Date().toISOString()
     })
     .eq('id', userId)
-    .select()
-    .single()
   
   if (error) throw error
-  return profile
+
+  await setCreditBalance(userId, plan.credits_per_month || 10, `plan_change_${newTier}`)
+  return getUserProfile(userId, supabase)
 }
 
 export async function getSubscriptionPlans() {
@@ -250,8 +152,8 @@ export async function getUserUsageStats(userId: string, days = 30) {
   return stats
 }
 
-export async function checkUserLimits(userId: string) {
-  const supabase = createClient()
+export async function checkUserLimits(userId: string, client?: SupabaseServerClient) {
+  const supabase = client ?? createClient()
   
   const { data: profile, error } = await supabase
     .from('user_profiles')
@@ -290,27 +192,16 @@ export async function checkUserLimits(userId: string) {
 export async function getCreditTransactionHistory(userId: string, limit = 50) {
   const supabase = createClient()
   
-  const { data: transactions, error } = await supabase
-    .from('usage_analytics')
+  const { data: entries, error } = await supabase
+    .from('credit_ledger')
     .select('*')
     .eq('user_id', userId)
-    .eq('event_type', 'credit_change')
     .order('created_at', { ascending: false })
     .limit(limit)
   
   if (error) throw error
   
-  return transactions.map(t => {
-    const metadata = t.metadata as any
-    return {
-      id: t.id,
-      timestamp: t.created_at,
-      creditDelta: metadata?.credit_delta || 0,
-      creditsBefore: metadata?.credits_before || 0,
-      creditsAfter: metadata?.credits_after || 0,
-      reason: metadata?.reason || 'unknown'
-    }
-  })
+  return entries.map(toCreditLedgerEntry)
 }
 
 // Helper function to calculate daily credit usage
@@ -320,11 +211,11 @@ export async function getDailyCreditUsage(userId: string, days = 30) {
   const startDate = new Date()
   startDate.setDate(startDate.getDate() - days)
   
-  const { data: transactions, error } = await supabase
-    .from('usage_analytics')
-    .select('created_at, metadata')
+  const { data: entries, error } = await supabase
+    .from('credit_ledger')
+    .select('created_at, delta')
     .eq('user_id', userId)
-    .eq('event_type', 'credit_change')
+    .lt('delta', 0) // Only count deductions (usage)
     .gte('created_at', startDate.toISOString())
     .order('created_at', { ascending: true })
   
@@ -332,16 +223,10 @@ export async function getDailyCreditUsage(userId: string, days = 30) {
   
   const dailyUsage: Record<string, number> = {}
   
-  transactions.forEach(transaction => {
-    const date = new Date(transaction.created_at).toISOString().split('T')[0]
-    const metadata = transaction.metadata as any
-    const delta = metadata?.credit_delta || 0
-    
-    if (!dailyUsage[date]) dailyUsage[date] = 0
-    if (delta < 0) { // Only count deductions (usage)
-      dailyUsage[date] += Math.abs(delta)
-    }
+  entries.forEach(entry => {
+    const date = new Date(entry.created_at).toISOString().split('T')[0]
+    dailyUsage[date] = (dailyUsage[date] || 0) + Math.abs(entry.delta)
   })
   
   return dailyUsage
-}
\ No newline at end of file
+}
@@ -0,0 +1,211 @@
+import { createClient, createServiceClient, SupabaseServerClient } from './server'
+import { Database, WebhookDelivery, WebhookDeliveryStatus, WebhookEndpoint, WebhookEventType } from './types'
+
+type WebhookEndpointRow = Database['public']['Tables']['webhook_endpoints']['Row']
+type WebhookEndpointInsert = Database['public']['Tables']['webhook_endpoints']['Insert']
+type WebhookEndpointUpdate = Database['public']['Tables']['webhook_endpoints']['Update']
+export type WebhookDeliveryRow = Database['public']['Tables']['webhook_deliveries']['Row']
+type WebhookDeliveryInsert = Database['public']['Tables']['webhook_deliveries']['Insert']
+type WebhookDeliveryUpdate = Database['public']['Tables']['webhook_deliveries']['Update']
+
+// Endpoints are managed with the user's session; deliveries are only written by the server
+
+export function toWebhookEndpoint(row: WebhookEndpointRow): WebhookEndpoint {
+  return {
+    id: row.id,
+    url: row.url,
+    description: row.description,
+    events: row.events as WebhookEventType[],
+    enabled: row.enabled,
+    createdAt: row.created_at
+  }
+}
+
+export function toWebhookDelivery(row: WebhookDeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    endpointId: row.endpoint_id,
+    conversionId: row.conversion_id,
+    eventId: row.event_id,
+    eventType: row.event_type as WebhookEventType,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    nextAttemptAt: row.next_attempt_at,
+    responseStatus: row.response_status,
+    responseBody: row.response_body,
+    lastError: row.last_error,
+    durationMs: row.duration_ms,
+    deliveredAt: row.delivered_at,
+    resentFrom: row.resent_from,
+    createdAt: row.created_at
+  }
+}
+
+export async function createWebhookEndpoint(data: WebhookEndpointInsert, client?: SupabaseServerClient) {
+  const supabase = client ?? createClient()
+
+  const { data: endpoint, error } = await supabase
+    .from('webhook_endpoints')
+    .insert(data)
+    .select()
+    .single()
+
+  if (error) throw error
+  return endpoint
+}
+
+export async function getUserWebhookEndpoints(userId: string, client?: SupabaseServerClient) {
+  const supabase = client ?? createClient()
+
+  const { data: endpoints, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return endpoints
+}
+
+// Returns null when the endpoint does not exist or belongs to someone else
+export async function updateWebhookEndpoint(
+  id: string,
+  userId: string,
+  updates: WebhookEndpointUpdate,
+  client?: SupabaseServerClient
+) {
+  const supabase = client ?? createClient()
+
+  const { data: endpoint, error } = await supabase
+    .from('webhook_endpoints')
+    .update(updates)
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  return endpoint
+}
+
+// Deletes the endpoint together with its delivery log
+export async function deleteWebhookEndpoint(id: string, userId: string, client?: SupabaseServerClient) {
+  const supabase = client ?? createClient()
+
+  const { data: endpoint, error } = await supabase
+    .from('webhook_endpoints')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  return endpoint
+}
+
+// Enabled endpoints of a user that subscribe to an event, with their secrets
+export async function getSubscribedWebhookEndpoints(userId: string, eventType: WebhookEventType) {
+  const supabase = createServiceClient()
+
+  const { data: endpoints, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('enabled', true)
+    .contains('events', [eventType])
+
+  if (error) throw error
+  return endpoints
+}
+
+export async function getWebhookEndpointForDelivery(id: string) {
+  const supabase = createServiceClient()
+
+  const { data: endpoint, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw error
+  return endpoint
+}
+
+export async function getWebhookDeliveries(endpointId: string, userId: string, limit = 25, client?: SupabaseServerClient) {
+  const supabase = client ?? createClient()
+
+  const { data: deliveries, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('endpoint_id', endpointId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return deliveries
+}
+
+export async function getWebhookDelivery(id: string, userId: string, client?: SupabaseServerClient) {
+  const supabase = client ?? createClient()
+
+  const { data: delivery, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return delivery
+}
+
+// Create deliveries already claimed by the caller, so the request that fired the event can make the first attempt
+export async function createClaimedWebhookDeliveries(deliveries: WebhookDeliveryInsert[]) {
+  if (deliveries.length === 0) return []
+
+  const supabase = createServiceClient()
+  const now = new Date().toISOString()
+
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .insert(deliveries.map(delivery => ({
+      ...delivery,
+      status: 'delivering',
+      attempts: 1,
+      next_attempt_at: now,
+      locked_at: now
+    })))
+    .select()
+
+  if (error) throw error
+  return data
+}
+
+export async function claimWebhookDeliveries(batchSize: number, lockTimeoutSeconds = 120) {
+  const supabase = createServiceClient()
+
+  const { data: deliveries, error } = await supabase.rpc('claim_webhook_deliveries', {
+    batch_size: batchSize,
+    lock_timeout_seconds: lockTimeoutSeconds
+  })
+
+  if (error) throw error
+  return (deliveries || []) as WebhookDeliveryRow[]
+}
+
+export async function updateWebhookDelivery(id: string, updates: WebhookDeliveryUpdate) {
+  const supabase = createServiceClient()
+
+  const { data: delivery, error } = await supabase
+    .from('webhook_deliveries')
+    .update(updates)
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (error) throw error
+  return delivery
+}
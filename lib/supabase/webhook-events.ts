@@ -0,0 +1,41 @@
+import { createServiceClient } from './server'
+
+export interface WebhookEventRecord {
+  source: string
+  eventId: string
+  conversionId?: string
+  eventTimestamp: Date
+}
+
+// Record a webhook event before applying it. Returns false when the event was already recorded,
+// i.e. the callback is a redelivery or a replay.
+export async function recordWebhookEvent(event: WebhookEventRecord) {
+  const supabase = createServiceClient()
+
+  const { error } = await supabase
+    .from('webhook_events')
+    .insert({
+      source: event.source,
+      event_id: event.eventId,
+      conversion_id: event.conversionId ?? null,
+      event_timestamp: event.eventTimestamp.toISOString()
+    })
+
+  // 23505: unique violation on (source, event_id)
+  if (error?.code === '23505') return false
+  if (error) throw error
+  return true
+}
+
+// Forget an event whose processing failed, so the sender's retry is applied instead of ignored
+export async function releaseWebhookEvent(source: string, eventId: string) {
+  const supabase = createServiceClient()
+
+  const { error } = await supabase
+    .from('webhook_events')
+    .delete()
+    .eq('source', source)
+    .eq('event_id', eventId)
+
+  if (error) throw error
+}
@@ -0,0 +1,44 @@
+import { ZodError, ZodType, ZodTypeDef } from 'zod'
+import { APIError } from '@/lib/supabase/types'
+
+export * from './schemas'
+export * from './npwp'
+export * from './network'
+
+export interface FieldViolation {
+  field: string
+  message: string
+  code: string
+}
+
+// Flatten zod issues into one entry per violated field, e.g. `transactions.3.rupiah`
+export function getFieldViolations(error: ZodError): FieldViolation[] {
+  return error.issues.map(issue => ({
+    field: issue.path.length > 0 ? issue.path.join('.') : '(root)',
+    message: issue.message,
+    code: issue.code
+  }))
+}
+
+export function toValidationError(error: ZodError, message = 'The request contains invalid fields'): APIError {
+  const violations = getFieldViolations(error)
+  return {
+    code: 'VALIDATION_FAILED',
+    message: `${message}: ${violations.slice(0, 3).map(v => `${v.field}: ${v.message}`).join('; ')}${violations.length > 3 ? ` (+${violations.length - 3} more)` : ''}`,
+    details: { violations },
+    retryable: false
+  }
+}
+
+export type ValidationResult<T> =
+  | { success: true, data: T }
+  | { success: false, error: APIError }
+
+// Parse input against a schema, returning either the typed data or a ready-to-send APIError
+export function validate<T>(schema: ZodType<T, ZodTypeDef, unknown>, input: unknown, message?: string): ValidationResult<T> {
+  const result = schema.safeParse(input)
+  if (result.success) {
+    return { success: true, data: result.data }
+  }
+  return { success: false, error: toValidationError(result.error, message) }
+}
@@ -0,0 +1,48 @@
+// Address checks for outgoing requests to customer-supplied URLs (webhook endpoints). Used both when a
+// URL is registered and again for every address it resolves to when a delivery is sent.
+
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/
+
+function isPrivateIpv4(a: number, b: number) {
+  return a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, including cloud metadata services
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    a >= 224 // multicast and reserved
+}
+
+// True for IP addresses that name this machine, a private network or anything else that is not a
+// public unicast address. Anything that is not an IP address returns false.
+export function isPrivateAddress(address: string) {
+  const host = address.toLowerCase().replace(/^\[|\]$/g, '')
+
+  const ipv4 = host.match(IPV4_PATTERN)
+  if (ipv4) {
+    return isPrivateIpv4(Number(ipv4[1]), Number(ipv4[2]))
+  }
+
+  if (!host.includes(':')) return false
+
+  // IPv4-mapped addresses (::ffff:10.0.0.1) are checked as the IPv4 address they carry
+  const mapped = host.match(/^::ffff:(\d{1,3})\.(\d{1,3})\.\d{1,3}\.\d{1,3}$/)
+  if (mapped) {
+    return isPrivateIpv4(Number(mapped[1]), Number(mapped[2]))
+  }
+
+  return host === '::1' ||
+    host === '::' ||
+    host.startsWith('::ffff:') ||
+    /^f[cd]/.test(host) || // unique local
+    /^fe[89ab]/.test(host) || // link-local
+    /^ff/.test(host) // multicast
+}
+
+// Names that only resolve inside a private network
+export function isInternalHostname(hostname: string) {
+  const host = hostname.toLowerCase()
+  return host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')
+}
@@ -0,0 +1,77 @@
+// NPWP handling shared by ingestion, exports and the UI. Taxpayers are identified by either the
+// 15-digit NPWP (01.234.567.8-901.000) or, since 2024, a 16-digit number: the NIK for resident
+// individuals, or "0" followed by the old 15 digits for everyone else.
+
+export type NpwpKind = 'npwp15' | 'nik'
+
+export type NpwpIssue = 'missing' | 'invalid_characters' | 'invalid_length' | 'placeholder' | 'invalid_nik'
+
+export interface NpwpCheck {
+  valid: boolean
+  kind: NpwpKind | null
+  normalized: string // 15 digits for an NPWP, 16 for a NIK; whatever digits were found when invalid
+  formatted: string // display form when valid, otherwise the trimmed input
+  issue?: NpwpIssue
+}
+
+export const NPWP_ISSUE_MESSAGES: Record<NpwpIssue, string> = {
+  missing: 'NPWP is missing',
+  invalid_characters: 'NPWP contains letters or other unexpected characters',
+  invalid_length: 'NPWP must have 15 digits, or 16 for the NIK-based format',
+  placeholder: 'NPWP is a placeholder (all zeros)',
+  invalid_nik: 'NPWP is 16 digits but not a valid NIK'
+}
+
+// Digits plus the separators used in the formatted and spaced-out forms
+const ALLOWED_CHARACTERS = /^[\d\s.\-/]*$/
+
+// NIK: 2-digit province code, regency, district, then the birth date (day + 40 for women)
+function isValidNik(digits: string) {
+  const province = Number(digits.slice(0, 2))
+  const day = Number(digits.slice(6, 8))
+  const month = Number(digits.slice(8, 10))
+  const birthDay = day > 40 ? day - 40 : day
+
+  return province >= 11 && province <= 94 &&
+    birthDay >= 1 && birthDay <= 31 &&
+    month >= 1 && month <= 12
+}
+
+// Digits only, with the "0" prefix of the 16-digit form dropped so both forms of the same NPWP match
+export function normalizeNpwp(value: unknown): string {
+  const digits = String(value ?? '').replace(/\D/g, '')
+  return digits.length === 16 && digits.startsWith('0') ? digits.slice(1) : digits
+}
+
+export function checkNpwp(value: unknown): NpwpCheck {
+  const raw = String(value ?? '').trim()
+  const normalized = normalizeNpwp(raw)
+  const invalid = (issue: NpwpIssue): NpwpCheck => ({ valid: false, kind: null, normalized, formatted: raw, issue })
+
+  if (!raw) return invalid('missing')
+  if (!ALLOWED_CHARACTERS.test(raw)) return invalid('invalid_characters')
+
+  if (normalized.length === 15) {
+    if (/^0+$/.test(normalized)) return invalid('placeholder')
+
+    const match = /^(\d{2})(\d{3})(\d{3})(\d)(\d{3})(\d{3})$/.exec(normalized)!
+    return {
+      valid: true,
+      kind: 'npwp15',
+      normalized,
+      formatted: `${match[1]}.${match[2]}.${match[3]}.${match[4]}-${match[5]}.${match[6]}`
+    }
+  }
+
+  if (normalized.length === 16) {
+    if (!isValidNik(normalized)) return invalid('invalid_nik')
+    return { valid: true, kind: 'nik', normalized, formatted: normalized }
+  }
+
+  return invalid('invalid_length')
+}
+
+// Display form (XX.XXX.XXX.X-XXX.XXX) for valid values; invalid values are returned as extracted
+export function formatNpwp(value: unknown): string {
+  return checkNpwp(value).formatted
+}
@@ -0,0 +1,312 @@
+import { z } from 'zod'
+import { parseRupiah } from '@/lib/services/spt-parser'
+import { parseTanggal } from '@/lib/services/excel-generator'
+import { MAX_REPORT_CONVERSIONS } from '@/lib/services/report'
+import { getLineAmount, totalInvoiceItems } from '@/lib/services/indomaret'
+import { formatNpwp } from './npwp'
+import { isInternalHostname, isPrivateAddress } from './network'
+import {
+  ApiKeyScope,
+  CompanySummary,
+  ConversionStatus,
+  DocumentType,
+  ExportFormat,
+  IndomaretInvoice,
+  IndomaretLineItem,
+  ProgressStage,
+  TransactionChange,
+  TransactionData,
+  WebhookEventType
+} from '@/lib/supabase/types'
+
+export const DocumentTypeSchema = z.enum(['spt', 'indomaret'] satisfies [DocumentType, ...DocumentType[]])
+
+export const ConversionIdSchema = z.string().uuid('Must be a valid conversion ID')
+
+// Amounts arrive as numbers or as Indonesian-formatted strings ("Rp 1.234.567,50"). Dots are only
+// accepted as thousands separators, so "1234.56" is rejected rather than read as 123456.
+const AmountSchema = z.union([
+  z.number().finite(),
+  z.string()
+    .regex(/^\s*(Rp\.?\s*)?-?(\d{1,3}(\.\d{3})+|\d+)(,\d+)?\s*$/i)
+    .transform(parseRupiah)
+], { errorMap: () => ({ message: 'Must be a number or an Indonesian-formatted amount' }) })
+
+const TextSchema = z.union([z.string(), z.number()]).transform(value => String(value).trim())
+
+const FractionSchema = z.number().min(0).max(1)
+
+export const TransactionSourceSchema = z.object({
+  page: z.number().int().positive(),
+  bbox: z.tuple([FractionSchema, FractionSchema, FractionSchema, FractionSchema])
+    .refine(([left, top, right, bottom]) => left < right && top < bottom, 'Must be [left, top, right, bottom]')
+    .optional()
+})
+
+export const TransactionDataSchema: z.ZodType<TransactionData, z.ZodTypeDef, unknown> = z.object({
+  no: z.coerce.number().int().nonnegative().optional(),
+  nama: TextSchema.pipe(z.string().min(1, 'Required')),
+  npwp: TextSchema.optional(),
+  jenis_penghasilan: TextSchema.optional(),
+  rupiah: AmountSchema,
+  pajak_penghasilan: AmountSchema,
+  nomor: TextSchema.optional(),
+  tanggal: TextSchema.optional(),
+  source: TransactionSourceSchema.optional()
+}).transform(transaction => ({
+  no: transaction.no ?? 0,
+  nama: transaction.nama,
+  // Stored in display form when valid; invalid values are kept as extracted and flagged on read
+  npwp: formatNpwp(transaction.npwp),
+  jenis_penghasilan: transaction.jenis_penghasilan ?? '',
+  rupiah: transaction.rupiah,
+  pajak_penghasilan: transaction.pajak_penghasilan,
+  nomor: transaction.nomor ?? '',
+  tanggal: transaction.tanggal ?? '',
+  ...(transaction.source ? { source: transaction.source } : {})
+}))
+
+const CompanySummaryDataSchema = z.object({
+  nama: TextSchema.pipe(z.string().min(1, 'Required')),
+  totalPajak: AmountSchema,
+  perJenis: z.record(z.string(), AmountSchema).default({})
+})
+
+// n8n items wrap their data in `json`; accept both shapes and always store the wrapped one
+export const CompanySummarySchema: z.ZodType<CompanySummary, z.ZodTypeDef, unknown> = z.union([
+  z.object({ json: CompanySummaryDataSchema }),
+  CompanySummaryDataSchema.transform(json => ({ json }))
+])
+
+// Line amounts and invoice totals are derived from the other amounts when the extractor leaves them out
+export const IndomaretLineItemSchema: z.ZodType<IndomaretLineItem, z.ZodTypeDef, unknown> = z.object({
+  no: z.coerce.number().int().nonnegative().optional(),
+  sku: TextSchema.pipe(z.string().min(1, 'Required')),
+  nama_barang: TextSchema.optional(),
+  qty: AmountSchema,
+  harga_satuan: AmountSchema,
+  diskon: AmountSchema.optional(),
+  jumlah: AmountSchema.optional(),
+  ppn: AmountSchema.optional()
+}).transform(item => {
+  const diskon = item.diskon ?? 0
+  return {
+    no: item.no ?? 0,
+    sku: item.sku,
+    nama_barang: item.nama_barang ?? '',
+    qty: item.qty,
+    harga_satuan: item.harga_satuan,
+    diskon,
+    jumlah: item.jumlah ?? getLineAmount({ qty: item.qty, harga_satuan: item.harga_satuan, diskon }),
+    ppn: item.ppn ?? 0
+  }
+})
+
+export const IndomaretInvoiceSchema: z.ZodType<IndomaretInvoice, z.ZodTypeDef, unknown> = z.object({
+  kode_toko: TextSchema.pipe(z.string().min(1, 'Required')),
+  nama_toko: TextSchema.optional(),
+  nomor_faktur: TextSchema.pipe(z.string().min(1, 'Required')),
+  tanggal: TextSchema.optional(),
+  items: z.array(IndomaretLineItemSchema).min(1, 'An invoice needs at least one line item'),
+  subtotal: AmountSchema.optional(),
+  total_ppn: AmountSchema.optional(),
+  total: AmountSchema.optional()
+}).transform(invoice => {
+  const items = invoice.items.map((item, index) => ({ ...item, no: item.no || index + 1 }))
+  const computed = totalInvoiceItems(items)
+  const subtotal = invoice.subtotal ?? computed.subtotal
+  const totalPpn = invoice.total_ppn ?? computed.total_ppn
+  return {
+    kode_toko: invoice.kode_toko,
+    nama_toko: invoice.nama_toko ?? '',
+    nomor_faktur: invoice.nomor_faktur,
+    tanggal: invoice.tanggal ?? '',
+    items,
+    subtotal,
+    total_ppn: totalPpn,
+    total: invoice.total ?? subtotal + totalPpn
+  }
+})
+
+// Free-form options sent with an upload: a small flat map of primitive values
+export const ConvertOptionsSchema = z
+  .record(z.string().max(64), z.union([z.string().max(500), z.number(), z.boolean()]))
+  .refine(options => Object.keys(options).length <= 20, 'At most 20 options are allowed')
+
+export const ConvertFormSchema = z.object({
+  documentType: DocumentTypeSchema.default('spt'),
+  // Sent as a JSON string in the multipart form
+  options: z.string()
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value) as unknown
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Must be valid JSON' })
+        return z.NEVER
+      }
+    })
+    .pipe(ConvertOptionsSchema)
+    .optional()
+})
+
+// JSON upload body (base64 file) as described by ConversionRequest
+export const ConversionRequestSchema = z.object({
+  file: z.string().min(1, 'Required').base64('Must be base64 encoded'),
+  fileName: z.string().min(1, 'Required').max(255).regex(/\.pdf$/i, 'Must be a .pdf file'),
+  mimeType: z.literal('application/pdf', { errorMap: () => ({ message: 'Only PDF files are supported' }) }),
+  fileSize: z.number().int().positive(),
+  documentType: DocumentTypeSchema.default('spt'),
+  userId: z.string().uuid().optional(),
+  conversionId: z.string().uuid().optional()
+})
+
+export const ConversionProgressSchema = z.object({
+  stage: z.enum(['validation', 'pdf_parse', 'ai_extraction', 'sheet_population'] satisfies [ProgressStage, ...ProgressStage[]]),
+  percent: z.number().min(0).max(100),
+  message: z.string().max(500).nullish().transform(message => message ?? null)
+})
+
+export const N8NWebhookPayloadSchema = z.object({
+  conversionId: ConversionIdSchema,
+  // 'processing' reports progress without finishing the conversion
+  status: z.enum(['processing', 'completed', 'failed']),
+  progress: ConversionProgressSchema.optional(),
+  downloadUrl: z.string().url().optional(),
+  error: z.string().max(2000).optional(),
+  summaries: z.array(CompanySummarySchema).optional(),
+  transactions: z.array(TransactionDataSchema).optional(),
+  // Indomaret conversions report invoices instead of transactions
+  invoices: z.array(IndomaretInvoiceSchema).optional(),
+  tables_extracted: z.number().int().nonnegative().optional(),
+  total_rows: z.number().int().nonnegative().optional(),
+  processing_time_ms: z.number().nonnegative().optional(),
+  metadata: z.object({
+    processingTime: z.number().nonnegative().optional(),
+    fileSize: z.number().nonnegative().optional(),
+    pages: z.number().int().nonnegative().optional(),
+    tables: z.number().int().nonnegative().optional()
+  }).optional(),
+  secret: z.string().optional()
+}).refine(payload => !payload.summaries || payload.transactions, {
+  message: 'summaries cannot be sent without transactions',
+  path: ['transactions']
+}).refine(payload => !payload.transactions || !payload.invoices, {
+  message: 'transactions and invoices cannot be sent together',
+  path: ['invoices']
+}).refine(payload => payload.status !== 'processing' || payload.progress, {
+  message: 'progress is required when status is processing',
+  path: ['progress']
+})
+
+const DELIMITERS = {
+  comma: ',',
+  semicolon: ';',
+  tab: '\t',
+  pipe: '|',
+  ',': ',',
+  ';': ';',
+  '|': '|'
+} as const
+
+export const ExportQuerySchema = z.object({
+  format: z.enum(['csv', 'xlsx', 'ods', 'json'] satisfies [ExportFormat, ...ExportFormat[]]).default('xlsx'),
+  delimiter: z.enum(Object.keys(DELIMITERS) as [keyof typeof DELIMITERS, ...(keyof typeof DELIMITERS)[]])
+    .transform(key => DELIMITERS[key])
+    .optional(),
+  decimal: z.enum(['id', 'en']).default('en'),
+  sheet: z.enum(['transactions', 'summaries']).default('transactions')
+})
+
+// Conversions for a consolidated report, as a comma-separated `ids` query parameter
+export const ReportQuerySchema = z.object({
+  ids: z.string()
+    .transform(value => Array.from(new Set(value.split(',').map(id => id.trim()).filter(Boolean))))
+    .pipe(z.array(ConversionIdSchema)
+      .min(1, 'Select at least one conversion')
+      .max(MAX_REPORT_CONVERSIONS, `At most ${MAX_REPORT_CONVERSIONS} conversions can be combined`)),
+  format: z.enum(['json', 'xlsx']).default('json')
+})
+
+// Personal API keys, created from the settings page
+export const ApiKeyCreateSchema = z.object({
+  name: z.string().trim().min(1, 'Required').max(100),
+  scopes: z.array(z.enum(['conversions:read', 'conversions:write'] satisfies [ApiKeyScope, ...ApiKeyScope[]]))
+    .min(1, 'Select at least one scope')
+    .transform(scopes => Array.from(new Set(scopes)))
+})
+
+// Customer webhook endpoints. Only public HTTPS URLs are accepted; hosts that name this machine or a
+// private network are refused so deliveries cannot be pointed at internal services. Host names are
+// resolved and checked again on every delivery.
+function isPublicHttpsUrl(value: string) {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return false
+  }
+  if (url.protocol !== 'https:' || url.username || url.password) return false
+
+  return !isInternalHostname(url.hostname) && !isPrivateAddress(url.hostname)
+}
+
+const WebhookEventsSchema = z.array(z.enum(['conversion.completed', 'conversion.failed'] satisfies [WebhookEventType, ...WebhookEventType[]]))
+  .min(1, 'Select at least one event')
+  .transform(events => Array.from(new Set(events)))
+
+export const WebhookEndpointCreateSchema = z.object({
+  url: z.string().trim().max(2000).refine(isPublicHttpsUrl, 'Must be a public https:// URL'),
+  description: z.string().trim().max(200).nullish().transform(value => value || null),
+  events: WebhookEventsSchema
+})
+
+export const WebhookEndpointUpdateSchema = z.object({
+  enabled: z.boolean().optional(),
+  description: z.string().trim().max(200).nullish().transform(value => value === undefined ? undefined : value || null),
+  events: WebhookEventsSchema.optional()
+})
+
+// Paging and filters for GET /api/v1/conversions
+export const ConversionListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+  status: z.enum(['pending', 'processing', 'completed', 'failed'] satisfies [ConversionStatus, ...ConversionStatus[]]).optional(),
+  batchId: z.string().uuid('Must be a valid batch ID').optional()
+})
+
+// Credit history from the settings page. `from` is inclusive and `to` exclusive, so the page can send the
+// bounds of the user's local days.
+export const CreditHistoryQuerySchema = z.object({
+  from: z.string().datetime({ offset: true, message: 'Must be an ISO 8601 date-time' }).optional(),
+  to: z.string().datetime({ offset: true, message: 'Must be an ISO 8601 date-time' }).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+  format: z.enum(['json', 'csv']).default('json')
+}).refine(query => !query.from || !query.to || Date.parse(query.from) < Date.parse(query.to), {
+  message: 'Must be after `from`',
+  path: ['to']
+})
+
+// Manual corrections to extracted transactions; each value is checked the same way extracted data is
+const TransactionRowSchema = z.number().int().nonnegative()
+
+export const TransactionChangeSchema: z.ZodType<TransactionChange, z.ZodTypeDef, unknown> = z.discriminatedUnion('field', [
+  z.object({ row: TransactionRowSchema, field: z.enum(['rupiah', 'pajak_penghasilan']), value: AmountSchema }),
+  z.object({ row: TransactionRowSchema, field: z.literal('nama'), value: TextSchema.pipe(z.string().min(1, 'Required')) }),
+  // Fields that are optional in extracted data may also be emptied with null
+  z.object({ row: TransactionRowSchema, field: z.literal('npwp'), value: TextSchema.transform(formatNpwp).nullable() }),
+  z.object({
+    row: TransactionRowSchema,
+    field: z.literal('tanggal'),
+    value: TextSchema.refine(value => parseTanggal(value) !== null, 'Must be a valid dd/mm/yyyy date').nullable()
+  }),
+  z.object({ row: TransactionRowSchema, field: z.enum(['jenis_penghasilan', 'nomor']), value: TextSchema.nullable() })
+])
+
+export const TransactionPatchSchema = z.object({
+  changes: z.array(TransactionChangeSchema)
+    .min(1, 'At least one change is required')
+    .max(100, 'At most 100 changes can be saved at once')
+})
+
+export type N8NWebhookPayload = z.infer<typeof N8NWebhookPayloadSchema>
@@ -1,4 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  experimental: {
+    // Load pdf-parse with Node's require instead of bundling its pdf.js build
+    serverComponentsExternalPackages: ['pdf-parse'],
+  },
+};
 
 export default nextConfig;
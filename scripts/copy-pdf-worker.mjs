@@ -0,0 +1,9 @@
+// Copies the pdf.js worker into public/ so the browser loads it as a static file. Bundling it makes
+// webpack emit the .mjs worker as a chunk, which Terser cannot minify.
+import { copyFileSync, mkdirSync } from 'node:fs'
+import { createRequire } from 'node:module'
+
+const require = createRequire(import.meta.url)
+
+mkdirSync('public', { recursive: true })
+copyFileSync(require.resolve('pdfjs-dist/build/pdf.worker.min.mjs'), 'public/pdf.worker.min.mjs')
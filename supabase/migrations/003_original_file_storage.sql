@@ -0,0 +1,24 @@
+-- Keep the uploaded PDF so failed conversions can be reprocessed
+ALTER TABLE conversions
+ADD COLUMN original_file_path TEXT;
+
+-- Create private bucket for original uploads (objects are stored as <user_id>/<conversion_id>.pdf)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('originals', 'originals', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Storage policies: users can only access objects under their own folder
+CREATE POLICY "Users can upload own originals" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'originals' AND auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+CREATE POLICY "Users can view own originals" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'originals' AND auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+CREATE POLICY "Users can delete own originals" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'originals' AND auth.uid()::text = (storage.foldername(name))[1]
+  );
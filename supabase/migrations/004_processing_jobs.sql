@@ -0,0 +1,53 @@
+-- Durable queue for handing conversions to a processing backend
+CREATE TABLE processing_jobs (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  conversion_id UUID REFERENCES conversions(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  document_type TEXT NOT NULL,
+  status TEXT DEFAULT 'queued' NOT NULL CHECK (status IN ('queued', 'running', 'succeeded', 'dead')),
+  attempts INTEGER DEFAULT 0 NOT NULL,
+  max_attempts INTEGER DEFAULT 5 NOT NULL,
+  run_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- At most one live job per conversion
+CREATE UNIQUE INDEX idx_processing_jobs_active_conversion ON processing_jobs(conversion_id)
+  WHERE status IN ('queued', 'running');
+CREATE INDEX idx_processing_jobs_status_run_at ON processing_jobs(status, run_at);
+
+ALTER TABLE processing_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are written by the service role; users can only see their own
+CREATE POLICY "Users can view own processing jobs" ON processing_jobs
+  FOR SELECT USING (auth.uid() = user_id);
+
+GRANT SELECT ON processing_jobs TO authenticated;
+
+CREATE TRIGGER handle_updated_at_processing_jobs
+  BEFORE UPDATE ON processing_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Atomically claim due jobs for a worker. Jobs left running past the lock timeout
+-- (e.g. the worker was killed mid-dispatch) are picked up again.
+CREATE OR REPLACE FUNCTION public.claim_processing_jobs(batch_size INTEGER, lock_timeout_seconds INTEGER DEFAULT 300)
+RETURNS SETOF processing_jobs AS $$
+  UPDATE processing_jobs
+  SET status = 'running',
+      locked_at = NOW(),
+      attempts = attempts + 1
+  WHERE id IN (
+    SELECT id FROM processing_jobs
+    WHERE (status = 'queued' AND run_at <= NOW())
+       OR (status = 'running' AND locked_at < NOW() - make_interval(secs => lock_timeout_seconds))
+    ORDER BY run_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_processing_jobs(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
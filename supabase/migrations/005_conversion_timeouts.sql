@@ -0,0 +1,9 @@
+-- Processing timestamps (already present in supabase-setup.sql installs) and a machine-readable failure code
+ALTER TABLE conversions
+ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS error_code TEXT;
+
+-- The watchdog scans in-flight conversions by start time
+CREATE INDEX IF NOT EXISTS idx_conversions_processing_started_at ON conversions(started_at)
+  WHERE status = 'processing';
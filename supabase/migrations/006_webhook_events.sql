@@ -0,0 +1,15 @@
+-- Callbacks that have already been applied, so redelivered webhooks are acknowledged without re-running them
+CREATE TABLE webhook_events (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  source TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  conversion_id UUID REFERENCES conversions(id) ON DELETE CASCADE,
+  event_timestamp TIMESTAMPTZ NOT NULL,
+  received_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  UNIQUE (source, event_id)
+);
+
+CREATE INDEX idx_webhook_events_received_at ON webhook_events(received_at);
+
+-- Only the service role reads or writes webhook events
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,3 @@
+-- Stream conversion row changes to clients over Supabase Realtime.
+-- RLS still applies, so each subscriber only receives changes to their own conversions.
+ALTER PUBLICATION supabase_realtime ADD TABLE conversions;
@@ -0,0 +1,6 @@
+-- Stage-level progress reported by the processing backend while a conversion is processing
+ALTER TABLE conversions
+ADD COLUMN progress_stage TEXT CHECK (progress_stage IN ('validation', 'pdf_parse', 'ai_extraction', 'sheet_population')),
+ADD COLUMN progress_percent INTEGER CHECK (progress_percent BETWEEN 0 AND 100),
+ADD COLUMN progress_message TEXT,
+ADD COLUMN progress_updated_at TIMESTAMPTZ;
@@ -0,0 +1,28 @@
+-- Groups of conversions uploaded together. A batch has no status of its own; it is derived from its conversions.
+CREATE TABLE batches (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  document_type TEXT NOT NULL,
+  total_files INTEGER NOT NULL CHECK (total_files > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_batches_user_id ON batches(user_id);
+
+ALTER TABLE conversions
+ADD COLUMN batch_id UUID REFERENCES batches(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_conversions_batch_id ON conversions(batch_id);
+
+ALTER TABLE batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own batches" ON batches
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own batches" ON batches
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER handle_updated_at_batches
+  BEFORE UPDATE ON batches
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
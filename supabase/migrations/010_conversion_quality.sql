@@ -0,0 +1,4 @@
+-- Data quality warnings computed whenever extraction results are stored (see lib/services/data-quality.ts)
+ALTER TABLE conversions
+ADD COLUMN quality_warnings JSONB,
+ADD COLUMN quality_checked_at TIMESTAMPTZ;
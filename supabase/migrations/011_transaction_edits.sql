@@ -0,0 +1,29 @@
+-- Per-field history of manual corrections to extracted transactions. History is append-only:
+-- reverting an edit records a new edit that points back at it.
+CREATE TABLE transaction_edits (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  conversion_id UUID REFERENCES conversions(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  user_email TEXT,
+  row_index INTEGER NOT NULL CHECK (row_index >= 0),
+  field TEXT NOT NULL CHECK (field IN ('nama', 'npwp', 'jenis_penghasilan', 'rupiah', 'pajak_penghasilan', 'nomor', 'tanggal')),
+  old_value JSONB,
+  new_value JSONB,
+  reverts_edit_id UUID REFERENCES transaction_edits(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_transaction_edits_conversion_id ON transaction_edits(conversion_id, created_at);
+
+ALTER TABLE transaction_edits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view edits of own conversions" ON transaction_edits
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM conversions WHERE conversions.id = conversion_id AND conversions.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can record edits of own conversions" ON transaction_edits
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (SELECT 1 FROM conversions WHERE conversions.id = conversion_id AND conversions.user_id = auth.uid())
+  );
@@ -0,0 +1,3 @@
+-- Extracted Indomaret invoices with their line items (see IndomaretInvoice in lib/supabase/types.ts)
+ALTER TABLE conversions
+ADD COLUMN invoice_data JSONB;
@@ -0,0 +1,34 @@
+-- Personal API keys for the public REST API (/api/v1). Only a SHA-256 hash of each key is stored;
+-- the key itself is shown once when it is created. Revoked keys are kept for the audit trail.
+CREATE TABLE api_keys (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL CHECK (
+    cardinality(scopes) > 0 AND
+    scopes <@ ARRAY['conversions:read', 'conversions:write']::TEXT[]
+  ),
+  last_used_at TIMESTAMPTZ,
+  last_used_ip TEXT,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_api_keys_user_id ON api_keys(user_id, created_at DESC);
+
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+-- Keys are listed and revoked from the settings page with the user's session. They are created, and
+-- requests that present a key are verified, with the service role, so users cannot insert keys with a
+-- hash of their choosing and there is no policy for looking keys up by hash.
+CREATE POLICY "Users can view own API keys" ON api_keys
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can revoke own API keys" ON api_keys
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- Revoking is the only change users can make to their keys
+REVOKE INSERT, UPDATE ON api_keys FROM anon, authenticated;
+GRANT UPDATE (revoked_at) ON api_keys TO authenticated;
@@ -0,0 +1,99 @@
+-- Customer endpoints that are notified when their conversions finish. The secret signs every delivery,
+-- so it has to be stored as is; it is only shown to the user when the endpoint is created.
+CREATE TABLE webhook_endpoints (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  url TEXT NOT NULL CHECK (url LIKE 'https://%'),
+  description TEXT,
+  secret TEXT NOT NULL,
+  events TEXT[] NOT NULL CHECK (
+    cardinality(events) > 0 AND
+    events <@ ARRAY['conversion.completed', 'conversion.failed']::TEXT[]
+  ),
+  enabled BOOLEAN DEFAULT TRUE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhook_endpoints_user_id ON webhook_endpoints(user_id);
+
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own webhook endpoints" ON webhook_endpoints
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own webhook endpoints" ON webhook_endpoints
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own webhook endpoints" ON webhook_endpoints
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own webhook endpoints" ON webhook_endpoints
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- The URL is checked by the API when an endpoint is created and cannot be changed afterwards, so users
+-- may only update the other columns
+REVOKE UPDATE ON webhook_endpoints FROM anon, authenticated;
+GRANT UPDATE (description, events, enabled, updated_at) ON webhook_endpoints TO authenticated;
+
+CREATE TRIGGER handle_updated_at_webhook_endpoints
+  BEFORE UPDATE ON webhook_endpoints
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- One row per event sent to an endpoint, doubling as the delivery log. Failed attempts are retried with
+-- backoff until max_attempts; a resend is a new row with the same event_id and payload.
+CREATE TABLE webhook_deliveries (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  endpoint_id UUID REFERENCES webhook_endpoints(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  conversion_id UUID REFERENCES conversions(id) ON DELETE SET NULL,
+  event_id UUID NOT NULL,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'delivering', 'succeeded', 'failed')),
+  attempts INTEGER DEFAULT 0 NOT NULL,
+  max_attempts INTEGER DEFAULT 6 NOT NULL,
+  next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  response_status INTEGER,
+  response_body TEXT,
+  last_error TEXT,
+  duration_ms INTEGER,
+  delivered_at TIMESTAMPTZ,
+  resent_from UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhook_deliveries_endpoint_id ON webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX idx_webhook_deliveries_status_next_attempt ON webhook_deliveries(status, next_attempt_at);
+
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Deliveries are written by the service role; users can only read their own log
+CREATE POLICY "Users can view own webhook deliveries" ON webhook_deliveries
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TRIGGER handle_updated_at_webhook_deliveries
+  BEFORE UPDATE ON webhook_deliveries
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Atomically claim due deliveries, including ones left delivering past the lock timeout
+CREATE OR REPLACE FUNCTION public.claim_webhook_deliveries(batch_size INTEGER, lock_timeout_seconds INTEGER DEFAULT 120)
+RETURNS SETOF webhook_deliveries AS $$
+  UPDATE webhook_deliveries
+  SET status = 'delivering',
+      locked_at = NOW(),
+      attempts = attempts + 1
+  WHERE id IN (
+    SELECT id FROM webhook_deliveries
+    WHERE (status = 'pending' AND next_attempt_at <= NOW())
+       OR (status = 'delivering' AND locked_at < NOW() - make_interval(secs => lock_timeout_seconds))
+    ORDER BY next_attempt_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.claim_webhook_deliveries(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
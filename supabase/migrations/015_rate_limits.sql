@@ -0,0 +1,101 @@
+-- Token buckets for request throttling. Each bucket holds up to `burst` tokens and refills at
+-- `perMinute` tokens per minute, as configured per plan and scope in subscription_plans.features.rateLimits.
+-- Buckets are keyed by scope and caller ("convert:user:<id>", "status:key:<id>", "status:ip:<address>").
+CREATE TABLE rate_limit_buckets (
+  bucket_key TEXT PRIMARY KEY,
+  tokens DOUBLE PRECISION NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_rate_limit_buckets_updated_at ON rate_limit_buckets(updated_at);
+
+-- Only the server touches buckets, through the functions below
+ALTER TABLE rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+UPDATE subscription_plans SET features = COALESCE(features, '{}'::jsonb) || '{"rateLimits": {"convert": {"burst": 5, "perMinute": 5}, "status": {"burst": 30, "perMinute": 60}}}'::jsonb
+WHERE name = 'Free';
+
+UPDATE subscription_plans SET features = COALESCE(features, '{}'::jsonb) || '{"rateLimits": {"convert": {"burst": 20, "perMinute": 20}, "status": {"burst": 60, "perMinute": 240}}}'::jsonb
+WHERE name = 'Pro';
+
+UPDATE subscription_plans SET features = COALESCE(features, '{}'::jsonb) || '{"rateLimits": {"convert": {"burst": 60, "perMinute": 60}, "status": {"burst": 120, "perMinute": 600}}}'::jsonb
+WHERE name = 'Business';
+
+-- Refill a bucket for the time since it was last used and take one token from it. Limits come from the
+-- user's plan, or from the Free plan for callers without a user. The upsert locks the bucket row, so
+-- concurrent requests for one bucket are counted one after another. `bucket_limit` is NULL when the
+-- plan sets no limit for the scope, in which case nothing is counted.
+CREATE OR REPLACE FUNCTION public.take_rate_limit_token(
+  bucket TEXT,
+  scope TEXT,
+  plan_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  bucket_limit INTEGER,
+  remaining INTEGER,
+  reset_seconds INTEGER,
+  retry_after_seconds INTEGER
+) AS $$
+DECLARE
+  limits JSONB;
+  burst INTEGER;
+  refill_per_second DOUBLE PRECISION;
+  current_tokens DOUBLE PRECISION;
+BEGIN
+  IF plan_user_id IS NOT NULL THEN
+    SELECT sp.features->'rateLimits'->scope INTO limits
+    FROM user_profiles up
+    JOIN subscription_plans sp ON sp.name = initcap(up.subscription_tier)
+    WHERE up.id = plan_user_id;
+  END IF;
+
+  IF limits IS NULL THEN
+    SELECT sp.features->'rateLimits'->scope INTO limits
+    FROM subscription_plans sp
+    WHERE sp.name = 'Free';
+  END IF;
+
+  burst := (limits->>'burst')::INTEGER;
+  refill_per_second := (limits->>'perMinute')::DOUBLE PRECISION / 60;
+
+  IF burst IS NULL OR refill_per_second IS NULL OR refill_per_second <= 0 THEN
+    RETURN QUERY SELECT TRUE, NULL::INTEGER, NULL::INTEGER, NULL::INTEGER, 0;
+    RETURN;
+  END IF;
+
+  INSERT INTO rate_limit_buckets AS b (bucket_key, tokens, updated_at)
+  VALUES (bucket, burst, clock_timestamp())
+  ON CONFLICT (bucket_key) DO UPDATE
+    SET tokens = LEAST(burst, b.tokens + EXTRACT(EPOCH FROM (clock_timestamp() - b.updated_at)) * refill_per_second),
+        updated_at = clock_timestamp()
+  RETURNING b.tokens INTO current_tokens;
+
+  allowed := current_tokens >= 1;
+  IF allowed THEN
+    current_tokens := current_tokens - 1;
+    UPDATE rate_limit_buckets SET tokens = current_tokens
+    WHERE bucket_key = bucket;
+  END IF;
+
+  bucket_limit := burst;
+  remaining := FLOOR(current_tokens);
+  reset_seconds := CEIL((burst - current_tokens) / refill_per_second);
+  retry_after_seconds := CASE WHEN allowed THEN 0 ELSE CEIL((1 - current_tokens) / refill_per_second) END;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A bucket that has been idle long enough to refill is the same as no bucket, so old rows can go
+CREATE OR REPLACE FUNCTION public.prune_rate_limit_buckets(max_idle_seconds INTEGER DEFAULT 86400)
+RETURNS INTEGER AS $$
+  WITH pruned AS (
+    DELETE FROM rate_limit_buckets
+    WHERE updated_at < NOW() - make_interval(secs => max_idle_seconds)
+    RETURNING 1
+  )
+  SELECT COUNT(*)::INTEGER FROM pruned;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.take_rate_limit_token(TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.prune_rate_limit_buckets(INTEGER) FROM PUBLIC, anon, authenticated;
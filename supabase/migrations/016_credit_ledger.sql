@@ -0,0 +1,248 @@
+-- Every change to a user's credits as an append-only ledger. user_profiles.credits_remaining stays as the
+-- cached balance and is only changed together with a ledger entry, in the same transaction, by the
+-- functions below. The sum of a user's ledger deltas always equals credits_remaining.
+CREATE TABLE credit_ledger (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  delta INTEGER NOT NULL,
+  balance_after INTEGER NOT NULL,
+  reason TEXT NOT NULL,
+  conversion_id UUID REFERENCES conversions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT clock_timestamp() NOT NULL
+);
+
+CREATE INDEX idx_credit_ledger_user_id ON credit_ledger(user_id, created_at DESC);
+CREATE INDEX idx_credit_ledger_conversion_id ON credit_ledger(conversion_id);
+
+-- The credit charged for a conversion is reserved when processing starts, then either committed when the
+-- conversion finishes or released (refunded) when it is dead-lettered or times out. A conversion has at
+-- most one open reservation; a retry opens a new one.
+CREATE TABLE credit_reservations (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  conversion_id UUID REFERENCES conversions(id) ON DELETE CASCADE NOT NULL,
+  amount INTEGER DEFAULT 1 NOT NULL CHECK (amount > 0),
+  status TEXT DEFAULT 'reserved' NOT NULL CHECK (status IN ('reserved', 'committed', 'released')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  settled_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX idx_credit_reservations_open ON credit_reservations(conversion_id) WHERE status = 'reserved';
+CREATE INDEX idx_credit_reservations_user_id ON credit_reservations(user_id);
+
+ALTER TABLE credit_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE credit_reservations ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own history; only the functions below write it
+CREATE POLICY "Users can view own credit ledger" ON credit_ledger
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own credit reservations" ON credit_reservations
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Start the ledger from the history so far: credit_change events from usage_analytics, preceded by an
+-- opening balance that makes them add up to each user's current credits
+INSERT INTO credit_ledger (user_id, delta, balance_after, reason, created_at)
+SELECT
+  up.id,
+  COALESCE(up.credits_remaining, 0) - COALESCE(history.total, 0),
+  COALESCE(up.credits_remaining, 0) - COALESCE(history.total, 0),
+  'opening_balance',
+  COALESCE(history.first_at - INTERVAL '1 second', up.created_at, NOW())
+FROM user_profiles up
+JOIN auth.users u ON u.id = up.id
+LEFT JOIN (
+  SELECT user_id, SUM((metadata->>'credit_delta')::INTEGER) AS total, MIN(created_at) AS first_at
+  FROM usage_analytics
+  WHERE event_type = 'credit_change' AND metadata ? 'credit_delta'
+  GROUP BY user_id
+) history ON history.user_id = up.id;
+
+INSERT INTO credit_ledger (user_id, delta, balance_after, reason, created_at)
+SELECT
+  ua.user_id,
+  (ua.metadata->>'credit_delta')::INTEGER,
+  COALESCE((ua.metadata->>'credits_after')::INTEGER, 0),
+  COALESCE(ua.metadata->>'reason', 'unknown'),
+  ua.created_at
+FROM usage_analytics ua
+JOIN user_profiles up ON up.id = ua.user_id
+JOIN auth.users u ON u.id = ua.user_id
+WHERE ua.event_type = 'credit_change' AND ua.metadata ? 'credit_delta';
+
+-- Conversions in flight during the upgrade already paid for their credit
+INSERT INTO credit_reservations (user_id, conversion_id)
+SELECT user_id, id FROM conversions
+WHERE status IN ('pending', 'processing') AND user_id IS NOT NULL;
+
+-- Change a user's balance and record why. Fails with INSUFFICIENT_CREDITS instead of going below zero.
+-- The profile row stays locked until the transaction ends, so concurrent changes queue up behind it.
+CREATE OR REPLACE FUNCTION public.apply_credit_change(
+  target_user_id UUID,
+  credit_delta INTEGER,
+  credit_reason TEXT,
+  target_conversion_id UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  new_balance INTEGER;
+BEGIN
+  PERFORM set_config('app.credit_ledger', 'on', true);
+
+  UPDATE user_profiles
+  SET credits_remaining = COALESCE(credits_remaining, 0) + credit_delta,
+      updated_at = NOW()
+  WHERE id = target_user_id
+    AND COALESCE(credits_remaining, 0) + credit_delta >= 0
+  RETURNING credits_remaining INTO new_balance;
+
+  PERFORM set_config('app.credit_ledger', 'off', true);
+
+  IF new_balance IS NULL THEN
+    IF EXISTS (SELECT 1 FROM user_profiles WHERE id = target_user_id) THEN
+      RAISE EXCEPTION 'INSUFFICIENT_CREDITS' USING DETAIL = format('Cannot apply %s credits', credit_delta);
+    END IF;
+    RAISE EXCEPTION 'USER_PROFILE_NOT_FOUND';
+  END IF;
+
+  INSERT INTO credit_ledger (user_id, delta, balance_after, reason, conversion_id)
+  VALUES (target_user_id, credit_delta, new_balance, credit_reason, target_conversion_id);
+
+  RETURN new_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Set a balance outright (monthly refills, plan changes), recording the difference
+CREATE OR REPLACE FUNCTION public.set_credit_balance(target_user_id UUID, target_balance INTEGER, credit_reason TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  current_balance INTEGER;
+BEGIN
+  SELECT COALESCE(credits_remaining, 0) INTO current_balance
+  FROM user_profiles
+  WHERE id = target_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'USER_PROFILE_NOT_FOUND';
+  END IF;
+
+  IF current_balance = target_balance THEN
+    RETURN current_balance;
+  END IF;
+
+  RETURN apply_credit_change(target_user_id, target_balance - current_balance, credit_reason);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Charge one credit per conversion. All or nothing: if the balance does not cover every conversion,
+-- nothing is charged.
+CREATE OR REPLACE FUNCTION public.reserve_conversion_credits(target_user_id UUID, conversion_ids UUID[], credit_reason TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  reserved_conversion_id UUID;
+  new_balance INTEGER;
+BEGIN
+  FOREACH reserved_conversion_id IN ARRAY conversion_ids LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM conversions WHERE id = reserved_conversion_id AND user_id = target_user_id
+    ) THEN
+      RAISE EXCEPTION 'CONVERSION_NOT_FOUND' USING DETAIL = reserved_conversion_id::TEXT;
+    END IF;
+
+    INSERT INTO credit_reservations (user_id, conversion_id)
+    VALUES (target_user_id, reserved_conversion_id);
+
+    new_balance := apply_credit_change(target_user_id, -1, credit_reason, reserved_conversion_id);
+  END LOOP;
+
+  RETURN new_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Keep the charge for a finished conversion. Returns false when there was no open reservation.
+CREATE OR REPLACE FUNCTION public.commit_conversion_credit(target_conversion_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE credit_reservations
+  SET status = 'committed', settled_at = NOW()
+  WHERE conversion_id = target_conversion_id AND status = 'reserved';
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Refund the open reservations of these conversions. Settled reservations are skipped, so a refund is
+-- never paid twice. Returns the number of conversions refunded.
+CREATE OR REPLACE FUNCTION public.release_conversion_credits(conversion_ids UUID[], credit_reason TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  released RECORD;
+  released_count INTEGER := 0;
+BEGIN
+  FOR released IN
+    UPDATE credit_reservations
+    SET status = 'released', settled_at = NOW()
+    WHERE conversion_id = ANY(conversion_ids) AND status = 'reserved'
+    RETURNING user_id, conversion_id, amount
+  LOOP
+    PERFORM apply_credit_change(released.user_id, released.amount, credit_reason, released.conversion_id);
+    released_count := released_count + 1;
+  END LOOP;
+
+  RETURN released_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Record balances set on signup and edits made outside the functions above with the service role (e.g. in
+-- the dashboard), so the ledger keeps adding up
+CREATE OR REPLACE FUNCTION public.record_credit_balance_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF COALESCE(NEW.credits_remaining, 0) <> 0 THEN
+      INSERT INTO credit_ledger (user_id, delta, balance_after, reason)
+      VALUES (NEW.id, NEW.credits_remaining, NEW.credits_remaining, 'opening_balance');
+    END IF;
+  ELSIF current_setting('app.credit_ledger', true) IS DISTINCT FROM 'on'
+    AND COALESCE(NEW.credits_remaining, 0) <> COALESCE(OLD.credits_remaining, 0) THEN
+    INSERT INTO credit_ledger (user_id, delta, balance_after, reason)
+    VALUES (
+      NEW.id,
+      COALESCE(NEW.credits_remaining, 0) - COALESCE(OLD.credits_remaining, 0),
+      COALESCE(NEW.credits_remaining, 0),
+      'manual_adjustment'
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_credit_balance_change
+  AFTER INSERT OR UPDATE OF credits_remaining ON user_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.record_credit_balance_change();
+
+-- Users whose cached balance disagrees with their ledger. Should always be empty.
+CREATE VIEW credit_balance_discrepancies AS
+SELECT
+  up.id AS user_id,
+  COALESCE(up.credits_remaining, 0) AS credits_remaining,
+  COALESCE(SUM(cl.delta), 0)::INTEGER AS ledger_balance
+FROM user_profiles up
+LEFT JOIN credit_ledger cl ON cl.user_id = up.id
+GROUP BY up.id, up.credits_remaining
+HAVING COALESCE(up.credits_remaining, 0) <> COALESCE(SUM(cl.delta), 0);
+
+-- Billing state may only change on the server: balances through the functions above and plan changes with
+-- the service role. Users can still edit their own profile, but not its credits_remaining or
+-- subscription_tier columns.
+REVOKE INSERT, UPDATE ON user_profiles FROM anon, authenticated;
+GRANT INSERT (id, email, full_name, avatar_url, created_at, updated_at) ON user_profiles TO authenticated;
+GRANT UPDATE (email, full_name, avatar_url, updated_at) ON user_profiles TO authenticated;
+
+REVOKE ALL ON credit_balance_discrepancies FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.apply_credit_change(UUID, INTEGER, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_credit_balance(UUID, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reserve_conversion_credits(UUID, UUID[], TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.commit_conversion_credit(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_conversion_credits(UUID[], TEXT) FROM PUBLIC, anon, authenticated;